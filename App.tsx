@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   LightingTime, 
   SunDirection, 
@@ -7,17 +7,63 @@ import {
   UploadedImage, 
   GenerationParams, 
   Language,
-  PromptResult
+  PromptResult,
+  ProviderId,
+  HistoryEntry,
+  SweepSelection,
+  SweepCell,
+  SceneAnalysis,
+  ResultOperation,
+  CompareImage,
+  EditRegion,
+  EditStrategy,
+  OperationInputs,
+  RenderQuality,
+  ProjectInfo
 } from './types';
-import { TRANSLATIONS, MASTER_STYLES } from './constants';
+import { TRANSLATIONS } from './constants';
 import ImageUploader from './components/ImageUploader';
 import ParameterControls from './components/ParameterControls';
 import PromptInput from './components/PromptInput';
 import ImageModal from './components/ImageModal';
 import DigitalDragon from './components/DigitalDragon';
 import ResultCard from './components/ResultCard'; // New Component
-import { generateArchitecturalPrompt, editArchitecturalImage, applyMasterStyle } from './services/geminiService';
-import { Wand2, AlertCircle, Building2, Globe, ChevronRight, ShoppingBag, ExternalLink, Clock, Maximize2 } from 'lucide-react';
+import HistoryPanel from './components/HistoryPanel';
+import VariationGrid from './components/VariationGrid';
+import SweepPanel from './components/SweepPanel';
+import ContactSheet from './components/ContactSheet';
+import SceneAnalysisEditor from './components/SceneAnalysisEditor';
+import PromptTemplateSettings from './components/PromptTemplateSettings';
+import StyleLibraryManager from './components/StyleLibraryManager';
+import SketchPreprocessor from './components/SketchPreprocessor';
+import LineageTree from './components/LineageTree';
+import ComparisonPanel from './components/ComparisonPanel';
+import FramingControls from './components/FramingControls';
+import ProjectSaveDialog from './components/ProjectSaveDialog';
+import PresentationBoardDialog from './components/PresentationBoardDialog';
+import {
+  generateArchitecturalPrompt,
+  analyzeArchitecturalScene,
+  renderArchitecturalVariations,
+  generateParameterSweep,
+  editArchitecturalRegions,
+  applyMasterStyle,
+  upscaleImage
+} from './services/geminiService';
+import { RENDER_PROVIDERS, getRenderProvider, getRenderProviderId, setRenderProvider } from './services/renderProvider';
+import { saveHistoryEntry, getHistoryEntry, isHistoryAvailable, listLineageEntries } from './services/historyStore';
+import { createUploadedImage, UPLOAD_QUALITY } from './services/imageUtils';
+import { processSketchFile } from './services/sketchProcessing';
+import { saveProjectArchive, openProjectArchive, getProjectFileName, PROJECT_EXTENSION } from './services/projectArchive';
+import { createRenderMetadata, createRenderPng, readRenderPng } from './services/pngMetadata';
+import { getDefaultSiteSun } from './services/solarPosition';
+import { DEFAULT_CAMERA } from './services/camera';
+import { isAbortError } from './services/abort';
+import { describeError, getErrorText } from './services/errors';
+import { getStyleLibrary, localizeStyles } from './services/styleLibrary';
+import { composeRegionMasks } from './services/maskUtils';
+import { deriveResult, mergeLineage, buildLineageTree, getLineagePath, getRootId } from './services/lineage';
+import { Wand2, AlertCircle, Building2, Globe, ChevronRight, ShoppingBag, ExternalLink, Cpu, Square, FileText, Palette, Save, FolderOpen, Presentation } from 'lucide-react';
 
 const App: React.FC = () => {
   // --- State ---
@@ -31,25 +77,65 @@ const App: React.FC = () => {
     sunDirection: SunDirection.TopLeft,
     weather: WeatherCondition.Clear,
     language: Language.English,
+    quality: RenderQuality.Standard,
+    aspectRatio: 'auto',
+    framing: 'letterbox',
+    siteSun: getDefaultSiteSun(),
+    camera: DEFAULT_CAMERA,
   });
 
   const [result, setResult] = useState<PromptResult | null>(null); // Original Result
   const [styledResult, setStyledResult] = useState<PromptResult | null>(null); // Master Filtered Result
-  const [history, setHistory] = useState<PromptResult[]>([]);
+  const [variations, setVariations] = useState<PromptResult[]>([]); // All alternatives from the last run
+  const [variationCount, setVariationCount] = useState(1);
+  const [batchSize, setBatchSize] = useState(1); // variationCount at the time of the last run
+  const [reviewAnalysis, setReviewAnalysis] = useState(false);
+  const [pendingAnalysis, setPendingAnalysis] = useState<SceneAnalysis | null>(null); // Awaiting review before rendering
+  const [sweepSelection, setSweepSelection] = useState<SweepSelection>({
+    lighting: [LightingTime.Sunny, LightingTime.Sunset],
+    sunDirection: [SunDirection.TopLeft],
+    weather: [WeatherCondition.Clear, WeatherCondition.Rain],
+  });
+  const [sweepRun, setSweepRun] = useState<{ selection: SweepSelection; cells: SweepCell[] } | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0); // Bumped to make HistoryPanel reload
+  const [lineage, setLineage] = useState<PromptResult[]>([]); // Results of every lineage tree seen this session
+  const [comparison, setComparison] = useState<{ before: CompareImage; after: CompareImage } | null>(null);
+  const [historyCompareFirst, setHistoryCompareFirst] = useState<HistoryEntry | null>(null); // Waiting for a second entry
   
   // Modal State
   const [modalOpen, setModalOpen] = useState(false);
+  const [modalCompare, setModalCompare] = useState<CompareImage | null>(null);
+  const modalSketchUrlRef = useRef<string | null>(null); // Object URL of a history entry's sketch shown in the modal
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [stylesOpen, setStylesOpen] = useState(false);
+  const [prepareOpen, setPrepareOpen] = useState(false);
+  const [projectDialogOpen, setProjectDialogOpen] = useState(false);
+  const [boardOpen, setBoardOpen] = useState(false);
+  const [projectSaving, setProjectSaving] = useState(false);
+  const [projectInfo, setProjectInfo] = useState<ProjectInfo>({ jobNumber: '', name: '' }); // Last saved or opened project
+  const [styleLibrary, setStyleLibrary] = useState(getStyleLibrary());
   const [selectedResult, setSelectedResult] = useState<PromptResult | null>(null);
 
-  const [status, setStatus] = useState<'idle' | 'analyzing' | 'generating' | 'editing'>('idle');
+  const [providerId, setProviderId] = useState<ProviderId>(getRenderProviderId());
+
+  const [status, setStatus] = useState<'idle' | 'analyzing' | 'generating' | 'editing' | 'upscaling'>('idle');
+  const [upscaleProgress, setUpscaleProgress] = useState({ done: 0, total: 0 });
   const [error, setError] = useState<string | null>(null);
 
+  // Controller for the run in flight, aborted by the Cancel button
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const sketchRef = useRef(sketch); // Sketch on screen, for async work that must not overwrite a newer one
+
   // Editing State
   // Tracks which card is currently being edited: 'original', 'styled', or null
   const [editingTarget, setEditingTarget] = useState<'original' | 'styled' | null>(null);
 
   const t = TRANSLATIONS[params.language];
-  const masterStyles = MASTER_STYLES[params.language];
+  const masterStyles = localizeStyles(styleLibrary, params.language);
+  const lineageRoots = result ? buildLineageTree(lineage, getRootId(result)) : [];
+  const lineagePath = result ? getLineagePath(lineage, result.id).map(r => r.id) : [];
+  const sketchImage: CompareImage | null = sketch[0] ? { src: sketch[0].previewUrl, label: t.compareSketch } : null;
   
   // Fixed Affiliate Link
   const SHOPEE_LINK = "https://s.shopee.tw/8zy2gtPZhc";
@@ -61,48 +147,255 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Downloaded renders can be dropped anywhere on the page to bring their settings back
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      if (e.dataTransfer?.types.includes('Files')) e.preventDefault();
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (e.defaultPrevented) return; // Taken by an upload zone
+      const file = e.dataTransfer?.files[0];
+      if (!file) return;
+      e.preventDefault(); // Keep the browser from opening the file in place of the app
+      if (file.type === 'image/png' && status === 'idle') handleImportRender(file);
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [status, params.language]);
+
+  useEffect(() => {
+    sketchRef.current = sketch;
+  }, [sketch]);
+
+  // Prepared sketches are made at the upload size, so another quality prepares them again from the photo.
+  // The result is dropped if the sketch was replaced meanwhile, e.g. by restoring a history entry.
+  useEffect(() => {
+    const prepared = sketch[0];
+    if (!prepared?.original || !prepared.adjustments) return;
+    const { original, adjustments } = prepared;
+    let cancelled = false;
+    processSketchFile(original, adjustments, UPLOAD_QUALITY[params.quality].maxSize)
+      .then(createUploadedImage)
+      .then(image => {
+        if (cancelled || sketchRef.current[0] !== prepared) {
+          URL.revokeObjectURL(image.previewUrl);
+          return;
+        }
+        URL.revokeObjectURL(prepared.previewUrl);
+        setSketch([{ ...image, original, adjustments }]);
+      })
+      .catch(err => console.error("Sketch processing failed", err));
+    return () => { cancelled = true; };
+  }, [params.quality]);
+
   // --- Handlers ---
+  // A render records the sketch and prompt on screen; a result derived from one (styled, edited, upscaled)
+  // takes its input from the parent's entry instead, as it may come from history rather than the screen
+  const recordHistory = async (entryResult: PromptResult, masterStyle?: string, entryParams: GenerationParams = params) => {
+    if (!isHistoryAvailable()) return;
+    try {
+      const parent = entryResult.parentId ? await getHistoryEntry(entryResult.parentId) : null;
+      const input: Pick<HistoryEntry, 'sketch' | 'sketchId' | 'sketchName' | 'params' | 'userPrompt'> = entryResult.parentId
+        ? {
+            sketch: parent?.sketch,
+            sketchId: parent?.sketchId,
+            sketchName: parent?.sketchName,
+            params: parent?.params ?? entryResult.params ?? entryParams,
+            userPrompt: parent?.userPrompt ?? '',
+          }
+        : {
+            sketch: sketch[0]?.file,
+            sketchId: sketch[0]?.id,
+            sketchName: sketch[0]?.file.name,
+            params: entryParams,
+            userPrompt,
+          };
+      const evicted = await saveHistoryEntry({
+        id: entryResult.id,
+        result: entryResult,
+        ...input,
+        masterStyle,
+        timestamp: entryResult.timestamp
+      });
+      if (evicted > 0) {
+        setError(t.storageEvicted.replace('{count}', String(evicted)));
+      }
+      setHistoryVersion(v => v + 1);
+    } catch (err) {
+      console.error("History save failed", err);
+      setError(t.historyUnavailable);
+    }
+  };
+
+  const trackLineage = (...added: PromptResult[]) => setLineage(prev => mergeLineage(prev, added));
+
+  // Starts a cancellable request; the returned signal goes to every service call of this run
+  const beginRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  // A request superseded by a newer one leaves the status to the newer request
+  const endRequest = (signal: AbortSignal) => {
+    if (abortControllerRef.current?.signal === signal) {
+      abortControllerRef.current = null;
+      setStatus('idle');
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Shared reset at the start of every generate/render run
+  const startRun = () => {
+    setError(null);
+    setResult(null);
+    setStyledResult(null);
+    setEditingTarget(null);
+    setPendingAnalysis(null);
+    setVariations([]);
+    setBatchSize(variationCount);
+  };
+
+  const handleVariationReady = (masterStylePrompt?: string) => (variation: PromptResult) => {
+    // Renders can finish out of order, keep the grid in variation order
+    setVariations(prev => [...prev, variation].sort((a, b) => (a.variationIndex ?? 0) - (b.variationIndex ?? 0)));
+    trackLineage(variation);
+    // The first successful render takes the main slot
+    setResult(prev => (!prev || (!prev.imageData && variation.imageData)) ? variation : prev);
+    // Persist to history
+    recordHistory(variation, masterStylePrompt);
+  };
+
+  // If no image came back at all (but prompt success), show it in main error bar too
+  const reportRunFailure = (results: PromptResult[]) => {
+    const firstFailure = results.find(r => r.error);
+    if (firstFailure && !results.some(r => r.imageData)) {
+      setError(getErrorText(firstFailure.errorKind, params.language).message);
+    }
+  };
+
   const handleGenerate = async (masterStylePrompt?: string) => {
     if (sketch.length === 0) {
       setError(t.errorSketch);
       return;
     }
 
+    const signal = beginRequest();
     setStatus('analyzing');
-    setError(null);
-    setResult(null);
-    setStyledResult(null);
-    setEditingTarget(null);
+    startRun();
 
     try {
-      const generatedResult = await generateArchitecturalPrompt(
+      // Stop after the analysis so the user can correct it before rendering
+      if (reviewAnalysis && !masterStylePrompt) {
+        const analysis = await analyzeArchitecturalScene(
+          sketch[0],
+          context.length > 0 ? context[0] : null,
+          references,
+          params,
+          userPrompt,
+          signal
+        );
+        setPendingAnalysis(analysis);
+        return;
+      }
+
+      const generatedResults = await generateArchitecturalPrompt(
         sketch[0],
         context.length > 0 ? context[0] : null,
         references,
         params,
         userPrompt,
         (currentStatus) => setStatus(currentStatus),
-        masterStylePrompt
+        masterStylePrompt,
+        variationCount,
+        handleVariationReady(masterStylePrompt),
+        signal
       );
-      
-      setResult(generatedResult);
-      
-      // If there was an image generation error (but prompt success), show it in main error bar too
-      if (generatedResult.error) {
-        setError(generatedResult.error);
-      }
-      
-      // Add to history (keep max 3)
-      setHistory(prev => {
-        const newHistory = [generatedResult, ...prev];
-        return newHistory.slice(0, 3);
-      });
+      reportRunFailure(generatedResults);
 
-    } catch (err: any) {
+    } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError(err.message || t.errorGeneric);
+      setError(describeError(err, params.language));
     } finally {
-      setStatus('idle');
+      endRequest(signal);
+    }
+  };
+
+  // Render straight from a reviewed or corrected analysis, skipping step 1
+  const handleRenderAnalysis = async (analysis: SceneAnalysis) => {
+    if (sketch.length === 0) {
+      setError(t.errorSketch);
+      return;
+    }
+
+    const signal = beginRequest();
+    setStatus('generating');
+    startRun();
+
+    try {
+      const renderedResults = await renderArchitecturalVariations(
+        sketch[0],
+        analysis,
+        params,
+        undefined,
+        variationCount,
+        handleVariationReady(),
+        signal
+      );
+      reportRunFailure(renderedResults);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(describeError(err, params.language));
+    } finally {
+      endRequest(signal);
+    }
+  };
+
+  const handleRunSweep = async () => {
+    if (sketch.length === 0) {
+      setError(t.errorSketch);
+      return;
+    }
+
+    const selection = sweepSelection;
+    const signal = beginRequest();
+    setStatus('analyzing');
+    setError(null);
+    setEditingTarget(null);
+    setSweepRun({ selection, cells: [] });
+
+    try {
+      await generateParameterSweep(
+        sketch[0],
+        context.length > 0 ? context[0] : null,
+        references,
+        params,
+        userPrompt,
+        selection,
+        (currentStatus) => setStatus(currentStatus),
+        (cell) => {
+          setSweepRun(prev => prev ? { ...prev, cells: [...prev.cells, cell] } : prev);
+          trackLineage(cell.result);
+          recordHistory(cell.result, undefined, cell.result.params); // The cell's own conditions, site sun off
+        },
+        signal
+      );
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Sweep failed", err);
+      setError(describeError(err, params.language));
+    } finally {
+      endRequest(signal);
     }
   };
 
@@ -115,84 +408,387 @@ const App: React.FC = () => {
       return;
     }
 
+    const signal = beginRequest();
     setStatus('generating');
     setError(null);
     setEditingTarget(null);
 
     try {
-      const styledImageData = await applyMasterStyle(sourceResult.imageData, sourceResult.prompt, stylePrompt);
+      const styledImageData = await applyMasterStyle(sourceResult.imageData, sourceResult.prompt, stylePrompt, signal);
       
-      const newResult: PromptResult = {
-        id: Date.now().toString(),
+      const newResult = deriveResult(sourceResult, ResultOperation.MasterStyle, { masterStyle: stylePrompt }, {
         prompt: `[MASTER FILTER APPLIED] ${sourceResult.prompt}`,
         imageData: styledImageData,
-        timestamp: Date.now()
-      };
+        model: getRenderProvider().budgets.style.model
+      });
 
       setStyledResult(newResult); // Always update the Styled Result slot
+      trackLineage(newResult);
 
-      // Add to history
-      setHistory(prev => {
-        const newHistory = [newResult, ...prev];
-        return newHistory.slice(0, 3);
-      });
+      // Persist to history
+      await recordHistory(newResult, stylePrompt);
 
-    } catch (err: any) {
+    } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Master Style Error", err);
-      setError(err.message || t.errorGeneric);
+      setError(describeError(err, params.language));
     } finally {
-      setStatus('idle');
+      endRequest(signal);
     }
   };
 
-  const handleApplyEdit = async (mask: string, prompt: string) => {
+  const handleApplyEdit = async (regions: EditRegion[], strategy: EditStrategy) => {
     const targetResult = editingTarget === 'original' ? result : styledResult;
 
     if (!targetResult?.imageData) return;
     
+    const signal = beginRequest();
     setStatus('editing');
+    setError(null);
     try {
-       const newImageData = await editArchitecturalImage(targetResult.imageData, mask, prompt);
-       const updatedResult = { ...targetResult, imageData: newImageData, id: Date.now().toString(), timestamp: Date.now() };
+       const newImageData = await editArchitecturalRegions(targetResult.imageData, regions, strategy, signal);
+       // Regions are recorded one by one; prompt and mask summarise them as one edit, with their union as the edited area
+       const inputs: OperationInputs = {
+         editPrompt: regions.length === 1 ? regions[0].prompt : regions.map(r => `${r.name}: ${r.prompt}`).join(' · '),
+         editMask: regions.length === 1 ? regions[0].mask : await composeRegionMasks(regions, false),
+         editRegions: regions,
+         editStrategy: strategy,
+       };
+       // The edit is a new child of the target, the target itself stays in the lineage
+       const editedResult = deriveResult(targetResult, ResultOperation.InpaintEdit, inputs, {
+         prompt: targetResult.prompt,
+         imageData: newImageData,
+         model: getRenderProvider().budgets.edit.model
+       });
        
        if (editingTarget === 'original') {
-         setResult(updatedResult);
+         setResult(editedResult);
        } else {
-         setStyledResult(updatedResult);
+         setStyledResult(editedResult);
        }
+       trackLineage(editedResult);
 
        // Add edited version to history too
-       setHistory(prev => [updatedResult, ...prev].slice(0, 3));
+       await recordHistory(editedResult);
        
        setEditingTarget(null);
-    } catch (err: any) {
+    } catch (err) {
+       if (isAbortError(err)) return;
        console.error("Edit failed", err);
-       setError(err.message || t.errorGeneric);
+       setError(describeError(err, params.language));
     } finally {
-       setStatus('idle');
+       endRequest(signal);
     }
   };
 
-  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setParams({ ...params, language: e.target.value as Language });
+  // Print upscale of a card's image: kept in the lineage and history, and downloaded straight away
+  const handleUpscale = async (target: PromptResult, factor: number) => {
+    if (!target.imageData) return;
+
+    const signal = beginRequest();
+    setStatus('upscaling');
+    setError(null);
+    setEditingTarget(null);
+
+    try {
+      const { imageData, failedTiles, totalTiles } = await upscaleImage(
+        target.imageData,
+        target.prompt,
+        factor,
+        (done, total) => setUpscaleProgress({ done, total }),
+        signal
+      );
+      const upscaled = deriveResult(target, ResultOperation.Upscale, { upscaleFactor: factor }, {
+        prompt: target.prompt,
+        imageData,
+        model: getRenderProvider().budgets.enhance.model
+      });
+      trackLineage(upscaled);
+      handleDownloadImage(upscaled);
+      if (failedTiles > 0) {
+        setError(t.upscalePartial.replace('{failed}', String(failedTiles)).replace('{total}', String(totalTiles)));
+      }
+      await recordHistory(upscaled);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Upscale failed", err);
+      setError(describeError(err, params.language));
+    } finally {
+      endRequest(signal);
+    }
   };
 
-  const handleDownloadImage = (res: PromptResult) => {
-    if (res?.imageData) {
+  const handleSaveProject = async (info: ProjectInfo) => {
+    setProjectSaving(true);
+    try {
+      // Saved renders of every lineage tree in the session, with the sketch and settings of each
+      const rootIds = [...new Set(lineage.map(getRootId))];
+      const history = isHistoryAvailable() ? (await Promise.all(rootIds.map(listLineageEntries))).flat() : [];
+
+      const blob = await saveProjectArchive({
+        info,
+        sketch,
+        context,
+        references,
+        userPrompt,
+        params,
+        variationCount,
+        reviewAnalysis,
+        sweepSelection,
+        pendingAnalysis,
+        result,
+        styledResult,
+        variations,
+        sweepRun,
+        lineage,
+        history
+      });
+      const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
-      link.href = `data:image/png;base64,${res.imageData}`;
-      link.download = `eden-archviz-${Date.now()}.png`;
+      link.href = url;
+      link.download = getProjectFileName(info);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      setProjectInfo(info);
+      setProjectDialogOpen(false);
+    } catch (err: any) {
+      console.error("Project save failed", err);
+      setError(`${t.projectSaveFailed} (${err.message})`);
+    } finally {
+      setProjectSaving(false);
+    }
+  };
+
+  // Replaces the whole session with the project; the interface language stays as it is
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type === 'image/png') return handleImportRender(file); // Single downloaded render
+
+    try {
+      const project = await openProjectArchive(file);
+      [...sketch, ...context, ...references].forEach(img => URL.revokeObjectURL(img.previewUrl));
+
+      setSketch(project.sketch);
+      setContext(project.context);
+      setReferences(project.references);
+      setUserPrompt(project.userPrompt);
+      setParams({
+        ...project.params,
+        siteSun: project.params.siteSun ?? getDefaultSiteSun(),
+        camera: project.params.camera ?? DEFAULT_CAMERA,
+        language: params.language
+      });
+      setVariationCount(project.variationCount);
+      setReviewAnalysis(project.reviewAnalysis);
+      setSweepSelection(project.sweepSelection);
+      setPendingAnalysis(project.pendingAnalysis);
+      setResult(project.result);
+      setStyledResult(project.styledResult);
+      setVariations(project.variations);
+      setBatchSize(Math.max(1, project.variations.length));
+      setSweepRun(project.sweepRun);
+      setLineage(mergeLineage([], project.lineage));
+      setProjectInfo(project.info);
+      setEditingTarget(null);
+      setComparison(null);
+      setHistoryCompareFirst(null);
+      setError(null);
+
+      // Make the project's saved renders browsable in this browser's history too
+      if (isHistoryAvailable()) {
+        for (const entry of project.history) await saveHistoryEntry(entry);
+        setHistoryVersion(v => v + 1);
+      }
+    } catch (err: any) {
+      console.error("Project open failed", err);
+      setError(`${t.projectOpenFailed} (${err.message})`);
     }
   };
 
-  const openModal = (item: PromptResult) => {
+  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setParams({ ...params, language: e.target.value as Language });
+  };
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value as ProviderId;
+    setRenderProvider(id);
+    setProviderId(id);
+  };
+
+  // Downloads carry their prompt, settings and lineage in PNG text chunks, so they can be traced and dropped back in
+  const handleDownloadImage = (res: PromptResult) => {
+    if (!res?.imageData) return;
+    // The master style in force is the one applied nearest to this result
+    const masterStyle = getLineagePath(mergeLineage(lineage, [res]), res.id)
+      .reverse()
+      .find(r => r.operationInputs?.masterStyle)?.operationInputs?.masterStyle;
+    const blob = createRenderPng(res.imageData, createRenderMetadata(res, masterStyle, params));
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `eden-archviz-${res.id}.png`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // A downloaded render brought back: its settings are restored and it becomes the main result
+  const handleImportRender = async (file: File) => {
+    try {
+      const imported = await readRenderPng(file);
+      if (!imported) {
+        setError(t.renderMetadataMissing);
+        return;
+      }
+      const { metadata, imageData } = imported;
+      if (metadata.params) {
+        setParams({
+          ...metadata.params,
+          quality: metadata.params.quality ?? RenderQuality.Standard,
+          aspectRatio: metadata.params.aspectRatio ?? 'auto',
+          framing: metadata.params.framing ?? 'letterbox',
+          siteSun: metadata.params.siteSun ?? getDefaultSiteSun(),
+          camera: metadata.params.camera ?? DEFAULT_CAMERA,
+          language: params.language
+        });
+      }
+      const restored: PromptResult = {
+        id: metadata.resultId,
+        prompt: metadata.prompt,
+        imageData,
+        timestamp: Date.parse(metadata.createdAt) || Date.now(),
+        aspectRatio: metadata.aspectRatio,
+        params: metadata.params,
+        model: metadata.model,
+        parentId: metadata.parentId,
+        rootId: metadata.rootId,
+        operation: metadata.operation,
+        operationInputs: metadata.operation === ResultOperation.MasterStyle ? { masterStyle: metadata.masterStyle } : {},
+      };
+      setResult(restored);
+      setStyledResult(null);
+      setVariations([]);
+      setPendingAnalysis(null);
+      setEditingTarget(null);
+      setError(null);
+      trackLineage(restored);
+
+      // Renders made in this browser bring back the rest of their lineage tree
+      if (isHistoryAvailable()) {
+        listLineageEntries(getRootId(restored))
+          .then(entries => trackLineage(...entries.map(e => e.result)))
+          .catch(err => console.error("Lineage load failed", err));
+      }
+    } catch (err: any) {
+      console.error("Render import failed", err);
+      setError(`${t.renderImportFailed} (${err.message})`);
+    }
+  };
+
+  // Continue from any step of the lineage: it becomes the main result and the next filter or edit branches off it
+  const handleBranchFrom = (node: PromptResult) => {
+    setResult(node);
+    setStyledResult(null);
+    setEditingTarget(null);
+  };
+
+  const handlePromoteVariation = (variation: PromptResult) => {
+    setResult(variation);
+    setStyledResult(null);
+    setEditingTarget(null);
+  };
+
+  // Helper: Image of a result for the comparison view
+  const toCompareImage = (item: PromptResult, label: string): CompareImage => ({
+    src: `data:image/png;base64,${item.imageData}`,
+    label,
+  });
+
+  // Helper: The image a result was made from. A generated result falls back to the sketch on screen;
+  // a derived one whose parent is not in the session has nothing to compare with
+  const getCompareSource = (item: PromptResult): CompareImage | null => {
+    if (!item.parentId) return sketchImage;
+    const parent = lineage.find(r => r.id === item.parentId);
+    return parent?.imageData ? toCompareImage(parent, t.comparePrevious) : null;
+  };
+
+  // First pick marks an entry, the second opens the comparison; picking the same entry again unmarks it
+  const handleHistoryCompare = (entry: HistoryEntry) => {
+    if (!historyCompareFirst || historyCompareFirst.id === entry.id) {
+      setHistoryCompareFirst(historyCompareFirst ? null : entry);
+      return;
+    }
+    setComparison({
+      before: toCompareImage(historyCompareFirst.result, new Date(historyCompareFirst.timestamp).toLocaleString()),
+      after: toCompareImage(entry.result, new Date(entry.timestamp).toLocaleString()),
+    });
+    setHistoryCompareFirst(null);
+  };
+
+  const openModal = (item: PromptResult, compareWith: CompareImage | null = getCompareSource(item)) => {
+    if (modalSketchUrlRef.current) {
+      URL.revokeObjectURL(modalSketchUrlRef.current);
+      modalSketchUrlRef.current = null;
+    }
     setSelectedResult(item);
+    setModalCompare(compareWith);
     setModalOpen(true);
   };
 
+  // A saved render compares against the sketch it was made from, never the one on screen
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    const parent = entry.result.parentId ? lineage.find(r => r.id === entry.result.parentId) : undefined;
+    if (parent?.imageData) {
+      openModal(entry.result, toCompareImage(parent, t.comparePrevious));
+    } else if (!entry.result.parentId && entry.sketch) {
+      const url = URL.createObjectURL(entry.sketch);
+      openModal(entry.result, { src: url, label: t.compareSketch });
+      modalSketchUrlRef.current = url;
+    } else {
+      openModal(entry.result, null);
+    }
+  };
+
+  // Bring back the inputs and output of a saved render
+  const handleRestoreEntry = async (entry: HistoryEntry) => {
+    // Entries saved before quality presets, framing, site sun and camera settings existed ran at standard quality with an automatic ratio, preset lighting and the default camera
+    setParams({
+      ...entry.params,
+      quality: entry.params.quality ?? RenderQuality.Standard,
+      aspectRatio: entry.params.aspectRatio ?? 'auto',
+      framing: entry.params.framing ?? 'letterbox',
+      siteSun: entry.params.siteSun ?? getDefaultSiteSun(),
+      camera: entry.params.camera ?? DEFAULT_CAMERA,
+      language: params.language
+    });
+    setUserPrompt(entry.userPrompt);
+    setResult(entry.result);
+    setStyledResult(null);
+    setVariations([]);
+    setPendingAnalysis(null);
+    setEditingTarget(null);
+    setError(null);
+    trackLineage(entry.result);
+
+    // Bring back the rest of its lineage tree
+    if (isHistoryAvailable()) {
+      listLineageEntries(getRootId(entry.result))
+        .then(entries => trackLineage(...entries.map(e => e.result)))
+        .catch(err => console.error("Lineage load failed", err));
+    }
+
+    if (entry.sketch) {
+      const file = new File([entry.sketch], entry.sketchName || 'sketch.png', { type: entry.sketch.type });
+      setSketch([await createUploadedImage(file)]);
+    }
+  };
+
   const handleVisitShop = () => {
     window.open(SHOPEE_LINK, '_blank');
   };
@@ -207,6 +803,55 @@ const App: React.FC = () => {
          isOpen={modalOpen}
          result={selectedResult}
          onClose={() => setModalOpen(false)}
+         onDownload={() => selectedResult && handleDownloadImage(selectedResult)}
+         compareWith={modalCompare}
+         language={params.language}
+      />
+
+      <PromptTemplateSettings
+         isOpen={templatesOpen}
+         onClose={() => setTemplatesOpen(false)}
+         language={params.language}
+      />
+
+      <SketchPreprocessor
+         isOpen={prepareOpen}
+         image={sketch[0] ?? null}
+         onClose={() => setPrepareOpen(false)}
+         onApply={(prepared) => {
+           setSketch([prepared]);
+           setPrepareOpen(false);
+         }}
+         uploadSize={UPLOAD_QUALITY[params.quality].maxSize}
+         language={params.language}
+      />
+
+      <ProjectSaveDialog
+         isOpen={projectDialogOpen}
+         info={projectInfo}
+         isSaving={projectSaving}
+         onClose={() => setProjectDialogOpen(false)}
+         onSave={handleSaveProject}
+         language={params.language}
+      />
+
+      <PresentationBoardDialog
+         isOpen={boardOpen}
+         results={lineage}
+         initialIds={[result?.id, styledResult?.id].filter((id): id is string => !!id)}
+         sketch={sketch[0] ?? null}
+         params={params}
+         userPrompt={userPrompt}
+         projectInfo={projectInfo}
+         styles={masterStyles}
+         onClose={() => setBoardOpen(false)}
+         language={params.language}
+      />
+
+      <StyleLibraryManager
+         isOpen={stylesOpen}
+         onClose={() => setStylesOpen(false)}
+         onChange={() => setStyleLibrary(getStyleLibrary())}
          language={params.language}
       />
 
@@ -224,6 +869,77 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-4">
+             {/* Projects */}
+             <button
+                onClick={() => setProjectDialogOpen(true)}
+                disabled={status !== 'idle'}
+                title={t.projectSave}
+                className="flex items-center justify-center w-9 h-9 bg-zinc-900/50 rounded-full border border-white/5 hover:border-white/20 text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+                <Save className="w-4 h-4" />
+             </button>
+             <button
+                onClick={() => projectInputRef.current?.click()}
+                disabled={status !== 'idle'}
+                title={t.projectOpen}
+                className="flex items-center justify-center w-9 h-9 bg-zinc-900/50 rounded-full border border-white/5 hover:border-white/20 text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+                <FolderOpen className="w-4 h-4" />
+             </button>
+             <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_EXTENSION},application/zip,image/png`}
+                onChange={handleOpenProject}
+                className="hidden"
+             />
+
+             {/* Presentation Board */}
+             <button
+                onClick={() => setBoardOpen(true)}
+                disabled={!lineage.some(r => r.imageData)}
+                title={t.boardTitle}
+                className="flex items-center justify-center w-9 h-9 bg-zinc-900/50 rounded-full border border-white/5 hover:border-white/20 text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+                <Presentation className="w-4 h-4" />
+             </button>
+
+             {/* Prompt Templates */}
+             <button
+                onClick={() => setTemplatesOpen(true)}
+                disabled={status !== 'idle'}
+                title={t.templatesTitle}
+                className="flex items-center justify-center w-9 h-9 bg-zinc-900/50 rounded-full border border-white/5 hover:border-white/20 text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+                <FileText className="w-4 h-4" />
+             </button>
+
+             {/* Master Style Library */}
+             <button
+                onClick={() => setStylesOpen(true)}
+                title={t.stylesTitle}
+                className="flex items-center justify-center w-9 h-9 bg-zinc-900/50 rounded-full border border-white/5 hover:border-white/20 text-zinc-400 hover:text-zinc-200 transition-colors"
+             >
+                <Palette className="w-4 h-4" />
+             </button>
+
+             {/* Render Provider Selector */}
+             <div className="flex items-center gap-2 bg-zinc-900/50 rounded-full px-4 py-1.5 border border-white/5 hover:border-white/20 transition-colors" title={t.renderEngine}>
+                <Cpu className="w-4 h-4 text-zinc-400" />
+                <select 
+                  value={providerId} 
+                  onChange={handleProviderChange}
+                  disabled={status !== 'idle'}
+                  className="bg-transparent text-sm text-zinc-300 border-none outline-none focus:ring-0 cursor-pointer w-24 sm:w-auto font-medium disabled:cursor-not-allowed"
+                >
+                  {Object.values(RENDER_PROVIDERS).map((provider) => (
+                    <option key={provider.id} value={provider.id} className="bg-zinc-900 text-zinc-200">
+                      {provider.label}
+                    </option>
+                  ))}
+                </select>
+             </div>
+
              {/* Language Selector */}
              <div className="flex items-center gap-2 bg-zinc-900/50 rounded-full px-4 py-1.5 border border-white/5 hover:border-white/20 transition-colors">
                 <Globe className="w-4 h-4 text-zinc-400" />
@@ -266,6 +982,14 @@ const App: React.FC = () => {
 
             <ParameterControls params={params} onChange={setParams} />
 
+            <SweepPanel
+              selection={sweepSelection}
+              onChange={setSweepSelection}
+              onRun={handleRunSweep}
+              isDisabled={status !== 'idle' || sketch.length === 0}
+              language={params.language}
+            />
+
             <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10">
               <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wider mb-4">{t.siteContext}</h3>
                <ImageUploader 
@@ -285,6 +1009,7 @@ const App: React.FC = () => {
                 images={references} 
                 onImagesChange={setReferences}
                 multiple 
+                referenceRoles
                 language={params.language}
               />
             </div>
@@ -316,11 +1041,23 @@ const App: React.FC = () => {
                    setError(null); // Clear error on new upload
                 }} 
                 required
+                onPrepare={() => setPrepareOpen(true)}
+                pasteTarget
                 language={params.language}
               />
               <p className="mt-4 text-sm text-zinc-500 font-mono">
                 {t.sketchNote}
               </p>
+              {sketch.length > 0 && (
+                <FramingControls
+                  image={sketch[0]}
+                  aspectRatio={params.aspectRatio}
+                  framing={params.framing}
+                  onChange={(aspectRatio, framing) => setParams({ ...params, aspectRatio, framing })}
+                  isDisabled={status !== 'idle'}
+                  language={params.language}
+                />
+              )}
             </div>
 
             {/* Action Bar */}
@@ -360,6 +1097,11 @@ const App: React.FC = () => {
                             <div className="w-5 h-5 border-2 border-white/10 border-t-magenta-400 rounded-full animate-spin" />
                             {t.processingEdit}
                             </>
+                        ) : status === 'upscaling' ? (
+                            <>
+                            <div className="w-5 h-5 border-2 border-white/10 border-t-emerald-400 rounded-full animate-spin" />
+                            {t.upscaling.replace('{done}', String(upscaleProgress.done)).replace('{total}', String(upscaleProgress.total))}
+                            </>
                         ) : (
                             <>
                             <Wand2 className="w-5 h-5" />
@@ -368,14 +1110,81 @@ const App: React.FC = () => {
                             </>
                         )}
                     </button>
+
+                    {status !== 'idle' && (
+                        <button
+                            onClick={handleCancel}
+                            className="ml-3 flex items-center gap-2 px-5 py-5 rounded-2xl font-bold text-xs uppercase tracking-widest bg-zinc-900 border border-rose-500/30 text-rose-300 hover:bg-rose-950/50 hover:border-rose-500/60 transition-all backdrop-blur-md"
+                        >
+                            <Square className="w-4 h-4" />
+                            {t.cancelRun}
+                        </button>
+                    )}
                 </div>
 
+                {/* Variation Count */}
+                <div className="flex items-center gap-2 mt-3 pointer-events-auto bg-black/60 backdrop-blur-md rounded-xl px-3 py-2 border border-white/5">
+                    <span className="text-[10px] text-zinc-500 font-bold uppercase tracking-wider">{t.variationCount}</span>
+                    {[1, 2, 3, 4].map((count) => (
+                        <button
+                            key={count}
+                            onClick={() => setVariationCount(count)}
+                            disabled={status !== 'idle'}
+                            className={`
+                                w-7 h-7 text-xs rounded-lg border transition-all font-mono font-bold disabled:cursor-not-allowed
+                                ${variationCount === count
+                                ? 'bg-zinc-100 border-white text-zinc-900'
+                                : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
+                            `}
+                        >
+                            {count}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Review Analysis Toggle */}
+                <label className="flex items-center gap-2 mt-2 pointer-events-auto bg-black/60 backdrop-blur-md rounded-xl px-3 py-2 border border-white/5 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={reviewAnalysis}
+                        onChange={(e) => setReviewAnalysis(e.target.checked)}
+                        disabled={status !== 'idle'}
+                        className="accent-cyan-500"
+                    />
+                    <span className="text-[10px] text-zinc-500 font-bold uppercase tracking-wider">{t.reviewAnalysis}</span>
+                </label>
+
                 <p className="text-[10px] text-zinc-600 mt-2 text-right font-mono tracking-wider w-full pr-2">
                   eden_d_photo製作
                 </p>
             </div>
 
             {/* Results Area */}
+            {/* Analysis awaiting review */}
+            {pendingAnalysis && (
+              <div className="bg-zinc-900/40 backdrop-blur-xl border border-cyan-500/30 rounded-3xl p-6 shadow-lg animate-in fade-in slide-in-from-bottom-8 duration-700">
+                <SceneAnalysisEditor
+                  analysis={pendingAnalysis}
+                  onRender={handleRenderAnalysis}
+                  onDiscard={() => setPendingAnalysis(null)}
+                  isDisabled={status !== 'idle'}
+                  language={params.language}
+                />
+              </div>
+            )}
+
+            {/* 0. Variations from the last run */}
+            {batchSize > 1 && (variations.length > 0 || status !== 'idle') && (
+              <VariationGrid
+                variations={variations}
+                expectedCount={status === 'idle' ? variations.length : batchSize}
+                mainId={result?.id}
+                onPromote={handlePromoteVariation}
+                onZoom={(item) => openModal(item)}
+                language={params.language}
+              />
+            )}
+
             {/* 1. Original Generated Result */}
             {result && (
               <ResultCard
@@ -388,8 +1197,17 @@ const App: React.FC = () => {
                 onEditApply={handleApplyEdit}
                 onZoom={() => openModal(result)}
                 onDownload={() => handleDownloadImage(result)}
+                onRenderAnalysis={handleRenderAnalysis}
                 language={params.language}
                 status={status}
+                upscaleConfig={{
+                  onUpscale: (factor) => handleUpscale(result, factor),
+                  isDisabled: status !== 'idle'
+                }}
+                compareConfig={sketchImage ? {
+                  label: t.compareWithSketch,
+                  onCompare: () => setComparison({ before: sketchImage, after: toCompareImage(result, t.compareRender) })
+                } : undefined}
                 filterConfig={{
                   label: t.masterFilterLabel,
                   styles: masterStyles,
@@ -413,6 +1231,17 @@ const App: React.FC = () => {
                 onDownload={() => handleDownloadImage(styledResult)}
                 language={params.language}
                 status={status}
+                upscaleConfig={{
+                  onUpscale: (factor) => handleUpscale(styledResult, factor),
+                  isDisabled: status !== 'idle'
+                }}
+                compareConfig={{
+                  label: t.compareWithOriginal,
+                  onCompare: () => setComparison({
+                    before: toCompareImage(lineage.find(r => r.id === styledResult.parentId) ?? result ?? styledResult, t.compareOriginal),
+                    after: toCompareImage(styledResult, t.compareStyled)
+                  })
+                }}
                 filterConfig={{
                   label: t.masterReFilterLabel,
                   styles: masterStyles,
@@ -422,51 +1251,51 @@ const App: React.FC = () => {
               />
             )}
 
-            {/* History Section */}
-            {(result || history.length > 0) && (
-                <div className="mt-12 border-t border-white/5 pt-8">
-               <h3 className="text-base font-bold text-zinc-400 mb-6 flex items-center gap-2 uppercase tracking-widest">
-                  <Clock className="w-5 h-5" />
-                  {t.historyLabel}
-               </h3>
-               
-               {history.length === 0 ? (
-                  <div className="bg-white/5 border border-white/5 border-dashed rounded-xl p-8 text-center text-zinc-600">
-                      <p className="text-sm font-mono">{t.historyEmpty}</p>
-                  </div>
-               ) : (
-                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
-                     {history.map((item) => (
-                        <div 
-                           key={item.id} 
-                           className="group relative aspect-video bg-zinc-900 rounded-xl overflow-hidden border border-white/10 cursor-pointer hover:border-cyan-500/50 transition-all shadow-lg"
-                           onClick={() => openModal(item)}
-                        >
-                           {item.imageData ? (
-                               <img 
-                                 src={`data:image/png;base64,${item.imageData}`} 
-                                 alt="History" 
-                                 className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110 opacity-60 group-hover:opacity-100"
-                               />
-                           ) : (
-                               <div className="w-full h-full flex items-center justify-center text-zinc-700 text-xs bg-rose-950/20">
-                                   ERROR
-                               </div>
-                           )}
-                           <div className="absolute inset-0 bg-gradient-to-t from-black via-black/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4">
-                               <p className="text-xs text-zinc-300 line-clamp-2 font-mono mb-2">{item.prompt}</p>
-                               <div className="flex items-center gap-1 text-xs font-bold text-cyan-400 uppercase tracking-wider">
-                                  <Maximize2 className="w-4 h-4" />
-                                  {t.zoomIn}
-                               </div>
-                           </div>
-                        </div>
-                     ))}
-                  </div>
-               )}
-            </div>
+            {/* Before / after comparison */}
+            {comparison && (
+              <ComparisonPanel
+                before={comparison.before}
+                after={comparison.after}
+                onClose={() => setComparison(null)}
+                language={params.language}
+              />
+            )}
+
+            {/* Lineage of the main result */}
+            {lineageRoots.some(root => root.children.length > 0) && (
+              <LineageTree
+                roots={lineageRoots}
+                currentIds={[result?.id, styledResult?.id].filter((id): id is string => !!id)}
+                pathIds={lineagePath}
+                styles={masterStyles}
+                isDisabled={status !== 'idle'}
+                onOpen={(item) => openModal(item)}
+                onBranch={handleBranchFrom}
+                language={params.language}
+              />
             )}
 
+            {/* 3. Parameter Sweep Contact Sheet */}
+            {sweepRun && (
+              <ContactSheet
+                cells={sweepRun.cells}
+                selection={sweepRun.selection}
+                isRunning={status !== 'idle'}
+                onZoom={(item) => openModal(item)}
+                language={params.language}
+              />
+            )}
+
+            {/* History Section */}
+            <HistoryPanel
+              language={params.language}
+              refreshKey={historyVersion}
+              onOpen={openHistoryEntry}
+              onRestore={handleRestoreEntry}
+              onCompare={handleHistoryCompare}
+              compareSelectedId={historyCompareFirst?.id}
+            />
+
           </div>
         </div>
 
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Camera } from 'lucide-react';
+import { CameraSettings, CameraView, DepthOfField, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { CAMERA_VIEWS, FOCAL_LENGTHS, DEPTHS_OF_FIELD, canCorrectVerticals } from '../services/camera';
+
+interface CameraControlsProps {
+  camera: CameraSettings;
+  onChange: (camera: CameraSettings) => void;
+  language: Language;
+}
+
+const CameraControls: React.FC<CameraControlsProps> = ({ camera, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  const update = (changes: Partial<CameraSettings>) => onChange({ ...camera, ...changes });
+
+  const viewLabels: Record<CameraView | 'auto', string> = {
+    auto: t.cameraAuto,
+    'eye-level': t.cameraEyeLevel,
+    aerial: t.cameraAerial,
+    'worms-eye': t.cameraWormsEye,
+    drone: t.cameraDrone,
+  };
+  const depthLabels: Record<DepthOfField, string> = {
+    deep: t.dofDeep,
+    natural: t.dofNatural,
+    shallow: t.dofShallow,
+  };
+  const correctable = canCorrectVerticals(camera);
+
+  const optionClass = (active: boolean) => `
+    px-2 py-2 text-xs rounded-lg border transition-all font-medium
+    ${active
+      ? 'bg-zinc-100 border-white text-zinc-900 shadow-[0_0_15px_-3px_rgba(255,255,255,0.3)]'
+      : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
+  `;
+  const fieldLabel = "text-[10px] font-bold text-zinc-500 uppercase tracking-wider";
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
+        <Camera className="w-4 h-4 text-violet-400" /> {t.camera}
+      </label>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(['auto', ...CAMERA_VIEWS] as (CameraView | 'auto')[]).map(view => (
+          <button key={view} onClick={() => update({ view })} className={optionClass(camera.view === view)}>
+            {viewLabels[view]}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <span className={fieldLabel}>{t.focalLength}</span>
+        <div className="flex flex-wrap gap-1.5">
+          {(['auto', ...FOCAL_LENGTHS] as (number | 'auto')[]).map(focalLength => (
+            <button
+              key={focalLength}
+              onClick={() => update({ focalLength })}
+              className={`flex-1 font-mono ${optionClass(camera.focalLength === focalLength)}`}
+            >
+              {focalLength === 'auto' ? t.cameraAuto : `${focalLength}mm`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <span className={fieldLabel}>{t.depthOfField}</span>
+        <div className="grid grid-cols-3 gap-2">
+          {DEPTHS_OF_FIELD.map(depthOfField => (
+            <button key={depthOfField} onClick={() => update({ depthOfField })} className={optionClass(camera.depthOfField === depthOfField)}>
+              {depthLabels[depthOfField]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className={`flex items-start gap-2 text-xs ${correctable ? 'text-zinc-300 cursor-pointer' : 'text-zinc-600 cursor-not-allowed'}`}>
+        <input
+          type="checkbox"
+          checked={camera.verticalCorrection && correctable}
+          disabled={!correctable}
+          onChange={(e) => update({ verticalCorrection: e.target.checked })}
+          className="mt-0.5 accent-cyan-500"
+        />
+        <span>
+          {t.verticalCorrection}
+          <span className="block text-zinc-500">{correctable ? t.verticalCorrectionHint : t.verticalCorrectionWormsEye}</span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default CameraControls;
@@ -0,0 +1,47 @@
+import React, { useEffect, useRef } from 'react';
+import { SplitSquareHorizontal, X } from 'lucide-react';
+import { CompareImage, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import ComparisonView from './ComparisonView';
+
+interface ComparisonPanelProps {
+  before: CompareImage;
+  after: CompareImage;
+  onClose: () => void;
+  language: Language;
+}
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ before, after, onClose, language }) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const t = TRANSLATIONS[language];
+
+  // The compare buttons can be far away (e.g. in the history), so bring the panel into view
+  useEffect(() => {
+    panelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [before.src, after.src]);
+
+  return (
+    <div ref={panelRef} className="bg-black/40 backdrop-blur-md border border-white/10 rounded-3xl overflow-hidden shadow-2xl animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex items-center justify-between gap-4">
+        <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400 min-w-0">
+          <SplitSquareHorizontal className="w-5 h-5 flex-shrink-0" />
+          {t.compareTitle}
+          <span className="text-[10px] sm:text-xs px-2 py-0.5 rounded-full border bg-cyan-950/50 text-cyan-300 border-cyan-500/20 truncate normal-case">
+            {before.label} / {after.label}
+          </span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-2 text-zinc-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-4">
+        <ComparisonView before={before} after={after} language={language} />
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPanel;
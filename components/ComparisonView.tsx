@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { SplitSquareHorizontal, Layers, Columns2 } from 'lucide-react';
+import { CompareImage, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+
+type CompareMode = 'split' | 'onion' | 'side';
+
+interface ComparisonViewProps {
+  before: CompareImage;
+  after: CompareImage;
+  language: Language;
+  imageClassName?: string; // Height limit for the images, e.g. inside the modal
+}
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ before, after, language, imageClassName = 'max-h-[70vh]' }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [position, setPosition] = useState(50); // Split position or onion blend, in percent
+  const t = TRANSLATIONS[language];
+
+  const modes: { id: CompareMode; label: string; icon: React.ReactNode }[] = [
+    { id: 'split', label: t.compareSplit, icon: <SplitSquareHorizontal className="w-4 h-4" /> },
+    { id: 'onion', label: t.compareOnion, icon: <Layers className="w-4 h-4" /> },
+    { id: 'side', label: t.compareSideBySide, icon: <Columns2 className="w-4 h-4" /> },
+  ];
+
+  const badge = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md bg-black/70 text-zinc-200 border border-white/10 pointer-events-none`}>
+      {text}
+    </span>
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Mode Switch */}
+      <div className="flex flex-wrap items-center gap-2">
+        {modes.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => setMode(item.id)}
+            className={`flex items-center gap-2 px-3 py-1.5 text-xs rounded-lg border transition-all font-bold uppercase tracking-wider ${
+              mode === item.id
+                ? 'bg-cyan-500/20 border-cyan-500 text-cyan-100'
+                : 'bg-zinc-900 border-white/5 text-zinc-500 hover:text-zinc-300 hover:border-white/20'
+            }`}
+          >
+            {item.icon}
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'side' ? (
+        <div className="grid grid-cols-2 gap-2">
+          {[before, after].map((image, index) => (
+            <div key={index} className="relative bg-black rounded-xl overflow-hidden border border-white/10 flex items-center justify-center">
+              <img src={image.src} alt={image.label} className={`w-full h-auto object-contain ${imageClassName}`} />
+              {badge(image.label, 'left')}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="relative bg-black rounded-xl overflow-hidden border border-white/10 select-none">
+          {/* The after image sets the size, the before image is laid over it */}
+          <img src={after.src} alt={after.label} className={`block w-full h-auto object-contain ${imageClassName}`} draggable={false} />
+          <img
+            src={before.src}
+            alt={before.label}
+            draggable={false}
+            className="absolute inset-0 w-full h-full object-contain bg-black"
+            style={mode === 'split'
+              ? { clipPath: `inset(0 ${100 - position}% 0 0)` }
+              : { opacity: 1 - position / 100 }}
+          />
+
+          {mode === 'split' && (
+            <>
+              <div className="absolute top-0 bottom-0 w-0.5 bg-cyan-400 shadow-[0_0_10px_rgba(6,182,212,0.8)] pointer-events-none" style={{ left: `${position}%` }}>
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-black/80 border-2 border-cyan-400 flex items-center justify-center">
+                  <SplitSquareHorizontal className="w-4 h-4 text-cyan-300" />
+                </div>
+              </div>
+              {/* Invisible range input gives dragging, clicking and arrow keys in one */}
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={0.5}
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                aria-label={t.compareSplit}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+              />
+            </>
+          )}
+
+          {badge(before.label, 'left')}
+          {badge(after.label, 'right')}
+        </div>
+      )}
+
+      {mode === 'onion' && (
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] text-zinc-500 font-bold uppercase tracking-wider whitespace-nowrap">{before.label}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={position}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            aria-label={t.compareOpacity}
+            className="flex-1 accent-cyan-500"
+          />
+          <span className="text-[10px] text-zinc-500 font-bold uppercase tracking-wider whitespace-nowrap">{after.label}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Grid3x3, Download, Maximize2 } from 'lucide-react';
+import { SweepCell, SweepSelection, PromptResult, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { renderContactSheet } from '../services/contactSheet';
+import { getErrorText } from '../services/errors';
+
+interface ContactSheetProps {
+  cells: SweepCell[];
+  selection: SweepSelection; // The selection the sweep was run with
+  isRunning: boolean;
+  onZoom: (result: PromptResult) => void;
+  language: Language;
+}
+
+const ContactSheet: React.FC<ContactSheetProps> = ({ cells, selection, isRunning, onZoom, language }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const t = TRANSLATIONS[language];
+
+  const rows = selection.lighting.flatMap(lighting => selection.sunDirection.map(sunDirection => ({ lighting, sunDirection })));
+  const labelFor = (value: string) => (t as any)[value] || value;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const sheet = await renderContactSheet(cells, selection, t.sweepTitle, labelFor);
+      const link = document.createElement('a');
+      link.href = `data:image/png;base64,${sheet}`;
+      link.download = `eden-contact-sheet-${Date.now()}.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (e) {
+      console.error("Contact sheet export failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-3xl overflow-hidden shadow-2xl animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex justify-between items-center">
+        <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400">
+          <Grid3x3 className="w-5 h-5" />
+          {t.contactSheetLabel}
+          <span className="text-[10px] sm:text-xs px-2 py-0.5 rounded-full border bg-cyan-950/50 text-cyan-300 border-cyan-500/20">
+            {cells.length} / {rows.length * selection.weather.length}
+          </span>
+        </h3>
+        <button
+          onClick={handleExport}
+          disabled={isRunning || isExporting || cells.length === 0}
+          className="flex items-center gap-2 px-3 py-2 text-xs font-bold uppercase tracking-wider bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          {t.exportSheet}
+        </button>
+      </div>
+
+      <div className="p-4 overflow-x-auto">
+        <table className="border-separate border-spacing-2">
+          <thead>
+            <tr>
+              <th />
+              {selection.weather.map((weather) => (
+                <th key={weather} className="text-xs font-bold text-cyan-400 uppercase tracking-wider pb-1">
+                  {labelFor(weather)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={`${row.lighting}-${row.sunDirection}`}>
+                <td className="pr-2 align-middle whitespace-nowrap">
+                  <p className="text-xs font-bold text-zinc-200">{labelFor(row.lighting)}</p>
+                  <p className="text-[10px] text-zinc-500">{labelFor(row.sunDirection)}</p>
+                </td>
+                {selection.weather.map((weather) => {
+                  const cell = cells.find(c =>
+                    c.lighting === row.lighting && c.sunDirection === row.sunDirection && c.weather === weather
+                  );
+                  return (
+                    <td key={weather} className="p-0">
+                      <div className="group relative w-48 aspect-video bg-zinc-900 rounded-lg overflow-hidden border border-white/10">
+                        {cell?.result.imageData ? (
+                          <>
+                            <img
+                              src={`data:image/png;base64,${cell.result.imageData}`}
+                              alt={`${row.lighting} ${weather}`}
+                              className="w-full h-full object-cover cursor-zoom-in"
+                              onClick={() => onZoom(cell.result)}
+                            />
+                            <Maximize2 className="absolute bottom-2 right-2 w-4 h-4 text-white opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+                          </>
+                        ) : cell ? (
+                          <div className="w-full h-full flex items-center justify-center text-rose-400/70 text-[10px] font-mono bg-rose-950/20 p-2 text-center">
+                            {cell.result.errorKind ? getErrorText(cell.result.errorKind, language).message : cell.result.error || 'ERROR'}
+                          </div>
+                        ) : isRunning ? (
+                          <div className="w-full h-full flex items-center justify-center">
+                            <div className="w-4 h-4 border-2 border-white/10 border-t-cyan-400 rounded-full animate-spin" />
+                          </div>
+                        ) : null}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ContactSheet;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Crop, AlertTriangle } from 'lucide-react';
+import { UploadedImage, Language, AspectRatioSetting, SketchFraming } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { ASPECT_RATIOS, getFrameLayout, getFrameMismatch, resolveAspectRatio } from '../services/aspectRatio';
+
+interface FramingControlsProps {
+  image: UploadedImage;
+  aspectRatio: AspectRatioSetting;
+  framing: SketchFraming;
+  onChange: (aspectRatio: AspectRatioSetting, framing: SketchFraming) => void;
+  isDisabled: boolean;
+  language: Language;
+}
+
+const MISMATCH_WARNING = 0.1; // Warn once a tenth of the sketch is cut or the frame is padded
+
+const FramingControls: React.FC<FramingControlsProps> = ({ image, aspectRatio, framing, onChange, isDisabled, language }) => {
+  const t = TRANSLATIONS[language];
+  const width = image.width || 1;
+  const height = image.height || 1;
+  const resolved = resolveAspectRatio(aspectRatio, image.width, image.height);
+  const layout = getFrameLayout(width, height, resolved, framing);
+  const mismatch = getFrameMismatch(width, height, resolved);
+
+  // The sketch placed in the frame exactly as it is uploaded, as percentages of the frame
+  const imageStyle: React.CSSProperties = {
+    left: `${((layout.dest.x - layout.source.x) / layout.width) * 100}%`,
+    top: `${((layout.dest.y - layout.source.y) / layout.height) * 100}%`,
+    width: `${(width / layout.width) * 100}%`,
+    height: `${(height / layout.height) * 100}%`,
+  };
+
+  const ratioButton = (setting: AspectRatioSetting, label: string) => (
+    <button
+      key={setting}
+      onClick={() => onChange(setting, framing)}
+      disabled={isDisabled}
+      className={`
+        px-2 py-1.5 text-xs rounded-lg border transition-all font-mono font-bold disabled:cursor-not-allowed
+        ${aspectRatio === setting
+          ? 'bg-zinc-100 border-white text-zinc-900'
+          : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
+      `}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="mt-6 flex flex-col sm:flex-row gap-6">
+      <div className="flex-1 space-y-3">
+        <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
+          <Crop className="w-4 h-4 text-cyan-400" /> {t.aspectRatio}
+        </label>
+        <div className="flex flex-wrap gap-1.5">
+          {ratioButton('auto', aspectRatio === 'auto' ? `${t.aspectAuto} · ${resolved}` : t.aspectAuto)}
+          {ASPECT_RATIOS.map(ratio => ratioButton(ratio, ratio))}
+        </div>
+
+        <div className="flex gap-2">
+          {(['letterbox', 'crop'] as SketchFraming[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onChange(aspectRatio, mode)}
+              disabled={isDisabled}
+              className={`
+                flex-1 px-3 py-2 text-xs rounded-lg border transition-all font-bold uppercase tracking-wider disabled:cursor-not-allowed
+                ${framing === mode
+                  ? 'bg-cyan-950/50 border-cyan-500/50 text-cyan-200'
+                  : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
+              `}
+            >
+              {mode === 'crop' ? t.framingCrop : t.framingLetterbox}
+            </button>
+          ))}
+        </div>
+
+        {mismatch > MISMATCH_WARNING && (
+          <p className="flex items-start gap-2 text-xs text-amber-300/90">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {(framing === 'crop' ? t.framingCropWarning : t.framingLetterboxWarning)
+              .replace('{percent}', String(Math.round(mismatch * 100)))
+              .replace('{ratio}', resolved)}
+          </p>
+        )}
+      </div>
+
+      {/* Preview of the framed sketch */}
+      <div className="sm:w-56 flex flex-col items-center gap-2">
+        <div className="w-full h-40 flex items-center justify-center">
+          <div
+            className="relative overflow-hidden bg-white border border-dashed border-cyan-500/60 max-w-full max-h-full"
+            style={{ aspectRatio: `${layout.width} / ${layout.height}`, height: layout.width > layout.height ? 'auto' : '100%', width: layout.width > layout.height ? '100%' : 'auto' }}
+          >
+            <img src={image.previewUrl} alt="" className="absolute max-w-none" style={imageStyle} />
+          </div>
+        </div>
+        <span className="text-[10px] text-zinc-500 font-mono uppercase tracking-wider">{t.framingPreview} · {resolved}</span>
+      </div>
+    </div>
+  );
+};
+
+export default FramingControls;
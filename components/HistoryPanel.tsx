@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, Maximize2, Search, Trash2, RotateCcw, ChevronLeft, ChevronRight, HardDrive, SplitSquareHorizontal } from 'lucide-react';
+import { HistoryEntry, HistoryPage, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { listHistory, deleteHistoryEntry, clearHistory, getStorageEstimate, isHistoryAvailable } from '../services/historyStore';
+
+interface HistoryPanelProps {
+  language: Language;
+  refreshKey: number; // Bumped by the parent whenever a new entry is saved
+  onOpen: (entry: HistoryEntry) => void;
+  onRestore: (entry: HistoryEntry) => void;
+  onCompare?: (entry: HistoryEntry) => void;
+  compareSelectedId?: string; // First pick of a two-entry comparison
+}
+
+const PAGE_SIZE = 6;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ language, refreshKey, onOpen, onRestore, onCompare, compareSelectedId }) => {
+  const [page, setPage] = useState(0);
+  const [query, setQuery] = useState("");
+  const [data, setData] = useState<HistoryPage>({ entries: [], total: 0 });
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const t = TRANSLATIONS[language];
+
+  const pageCount = Math.max(1, Math.ceil(data.total / PAGE_SIZE));
+
+  useEffect(() => {
+    if (!isHistoryAvailable()) return;
+    let cancelled = false;
+
+    listHistory(page * PAGE_SIZE, PAGE_SIZE, query)
+      .then((result) => {
+        if (cancelled) return;
+        // Step back if the current page was emptied by a deletion
+        if (result.entries.length === 0 && page > 0) {
+          setPage(page - 1);
+          return;
+        }
+        setData(result);
+      })
+      .catch((e) => console.error("History load failed", e));
+
+    getStorageEstimate().then((estimate) => {
+      if (!cancelled) setStorage(estimate);
+    });
+
+    return () => { cancelled = true; };
+  }, [page, query, refreshKey, reloadKey]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setPage(0);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setReloadKey(k => k + 1);
+    } catch (e) {
+      console.error("History delete failed", e);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t.historyClearConfirm)) return;
+    try {
+      await clearHistory();
+      setPage(0);
+      setReloadKey(k => k + 1);
+    } catch (e) {
+      console.error("History clear failed", e);
+    }
+  };
+
+  return (
+    <div className="mt-12 border-t border-white/5 pt-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-base font-bold text-zinc-400 flex items-center gap-2 uppercase tracking-widest">
+          <Clock className="w-5 h-5" />
+          {t.historyLabel}
+        </h3>
+        {compareSelectedId && (
+          <p className="text-xs text-cyan-300 flex items-center gap-2 animate-pulse">
+            <SplitSquareHorizontal className="w-4 h-4" />
+            {t.historyComparePick}
+          </p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2 bg-black/40 border border-white/10 rounded-lg px-3 py-2 focus-within:border-cyan-500/50">
+            <Search className="w-4 h-4 text-zinc-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              placeholder={t.historySearch}
+              className="bg-transparent text-sm text-zinc-200 outline-none placeholder-zinc-600 w-40 sm:w-56"
+            />
+          </div>
+          {data.total > 0 && !query && (
+            <button
+              onClick={handleClear}
+              className="flex items-center gap-2 px-3 py-2 text-xs font-bold uppercase tracking-wider text-rose-300 hover:bg-rose-950/50 rounded-lg transition-colors border border-transparent hover:border-rose-900"
+            >
+              <Trash2 className="w-4 h-4" />
+              {t.historyClear}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!isHistoryAvailable() ? (
+        <div className="bg-white/5 border border-white/5 border-dashed rounded-xl p-8 text-center text-zinc-600">
+          <p className="text-sm font-mono">{t.historyUnavailable}</p>
+        </div>
+      ) : data.entries.length === 0 ? (
+        <div className="bg-white/5 border border-white/5 border-dashed rounded-xl p-8 text-center text-zinc-600">
+          <p className="text-sm font-mono">{query ? t.historyNoMatch : t.historyEmpty}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+          {data.entries.map((entry) => (
+            <div
+              key={entry.id}
+              className={`group relative aspect-video bg-zinc-900 rounded-xl overflow-hidden border cursor-pointer hover:border-cyan-500/50 transition-all shadow-lg ${
+                entry.id === compareSelectedId ? 'border-cyan-400 ring-2 ring-cyan-500/40' : 'border-white/10'
+              }`}
+              onClick={() => onOpen(entry)}
+            >
+              {entry.result.imageData ? (
+                <img
+                  src={`data:image/png;base64,${entry.result.imageData}`}
+                  alt="History"
+                  className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110 opacity-60 group-hover:opacity-100"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-zinc-700 text-xs bg-rose-950/20">
+                  ERROR
+                </div>
+              )}
+              <div className="absolute inset-0 bg-gradient-to-t from-black via-black/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4">
+                <p className="text-[10px] text-zinc-500 font-mono mb-1">{new Date(entry.timestamp).toLocaleString()}</p>
+                <p className="text-xs text-zinc-300 line-clamp-2 font-mono mb-2">{entry.result.prompt}</p>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-1 text-xs font-bold text-cyan-400 uppercase tracking-wider">
+                    <Maximize2 className="w-4 h-4" />
+                    {t.zoomIn}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {onCompare && entry.result.imageData && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onCompare(entry);
+                        }}
+                        className={`p-1.5 rounded text-white transition-colors ${entry.id === compareSelectedId ? 'bg-cyan-500/80' : 'bg-black/80 hover:bg-cyan-500/80'}`}
+                        title={t.compareLabel}
+                      >
+                        <SplitSquareHorizontal className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRestore(entry);
+                      }}
+                      className="p-1.5 bg-black/80 hover:bg-cyan-500/80 rounded text-white transition-colors"
+                      title={t.historyRestore}
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(entry.id);
+                      }}
+                      className="p-1.5 bg-black/80 hover:bg-rose-500/80 rounded text-white transition-colors"
+                      title={t.historyDelete}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mt-6">
+        <p className="text-[10px] text-zinc-600 font-mono flex items-center gap-2">
+          {storage && storage.quota > 0 && (
+            <>
+              <HardDrive className="w-3 h-3" />
+              {t.storageUsed.replace('{used}', formatBytes(storage.usage)).replace('{quota}', formatBytes(storage.quota))}
+            </>
+          )}
+        </p>
+
+        {data.total > PAGE_SIZE && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              className="p-2 text-zinc-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              title={t.historyPrev}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-xs text-zinc-500 font-mono">
+              {t.historyPage.replace('{page}', String(page + 1)).replace('{pages}', String(pageCount))}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount - 1}
+              className="p-2 text-zinc-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              title={t.historyNext}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,32 +1,30 @@
 
 import React from 'react';
-import { X, Download, Copy, Check } from 'lucide-react';
-import { PromptResult, Language } from '../types';
+import { X, Download, Copy, Check, SplitSquareHorizontal } from 'lucide-react';
+import { PromptResult, Language, CompareImage } from '../types';
 import { TRANSLATIONS } from '../constants';
+import ComparisonView from './ComparisonView';
 
 interface ImageModalProps {
   result: PromptResult | null;
   isOpen: boolean;
   onClose: () => void;
+  onDownload: () => void;
+  compareWith?: CompareImage | null; // Earlier image to compare the result against
   language: Language;
 }
 
-const ImageModal: React.FC<ImageModalProps> = ({ result, isOpen, onClose, language }) => {
+const ImageModal: React.FC<ImageModalProps> = ({ result, isOpen, onClose, onDownload, compareWith, language }) => {
   const [copied, setCopied] = React.useState(false);
+  const [isComparing, setIsComparing] = React.useState(false);
   const t = TRANSLATIONS[language];
 
-  if (!isOpen || !result || !result.imageData) return null;
+  // Each opened image starts in the plain view
+  React.useEffect(() => {
+    setIsComparing(false);
+  }, [result?.id, isOpen]);
 
-  const handleDownload = () => {
-    if (result.imageData) {
-      const link = document.createElement('a');
-      link.href = `data:image/png;base64,${result.imageData}`;
-      link.download = `archviz-full-${result.id}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    }
-  };
+  if (!isOpen || !result || !result.imageData) return null;
 
   const handleCopy = () => {
     navigator.clipboard.writeText(result.prompt);
@@ -49,11 +47,22 @@ const ImageModal: React.FC<ImageModalProps> = ({ result, isOpen, onClose, langua
         
         {/* Image Area - Flexible Height */}
         <div className="flex-1 overflow-auto bg-black flex items-center justify-center p-4 relative bg-[url('https://www.transparenttextures.com/patterns/carbon-fibre.png')]">
-             <img 
-               src={`data:image/png;base64,${result.imageData}`} 
-               alt="Full view" 
-               className="max-w-full max-h-[80vh] object-contain shadow-[0_0_50px_-10px_rgba(0,0,0,0.8)]"
-             />
+             {isComparing && compareWith ? (
+               <div className="w-full">
+                 <ComparisonView
+                   before={compareWith}
+                   after={{ src: `data:image/png;base64,${result.imageData}`, label: t.imageResult }}
+                   imageClassName="max-h-[70vh]"
+                   language={language}
+                 />
+               </div>
+             ) : (
+               <img 
+                 src={`data:image/png;base64,${result.imageData}`} 
+                 alt="Full view" 
+                 className="max-w-full max-h-[80vh] object-contain shadow-[0_0_50px_-10px_rgba(0,0,0,0.8)]"
+               />
+             )}
         </div>
 
         {/* Footer Info Area */}
@@ -68,7 +77,7 @@ const ImageModal: React.FC<ImageModalProps> = ({ result, isOpen, onClose, langua
 
           <div className="flex flex-col justify-center gap-3 min-w-[140px]">
              <button
-                onClick={handleDownload}
+                onClick={onDownload}
                 className="flex items-center justify-center gap-2 px-4 py-2.5 bg-zinc-100 hover:bg-white text-black text-xs font-bold uppercase tracking-wider rounded-lg transition-colors"
              >
                 <Download className="w-4 h-4" />
@@ -81,6 +90,17 @@ const ImageModal: React.FC<ImageModalProps> = ({ result, isOpen, onClose, langua
                 {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
                 {copied ? t.copied : t.copy}
              </button>
+             {compareWith && (
+               <button
+                  onClick={() => setIsComparing(!isComparing)}
+                  className={`flex items-center justify-center gap-2 px-4 py-2.5 border text-xs font-bold uppercase tracking-wider rounded-lg transition-colors ${
+                    isComparing ? 'bg-cyan-500/20 border-cyan-500 text-cyan-100' : 'bg-transparent hover:bg-white/5 text-zinc-400 border-white/10'
+                  }`}
+               >
+                  <SplitSquareHorizontal className="w-4 h-4" />
+                  {t.compareLabel}
+               </button>
+             )}
           </div>
 
         </div>
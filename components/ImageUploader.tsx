@@ -1,8 +1,10 @@
 
-import React, { useRef } from 'react';
-import { Upload, X } from 'lucide-react';
-import { UploadedImage, Language } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, X, SlidersHorizontal, AlertCircle } from 'lucide-react';
+import { UploadedImage, Language, UploadRejection, ReferenceRole } from '../types';
 import { TRANSLATIONS } from '../constants';
+import { prepareUpload } from '../services/imageUtils';
+import { REFERENCE_ROLES, withReferenceDefaults } from '../services/referenceRoles';
 
 interface ImageUploaderProps {
   label: string;
@@ -11,9 +13,18 @@ interface ImageUploaderProps {
   onImagesChange: (images: UploadedImage[]) => void;
   multiple?: boolean;
   required?: boolean;
+  onPrepare?: (image: UploadedImage) => void; // Offers the sketch pre-processing for a single image
+  pasteTarget?: boolean; // Takes Ctrl+V pastes while the pointer is over no other uploader
+  referenceRoles?: boolean; // Each image gets a role and an influence weight
   language: Language;
 }
 
+// Drag data of a thumbnail being moved within its uploader
+const REORDER_TYPE = 'application/x-eden-image';
+
+// The uploader under the pointer, which a paste goes to
+let hoveredUploader: string | null = null;
+
 const ImageUploader: React.FC<ImageUploaderProps> = ({
   label,
   subLabel,
@@ -21,59 +32,113 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
   onImagesChange,
   multiple = false,
   required = false,
+  onPrepare,
+  pasteTarget = false,
+  referenceRoles = false,
   language
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploaderId = useRef(Math.random().toString(36).substring(2, 11)).current;
+  const [isDragging, setIsDragging] = useState(false);
+  const [rejected, setRejected] = useState<{ name: string; reason: UploadRejection }[]>([]);
   const t = TRANSLATIONS[language];
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files.length > 0) {
-      const files = Array.from(event.target.files) as File[];
-      
-      const newImagesPromises = files.map(file => {
-        return new Promise<UploadedImage>((resolve) => {
-          const url = URL.createObjectURL(file);
-          const img = new Image();
-          img.onload = () => {
-            resolve({
-              file,
-              previewUrl: url,
-              id: Math.random().toString(36).substring(2, 11),
-              width: img.width,
-              height: img.height
-            });
-          };
-          img.onerror = () => {
-             resolve({
-              file,
-              previewUrl: url,
-              id: Math.random().toString(36).substring(2, 11),
-              width: 0,
-              height: 0
-            });
-          };
-          img.src = url;
-        });
-      });
-
-      const newImages = await Promise.all(newImagesPromises);
-
-      if (multiple) {
-        onImagesChange([...images, ...newImages]);
-      } else {
-        // If single mode, replace existing
-        onImagesChange(newImages);
-      }
+  // Files from the picker, a drop or the clipboard all go through the same checks
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const checked = await Promise.all((multiple ? files : files.slice(0, 1)).map(async file => ({ file, ...await prepareUpload(file) })));
+    const newImages = checked.map(c => c.image).filter((img): img is UploadedImage => !!img)
+      .map(img => referenceRoles ? withReferenceDefaults(img) : img);
+    setRejected(checked.filter(c => c.rejection).map(c => ({ name: c.file.name, reason: c.rejection! })));
+    if (newImages.length === 0) return;
+
+    if (multiple) {
+      onImagesChange([...images, ...newImages]);
+    } else {
+      // If single mode, replace existing
+      onImagesChange(newImages);
     }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []) as File[];
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    await addFiles(files);
+  };
+
+  // Screenshots pasted from a CAD or 3D viewport arrive as unnamed clipboard images
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return; // Pasting text
+      if (hoveredUploader ? hoveredUploader !== uploaderId : !pasteTarget) return;
+      const files = Array.from(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      addFiles(files.map((file, i) => new File([file], `pasted-${stamp}${files.length > 1 ? `-${i + 1}` : ''}.${file.type.split('/')[1]}`, { type: file.type })));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [images, multiple, pasteTarget]);
+
+  useEffect(() => () => {
+    if (hoveredUploader === uploaderId) hoveredUploader = null;
+  }, []);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    const types = Array.from(e.dataTransfer.types);
+    if (!types.includes('Files') && !types.includes(REORDER_TYPE)) return;
+    e.preventDefault();
+    if (types.includes('Files')) setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault(); // Also tells the page-wide render import that this drop is taken
+    setIsDragging(false);
+    if (Array.from(e.dataTransfer.types).includes(REORDER_TYPE)) return; // Dropped beside a thumbnail
+    addFiles(Array.from(e.dataTransfer.files) as File[]);
+  };
+
+  // Moves the dragged reference in front of the one it was dropped on
+  const handleReorderDrop = (e: React.DragEvent, targetId: string) => {
+    const draggedId = e.dataTransfer.getData(REORDER_TYPE);
+    if (!draggedId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    const dragged = images.find(img => img.id === draggedId);
+    if (!dragged || draggedId === targetId) return;
+    const rest = images.filter(img => img.id !== draggedId);
+    const index = rest.findIndex(img => img.id === targetId);
+    onImagesChange([...rest.slice(0, index), dragged, ...rest.slice(index)]);
   };
 
   const removeImage = (idToRemove: string) => {
     onImagesChange(images.filter((img) => img.id !== idToRemove));
   };
 
+  const updateImage = (id: string, changes: Partial<UploadedImage>) => {
+    onImagesChange(images.map(img => img.id === id ? { ...withReferenceDefaults(img), ...changes } : img));
+  };
+
+  const roleLabels: Record<ReferenceRole, string> = {
+    material: t.refRoleMaterial,
+    lighting: t.refRoleLighting,
+    landscape: t.refRoleLandscape,
+    entourage: t.refRoleEntourage,
+    palette: t.refRolePalette,
+  };
+
+  const rejectionMessages: Record<UploadRejection, string> = {
+    type: t.uploadRejectType,
+    size: t.uploadRejectSize,
+    dimensions: t.uploadRejectDimensions,
+    unreadable: t.uploadRejectUnreadable,
+  };
+
   const handleClick = () => {
     fileInputRef.current?.click();
   };
@@ -89,9 +154,16 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
 
       <div 
         onClick={handleClick}
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+        onDrop={handleDrop}
+        onMouseEnter={() => { hoveredUploader = uploaderId; }}
+        onMouseLeave={() => { if (hoveredUploader === uploaderId) hoveredUploader = null; }}
         className={`
           relative border border-dashed rounded-xl p-8 transition-all duration-300 cursor-pointer group
-          ${images.length > 0 && !multiple 
+          ${isDragging
+            ? 'border-cyan-400 bg-cyan-500/10'
+            : images.length > 0 && !multiple 
             ? 'border-cyan-500/30 bg-cyan-900/10' 
             : 'border-white/10 hover:border-white/30 hover:bg-white/5 bg-black/20'}
         `}
@@ -99,7 +171,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept="image/jpeg,image/png,image/webp"
           multiple={multiple}
           className="hidden"
           onChange={handleFileSelect}
@@ -125,20 +197,71 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
                     <Upload className="w-5 h-5 text-zinc-500 mb-2" />
                     <span className="text-xs text-zinc-500">{t.addMore}</span>
                 </div>
-                {images.map((img) => (
-                  <div key={img.id} className="relative group/img aspect-square rounded-lg overflow-hidden bg-black border border-white/10">
-                    <img src={img.previewUrl} alt="Preview" className="w-full h-full object-cover opacity-80 group-hover/img:opacity-100 transition-opacity" />
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        removeImage(img.id);
-                      }}
-                      className="absolute top-1 right-1 p-1.5 bg-black/80 hover:bg-rose-500/80 rounded text-white opacity-0 group-hover/img:opacity-100 transition-opacity backdrop-blur-sm"
+                {images.map((img, index) => {
+                  const { role, weight } = withReferenceDefaults(img);
+                  return (
+                    <div
+                      key={img.id}
+                      onDrop={(e) => handleReorderDrop(e, img.id)}
+                      className="flex flex-col rounded-lg overflow-hidden bg-black border border-white/10"
                     >
-                      <X className="w-4 h-4" />
-                    </button>
-                  </div>
-                ))}
+                      {/* Only the picture is draggable, so the controls below stay usable */}
+                      <div
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData(REORDER_TYPE, img.id);
+                          e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        title={t.uploadReorder}
+                        className="relative group/img aspect-square cursor-grab active:cursor-grabbing"
+                      >
+                        <img src={img.previewUrl} alt="Preview" draggable={false} className="w-full h-full object-cover opacity-80 group-hover/img:opacity-100 transition-opacity" />
+                        <span className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-black/80 rounded text-[10px] text-zinc-300 font-mono">
+                          {index + 1}
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeImage(img.id);
+                          }}
+                          className="absolute top-1 right-1 p-1.5 bg-black/80 hover:bg-rose-500/80 rounded text-white opacity-0 group-hover/img:opacity-100 transition-opacity backdrop-blur-sm"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {referenceRoles && (
+                        <div className="p-2 space-y-2 bg-zinc-950 border-t border-white/5 cursor-default">
+                          <select
+                            value={role}
+                            onChange={(e) => updateImage(img.id, { role: e.target.value as ReferenceRole })}
+                            aria-label={t.refRole}
+                            className="w-full bg-black/40 border border-white/10 text-zinc-200 text-xs rounded-md p-1.5 outline-none focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500"
+                          >
+                            {REFERENCE_ROLES.map(value => (
+                              <option key={value} value={value}>{roleLabels[value]}</option>
+                            ))}
+                          </select>
+                          <label className="block space-y-1">
+                            <span className="flex justify-between text-[10px] text-zinc-500 uppercase tracking-wider">
+                              {t.refWeight}
+                              <span className="font-mono text-zinc-400">{weight}%</span>
+                            </span>
+                            <input
+                              type="range"
+                              min={0}
+                              max={100}
+                              step={25}
+                              value={weight}
+                              onChange={(e) => updateImage(img.id, { weight: Number(e.target.value) })}
+                              className="w-full accent-cyan-500"
+                            />
+                          </label>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
              </div>
            ) : (
              <div className="relative w-full aspect-video rounded-lg overflow-hidden bg-black border border-white/10" onClick={(e) => e.stopPropagation()}>
@@ -152,6 +275,18 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
                 >
                   <X className="w-5 h-5" />
                 </button>
+                {onPrepare && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onPrepare(images[0]);
+                    }}
+                    className="absolute top-3 left-3 flex items-center gap-2 px-3 py-2 bg-black/80 hover:bg-cyan-500/80 rounded-lg text-white text-xs font-bold uppercase tracking-wider transition-colors backdrop-blur-sm"
+                  >
+                    <SlidersHorizontal className="w-4 h-4" />
+                    {images[0].adjustments ? t.sketchPrepareAgain : t.sketchPrepare}
+                  </button>
+                )}
                 <div className="absolute bottom-3 right-3 px-3 py-1 bg-black/80 backdrop-blur-sm rounded text-xs text-zinc-300 font-mono border border-white/10">
                     {images[0].file.name}
                 </div>
@@ -159,6 +294,17 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
            )
         )}
       </div>
+
+      {rejected.length > 0 && (
+        <div className="space-y-1">
+          {rejected.map((item, i) => (
+            <p key={i} className="flex items-start gap-2 text-xs text-rose-400">
+              <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span><span className="font-mono">{item.name}</span>: {rejectionMessages[item.reason]}</span>
+            </p>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
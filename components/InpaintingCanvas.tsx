@@ -1,27 +1,83 @@
-
 import React, { useRef, useEffect, useState } from 'react';
-import { Eraser, Paintbrush, RotateCcw, Undo2, Redo2 } from 'lucide-react';
-import { Language } from '../types';
+import { Eraser, Paintbrush, RotateCcw, Undo2, Redo2, SquareDashed, CircleDashed, Lasso, Contrast, Feather, Wand, Plus, Trash2 } from 'lucide-react';
+import { Language, EditRegion } from '../types';
 import { TRANSLATIONS } from '../constants';
+import { REGION_COLORS, SelectionMode, hexToRgb, invertSelection, isSelectionEmpty, selectionToMask, floodSelect, applyRegion } from '../services/maskUtils';
 
 interface InpaintingCanvasProps {
   baseImage: string; // Base64 string of the image
-  onMaskReady: (maskBase64: string) => void;
+  onRegionsChange: (regions: EditRegion[]) => void; // Every region with its current mask
   language: Language;
 }
 
-const InpaintingCanvas: React.FC<InpaintingCanvasProps> = ({ baseImage, onMaskReady, language }) => {
+type MaskTool = 'brush' | 'eraser' | 'rect' | 'ellipse' | 'lasso' | 'wand';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Pixels and undo history of one region
+interface RegionLayer {
+  history: ImageData[];
+  step: number;
+  mask?: string; // Exported mask, missing while the layer is empty
+}
+
+const LASSO_CLOSE_DISTANCE = 12; // Screen pixels from the first point that close the lasso
+
+const InpaintingCanvas: React.FC<InpaintingCanvasProps> = ({ baseImage, onRegionsChange, language }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null); // Outlines of shapes and lassos still being drawn
+  const othersRef = useRef<HTMLCanvasElement>(null); // Regions other than the one being edited
   const containerRef = useRef<HTMLDivElement>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
   const [isDrawing, setIsDrawing] = useState(false);
   const [brushSize, setBrushSize] = useState(30);
-  
-  // History State
+  const [feather, setFeather] = useState(0);
+  const [tolerance, setTolerance] = useState(32);
+  const [lassoActive, setLassoActive] = useState(false);
+  const dragStartRef = useRef<Point | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const lassoRef = useRef<Point[]>([]);
+  const basePixelsRef = useRef<ImageData | null>(null); // Base image pixels for the magic wand
+
+  // Regions: the one being edited is drawn on the main canvas, its pixels are kept in its layer
+  const [regions, setRegions] = useState<EditRegion[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const layersRef = useRef<Map<string, RegionLayer>>(new Map());
+
+  // History State (of the active region)
   const [historyStep, setHistoryStep] = useState(0);
-  const historyRef = useRef<ImageData[]>([]);
 
   const t = TRANSLATIONS[language];
-  
+  const activeRegion = regions.find(r => r.id === activeId);
+  const activeColor = activeRegion?.color ?? REGION_COLORS[0];
+  const activeLayer = layersRef.current.get(activeId);
+
+  // Helper: New region with the first colour not taken yet
+  const createRegion = (existing: EditRegion[]): EditRegion => ({
+    id: Math.random().toString(36).substring(2, 11),
+    name: t.maskRegionName.replace('{n}', String(existing.length + 1)),
+    color: REGION_COLORS.find(c => !existing.some(r => r.color === c)) ?? REGION_COLORS[0],
+    prompt: '',
+  });
+
+  // Helper: Empty layer the size of the canvas
+  const createLayer = (): RegionLayer => {
+    const canvas = canvasRef.current!;
+    return { history: [new ImageData(canvas.width || 1, canvas.height || 1)], step: 0 };
+  };
+
+  const tools: { id: MaskTool; label: string; icon: React.ReactNode }[] = [
+    { id: 'brush', label: t.maskToolBrush, icon: <Paintbrush className="w-4 h-4" /> },
+    { id: 'eraser', label: t.maskToolEraser, icon: <Eraser className="w-4 h-4" /> },
+    { id: 'rect', label: t.maskToolRect, icon: <SquareDashed className="w-4 h-4" /> },
+    { id: 'ellipse', label: t.maskToolEllipse, icon: <CircleDashed className="w-4 h-4" /> },
+    { id: 'lasso', label: t.maskToolLasso, icon: <Lasso className="w-4 h-4" /> },
+    { id: 'wand', label: t.maskToolWand, icon: <Wand className="w-4 h-4" /> },
+  ];
+
   // Set up canvas size and context
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -33,158 +89,376 @@ const InpaintingCanvas: React.FC<InpaintingCanvasProps> = ({ baseImage, onMaskRe
     img.onload = () => {
        canvas.width = img.width;
        canvas.height = img.height;
-       
+       [previewRef.current, othersRef.current].forEach(layer => {
+           if (!layer) return;
+           layer.width = img.width;
+           layer.height = img.height;
+       });
+
        const ctx = canvas.getContext('2d');
        if(ctx) {
            ctx.clearRect(0, 0, canvas.width, canvas.height);
-           // Save initial blank state
-           const initialData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-           historyRef.current = [initialData];
+           // Start over with one empty region
+           const first = createRegion([]);
+           layersRef.current = new Map([[first.id, createLayer()]]);
+           setRegions([first]);
+           setActiveId(first.id);
            setHistoryStep(0);
        }
+
+       const pixels = document.createElement('canvas');
+       pixels.width = img.width;
+       pixels.height = img.height;
+       const pixelsCtx = pixels.getContext('2d');
+       if (pixelsCtx) {
+           pixelsCtx.drawImage(img, 0, 0);
+           basePixelsRef.current = pixelsCtx.getImageData(0, 0, img.width, img.height);
+       }
     };
 
   }, [baseImage]);
 
-  // Export mask based on current canvas state
-  const exportMask = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  // Export the mask of one region from its current layer state
+  const exportLayer = (layer: RegionLayer) => {
+    const selection = layer.history[layer.step];
+    if (isSelectionEmpty(selection)) {
+      layer.mask = undefined;
+      return;
+    }
 
     const offscreen = document.createElement('canvas');
-    offscreen.width = canvas.width;
-    offscreen.height = canvas.height;
+    offscreen.width = selection.width;
+    offscreen.height = selection.height;
     const ctx = offscreen.getContext('2d');
-    
+
     if (ctx) {
-      // Fill background black
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, offscreen.width, offscreen.height);
-      
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.drawImage(canvas, 0, 0);
-      
-      const imageData = ctx.getImageData(0, 0, offscreen.width, offscreen.height);
-      const data = imageData.data;
-      for (let i = 0; i < data.length; i += 4) {
-        if (data[i] > 20) { 
-           data[i] = 255;     // R
-           data[i + 1] = 255; // G
-           data[i + 2] = 255; // B
-        }
-      }
-      ctx.putImageData(imageData, 0, 0);
-      
-      // Export
-      const base64 = offscreen.toDataURL('image/png').split(',')[1];
-      onMaskReady(base64);
+      // White where selected, black elsewhere, with soft edges when feathered
+      ctx.putImageData(selectionToMask(selection, feather), 0, 0);
+      layer.mask = offscreen.toDataURL('image/png').split(',')[1];
     }
   };
 
+  const emitRegions = () => {
+    onRegionsChange(regions.map(r => ({ ...r, mask: layersRef.current.get(r.id)?.mask })));
+  };
+
+  // Names, prompts and the region list itself
+  useEffect(() => {
+    emitRegions();
+  }, [regions]);
+
+  // Feathering only changes the export, not the selection itself
+  useEffect(() => {
+    layersRef.current.forEach(exportLayer);
+    emitRegions();
+  }, [feather]);
+
   const saveHistoryState = () => {
      const canvas = canvasRef.current;
      const ctx = canvas?.getContext('2d');
-     if (!canvas || !ctx) return;
+     const layer = layersRef.current.get(activeId);
+     if (!canvas || !ctx || !layer) return;
 
      const currentData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-     
+
      // Truncate history if we are in the middle
-     const newHistory = historyRef.current.slice(0, historyStep + 1);
-     newHistory.push(currentData);
-     
-     historyRef.current = newHistory;
-     setHistoryStep(newHistory.length - 1);
-     
-     exportMask();
+     layer.history = [...layer.history.slice(0, layer.step + 1), currentData];
+     layer.step = layer.history.length - 1;
+     setHistoryStep(layer.step);
+
+     exportLayer(layer);
+     emitRegions();
   };
 
-  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    setIsDrawing(true);
-    draw(e);
+  // Draw every region except the active one on the layer below the main canvas
+  const renderOtherRegions = (exceptId: string) => {
+    const others = othersRef.current;
+    const ctx = others?.getContext('2d');
+    if (!others || !ctx) return;
+    ctx.clearRect(0, 0, others.width, others.height);
+
+    const scratch = document.createElement('canvas');
+    scratch.width = others.width;
+    scratch.height = others.height;
+    layersRef.current.forEach((layer, id) => {
+      if (id === exceptId) return;
+      scratch.getContext('2d')?.putImageData(layer.history[layer.step], 0, 0);
+      ctx.drawImage(scratch, 0, 0);
+    });
   };
 
-  const stopDrawing = () => {
-    if (isDrawing) {
-      setIsDrawing(false);
-      saveHistoryState();
+  const switchRegion = (id: string) => {
+    const layer = layersRef.current.get(id);
+    const ctx = canvasRef.current?.getContext('2d');
+    if (id === activeId || !layer || !ctx) return;
+    if (lassoActive) cancelLasso();
+
+    ctx.putImageData(layer.history[layer.step], 0, 0);
+    setActiveId(id);
+    setHistoryStep(layer.step);
+    renderOtherRegions(id);
+  };
+
+  const handleAddRegion = () => {
+    if (regions.length >= REGION_COLORS.length) return;
+    const region = createRegion(regions);
+    layersRef.current.set(region.id, createLayer());
+    setRegions([...regions, region]);
+    switchRegion(region.id);
+  };
+
+  const handleDeleteRegion = (id: string) => {
+    if (regions.length <= 1) return;
+    const remaining = regions.filter(r => r.id !== id);
+    layersRef.current.delete(id);
+    setRegions(remaining);
+    if (id === activeId) {
+      switchRegion(remaining[0].id);
+    } else {
+      renderOtherRegions(activeId);
     }
   };
 
-  const draw = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
+  const updateRegion = (id: string, changes: Partial<EditRegion>) => {
+    setRegions(regions.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  // Helper: Canvas pixels per screen pixel
+  const getScale = () => {
     const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
-
-    const rect = canvas.getBoundingClientRect();
-    
-    let clientX, clientY;
-    if ('touches' in e) {
-       clientX = e.touches[0].clientX;
-       clientY = e.touches[0].clientY;
-       e.preventDefault(); // Prevent scrolling on touch
+    if (!canvas) return 1;
+    return canvas.width / canvas.getBoundingClientRect().width;
+  };
+
+  // Map screen coordinates to canvas scale
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement> | React.MouseEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = getScale();
+    return {
+      x: (e.clientX - rect.left) * scale,
+      y: (e.clientY - rect.top) * scale
+    };
+  };
+
+  // Helper: Path of a rectangle or ellipse dragged from a to b
+  const traceShape = (ctx: CanvasRenderingContext2D, shape: MaskTool, a: Point, b: Point) => {
+    ctx.beginPath();
+    if (shape === 'ellipse') {
+      ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, Math.PI * 2);
     } else {
-       clientX = (e as React.MouseEvent).clientX;
-       clientY = (e as React.MouseEvent).clientY;
+      ctx.rect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
     }
+  };
 
-    // Map screen coordinates to canvas scale
-    const x = (clientX - rect.left) * (canvas.width / rect.width);
-    const y = (clientY - rect.top) * (canvas.height / rect.height);
+  const clearPreview = () => {
+    const preview = previewRef.current;
+    preview?.getContext('2d')?.clearRect(0, 0, preview.width, preview.height);
+  };
+
+  // Helper: Dashed outline style for the preview layer
+  const getPreviewContext = () => {
+    const ctx = previewRef.current?.getContext('2d');
+    if (!ctx || !previewRef.current) return null;
+    const scale = getScale();
+    ctx.clearRect(0, 0, previewRef.current.width, previewRef.current.height);
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 1.5 * scale;
+    ctx.setLineDash([6 * scale, 4 * scale]);
+    return ctx;
+  };
+
+  const paintStroke = (from: Point, to: Point) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
 
-    ctx.lineWidth = brushSize * (canvas.width / rect.width); 
+    ctx.save();
+    // The eraser removes selection instead of painting it
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.lineWidth = brushSize * getScale();
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
-    
-    // Draw with cyan for high visibility on dark theme
-    ctx.strokeStyle = 'rgba(6, 182, 212, 0.7)'; 
-    
-    ctx.lineTo(x, y);
+    ctx.strokeStyle = activeColor;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const fillShape = (a: Point, b: Point) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = activeColor;
+    traceShape(ctx, tool, a, b);
+    ctx.fill();
+  };
+
+  const drawLassoPreview = (cursor?: Point) => {
+    const points = lassoRef.current;
+    const ctx = getPreviewContext();
+    if (!ctx || points.length === 0) return;
+
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    if (cursor) ctx.lineTo(cursor.x, cursor.y);
     ctx.stroke();
-    
+
+    // Closing target on the first point
+    ctx.setLineDash([]);
     ctx.beginPath();
-    ctx.moveTo(x, y);
+    ctx.arc(points[0].x, points[0].y, LASSO_CLOSE_DISTANCE * getScale() / 2, 0, Math.PI * 2);
+    ctx.stroke();
+  };
+
+  const cancelLasso = () => {
+    lassoRef.current = [];
+    setLassoActive(false);
+    clearPreview();
   };
 
-  // Reset beginPath on start
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const closeLasso = () => {
+    const points = lassoRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && points.length >= 3) {
+      ctx.fillStyle = activeColor;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+      saveHistoryState();
+    }
+    cancelLasso();
+  };
+
+  const addLassoPoint = (point: Point) => {
+    const points = lassoRef.current;
+    const first = points[0];
+    const closeDistance = LASSO_CLOSE_DISTANCE * getScale();
+    if (first && points.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) <= closeDistance) {
+      closeLasso();
+      return;
+    }
+    lassoRef.current = [...points, point];
+    setLassoActive(true);
+    drawLassoPreview();
+  };
+
+  // Enter closes and Escape drops an open lasso
+  useEffect(() => {
+    if (!lassoActive) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') cancelLasso();
+      if (e.key === 'Enter') closeLasso();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const selectTool = (next: MaskTool) => {
+    if (lassoActive) cancelLasso();
+    setTool(next);
+  };
+
+  // Magic wand: select the similar-coloured area around the clicked pixel
+  const selectSimilar = (point: Point, mode: SelectionMode) => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
-    if(ctx) ctx.beginPath();
-    startDrawing(e);
+    const base = basePixelsRef.current;
+    if (!canvas || !ctx || !base) return;
+
+    const selection = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyRegion(selection, floodSelect(base, point.x, point.y, tolerance), mode, hexToRgb(activeColor));
+    ctx.putImageData(selection, 0, 0);
+    saveHistoryState();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    const point = getPoint(e);
+
+    if (tool === 'wand') {
+      selectSimilar(point, e.shiftKey ? 'add' : e.altKey ? 'subtract' : 'replace');
+      return;
+    }
+
+    if (tool === 'lasso') {
+      addLassoPoint(point);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = point;
+    lastPointRef.current = point;
+    setIsDrawing(true);
+    if (tool === 'brush' || tool === 'eraser') paintStroke(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getPoint(e);
+
+    if (tool === 'lasso') {
+      if (lassoRef.current.length > 0) drawLassoPreview(point);
+      return;
+    }
+    if (!isDrawing || !dragStartRef.current) return;
+
+    if (tool === 'brush' || tool === 'eraser') {
+      paintStroke(lastPointRef.current ?? point, point);
+      lastPointRef.current = point;
+    } else {
+      const ctx = getPreviewContext();
+      if (ctx) {
+        traceShape(ctx, tool, dragStartRef.current, point);
+        ctx.stroke();
+      }
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
+
+    if ((tool === 'rect' || tool === 'ellipse') && dragStartRef.current) {
+      fillShape(dragStartRef.current, getPoint(e));
+      clearPreview();
+    }
+    dragStartRef.current = null;
+    lastPointRef.current = null;
+    saveHistoryState();
   };
-  
-  const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
+
+  const handleInvert = () => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
-    if(ctx) ctx.beginPath();
-    startDrawing(e);
-  }
+    if (!canvas || !ctx || canvas.width === 0) return;
+
+    const selection = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    invertSelection(selection, hexToRgb(activeColor));
+    ctx.putImageData(selection, 0, 0);
+    saveHistoryState();
+  };
+
+  // Helper: Show a step of the active region's history
+  const restoreStep = (step: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const layer = layersRef.current.get(activeId);
+    if (!ctx || !layer) return;
+
+    layer.step = step;
+    ctx.putImageData(layer.history[step], 0, 0);
+    setHistoryStep(step);
+    exportLayer(layer);
+    emitRegions();
+  };
 
   const handleUndo = () => {
-     if (historyStep > 0) {
-         const newStep = historyStep - 1;
-         const canvas = canvasRef.current;
-         const ctx = canvas?.getContext('2d');
-         if (canvas && ctx) {
-             ctx.putImageData(historyRef.current[newStep], 0, 0);
-             setHistoryStep(newStep);
-             exportMask();
-         }
-     }
+     if (historyStep > 0) restoreStep(historyStep - 1);
   };
 
   const handleRedo = () => {
-     if (historyStep < historyRef.current.length - 1) {
-         const newStep = historyStep + 1;
-         const canvas = canvasRef.current;
-         const ctx = canvas?.getContext('2d');
-         if (canvas && ctx) {
-             ctx.putImageData(historyRef.current[newStep], 0, 0);
-             setHistoryStep(newStep);
-             exportMask();
-         }
-     }
+     if (activeLayer && historyStep < activeLayer.history.length - 1) restoreStep(historyStep + 1);
   };
 
   const clearCanvas = () => {
@@ -198,74 +472,197 @@ const InpaintingCanvas: React.FC<InpaintingCanvasProps> = ({ baseImage, onMaskRe
 
   return (
     <div className="flex flex-col gap-4">
-      <div 
-        ref={containerRef} 
+      <div
+        ref={containerRef}
         className="relative w-full rounded-xl overflow-hidden border border-white/10 bg-black shadow-inner"
         style={{ touchAction: 'none' }}
       >
         {/* Background Image */}
-        <img 
-          src={`data:image/png;base64,${baseImage}`} 
-          alt="Base" 
-          className="w-full h-auto block select-none pointer-events-none opacity-80" 
+        <img
+          src={`data:image/png;base64,${baseImage}`}
+          alt="Base"
+          className="w-full h-auto block select-none pointer-events-none opacity-80"
         />
-        
-        {/* Drawing Layer */}
+
+        {/* Other Regions */}
+        <canvas
+          ref={othersRef}
+          className="absolute top-0 left-0 w-full h-full pointer-events-none opacity-40"
+        />
+
+        {/* Drawing Layer - painted opaque, shown translucent */}
         <canvas
           ref={canvasRef}
-          className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none"
-          onMouseDown={handleMouseDown}
-          onMouseMove={draw}
-          onMouseUp={stopDrawing}
-          onMouseLeave={stopDrawing}
-          onTouchStart={handleTouchStart}
-          onTouchMove={draw}
-          onTouchEnd={stopDrawing}
+          className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none opacity-70"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={() => lassoActive && closeLasso()}
+        />
+
+        {/* Selection Outlines */}
+        <canvas
+          ref={previewRef}
+          className="absolute top-0 left-0 w-full h-full pointer-events-none"
         />
       </div>
 
-      {/* Controls */}
-      <div className="flex flex-wrap items-center justify-between gap-4 bg-zinc-900/80 p-3 rounded-xl border border-white/10">
-        <div className="flex items-center gap-4">
-           <div className="flex items-center gap-3">
-             <Paintbrush className="w-4 h-4 text-cyan-400" />
-             <span className="text-xs text-zinc-300 font-bold uppercase tracking-wider">{t.brushSize}</span>
-             <input 
-               type="range" 
-               min="5" 
-               max="100" 
-               value={brushSize} 
-               onChange={(e) => setBrushSize(parseInt(e.target.value))}
-               className="w-32 h-1.5 bg-zinc-700 rounded-full appearance-none cursor-pointer accent-cyan-500"
-             />
-           </div>
+      {/* Regions */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-zinc-400 font-bold uppercase tracking-wider">{t.maskRegions}</span>
+          <button
+            onClick={handleAddRegion}
+            disabled={regions.length >= REGION_COLORS.length}
+            className="flex items-center gap-2 px-3 py-1.5 text-xs text-zinc-300 hover:bg-white/10 rounded-lg transition-colors font-medium disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-3 h-3" />
+            {t.maskAddRegion}
+          </button>
         </div>
-        
-        <div className="flex items-center gap-2">
-            <button
-                onClick={handleUndo}
-                disabled={historyStep <= 0}
-                className="p-2 text-zinc-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
-                title={t.undo || "Undo"}
-            >
-                <Undo2 className="w-4 h-4" />
-            </button>
+        {regions.map((region) => (
+          <div
+            key={region.id}
+            onClick={() => switchRegion(region.id)}
+            className={`flex items-center gap-3 p-2 rounded-xl border cursor-pointer transition-colors ${
+              region.id === activeId ? 'border-cyan-500/50 bg-cyan-950/20' : 'border-white/5 bg-zinc-900/60 hover:border-white/20'
+            }`}
+          >
+            <span className="w-3 h-3 rounded-full flex-shrink-0 ml-1" style={{ backgroundColor: region.color }} />
+            <input
+              type="text"
+              value={region.name}
+              onChange={(e) => updateRegion(region.id, { name: e.target.value })}
+              className="w-28 bg-transparent text-xs font-bold text-zinc-200 uppercase tracking-wider outline-none border-b border-transparent focus:border-cyan-500"
+            />
+            <input
+              type="text"
+              value={region.prompt}
+              onChange={(e) => updateRegion(region.id, { prompt: e.target.value })}
+              placeholder={t.editPromptPlaceholder}
+              className="flex-1 min-w-0 bg-black border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 placeholder-zinc-700"
+            />
             <button
-                onClick={handleRedo}
-                disabled={historyStep >= historyRef.current.length - 1}
-                className="p-2 text-zinc-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
-                title={t.redo || "Redo"}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDeleteRegion(region.id);
+              }}
+              disabled={regions.length <= 1}
+              className="p-2 text-zinc-500 hover:text-rose-300 hover:bg-rose-950/50 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              title={t.maskDeleteRegion}
             >
-                <Redo2 className="w-4 h-4" />
+              <Trash2 className="w-4 h-4" />
             </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-col gap-3 bg-zinc-900/80 p-3 rounded-xl border border-white/10">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-1">
+            {tools.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => selectTool(item.id)}
+                title={item.label}
+                className={`p-2 rounded-lg border transition-colors ${
+                  tool === item.id
+                    ? 'bg-cyan-500/20 border-cyan-500 text-cyan-100'
+                    : 'border-transparent text-zinc-400 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                {item.icon}
+              </button>
+            ))}
             <div className="w-px h-6 bg-white/10 mx-2"></div>
-            <button 
-                onClick={clearCanvas}
-                className="flex items-center gap-2 px-3 py-1.5 text-xs text-rose-300 hover:bg-rose-950/50 rounded-lg transition-colors border border-transparent hover:border-rose-900 font-medium"
+            <button
+              onClick={handleInvert}
+              className="flex items-center gap-2 px-3 py-1.5 text-xs text-zinc-300 hover:bg-white/10 rounded-lg transition-colors font-medium"
             >
-                <RotateCcw className="w-3 h-3" />
-                {t.clearMask}
+              <Contrast className="w-3 h-3" />
+              {t.maskInvert}
             </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+              <button
+                  onClick={handleUndo}
+                  disabled={historyStep <= 0}
+                  className="p-2 text-zinc-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title={t.undo || "Undo"}
+              >
+                  <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                  onClick={handleRedo}
+                  disabled={!activeLayer || historyStep >= activeLayer.history.length - 1}
+                  className="p-2 text-zinc-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title={t.redo || "Redo"}
+              >
+                  <Redo2 className="w-4 h-4" />
+              </button>
+              <div className="w-px h-6 bg-white/10 mx-2"></div>
+              <button
+                  onClick={clearCanvas}
+                  className="flex items-center gap-2 px-3 py-1.5 text-xs text-rose-300 hover:bg-rose-950/50 rounded-lg transition-colors border border-transparent hover:border-rose-900 font-medium"
+              >
+                  <RotateCcw className="w-3 h-3" />
+                  {t.clearMask}
+              </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6">
+           {(tool === 'brush' || tool === 'eraser') && (
+             <div className="flex items-center gap-3">
+               <Paintbrush className="w-4 h-4 text-cyan-400" />
+               <span className="text-xs text-zinc-300 font-bold uppercase tracking-wider">{t.brushSize}</span>
+               <input
+                 type="range"
+                 min="5"
+                 max="100"
+                 value={brushSize}
+                 onChange={(e) => setBrushSize(parseInt(e.target.value))}
+                 className="w-32 h-1.5 bg-zinc-700 rounded-full appearance-none cursor-pointer accent-cyan-500"
+               />
+             </div>
+           )}
+           <div className="flex items-center gap-3">
+             <Feather className="w-4 h-4 text-cyan-400" />
+             <span className="text-xs text-zinc-300 font-bold uppercase tracking-wider">{t.maskFeather}</span>
+             <input
+               type="range"
+               min="0"
+               max="40"
+               value={feather}
+               onChange={(e) => setFeather(parseInt(e.target.value))}
+               className="w-32 h-1.5 bg-zinc-700 rounded-full appearance-none cursor-pointer accent-cyan-500"
+             />
+             <span className="text-[10px] text-zinc-500 font-mono w-10">{feather}px</span>
+           </div>
+           {tool === 'wand' && (
+             <div className="flex items-center gap-3">
+               <Wand className="w-4 h-4 text-cyan-400" />
+               <span className="text-xs text-zinc-300 font-bold uppercase tracking-wider">{t.maskTolerance}</span>
+               <input
+                 type="range"
+                 min="0"
+                 max="128"
+                 value={tolerance}
+                 onChange={(e) => setTolerance(parseInt(e.target.value))}
+                 className="w-32 h-1.5 bg-zinc-700 rounded-full appearance-none cursor-pointer accent-cyan-500"
+               />
+               <span className="text-[10px] text-zinc-500 font-mono w-10">{tolerance}</span>
+             </div>
+           )}
+           {tool === 'lasso' && (
+             <p className="text-[10px] text-zinc-500">{t.maskLassoHint}</p>
+           )}
+           {tool === 'wand' && (
+             <p className="text-[10px] text-zinc-500">{t.maskWandHint}</p>
+           )}
         </div>
       </div>
     </div>
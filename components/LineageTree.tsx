@@ -0,0 +1,139 @@
+import React from 'react';
+import { GitBranch, Maximize2, Wand2, Camera, Brush, Expand } from 'lucide-react';
+import { PromptResult, ResultOperation, MasterStyle, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { LineageNode } from '../services/lineage';
+
+interface LineageTreeProps {
+  roots: LineageNode[];
+  currentIds: string[]; // Results shown in the result cards
+  pathIds: string[]; // Ancestors of the main result, highlighted
+  styles: MasterStyle[]; // To show style labels instead of raw prompts
+  isDisabled: boolean;
+  onOpen: (result: PromptResult) => void;
+  onBranch: (result: PromptResult) => void;
+  language: Language;
+}
+
+const LineageTree: React.FC<LineageTreeProps> = ({
+  roots,
+  currentIds,
+  pathIds,
+  styles,
+  isDisabled,
+  onOpen,
+  onBranch,
+  language
+}) => {
+  const t = TRANSLATIONS[language];
+
+  const operationLabels: Record<ResultOperation, string> = {
+    [ResultOperation.Generate]: t.opGenerate,
+    [ResultOperation.MasterStyle]: t.opMasterStyle,
+    [ResultOperation.InpaintEdit]: t.opInpaintEdit,
+    [ResultOperation.Upscale]: t.opUpscale,
+  };
+
+  const describeInputs = (result: PromptResult) => {
+    const inputs = result.operationInputs;
+    if (!inputs) return '';
+    if (result.operation === ResultOperation.InpaintEdit) return inputs.editPrompt || '';
+    if (result.operation === ResultOperation.Upscale) return inputs.upscaleFactor ? `×${inputs.upscaleFactor}` : '';
+    if (inputs.masterStyle) {
+      return styles.find(style => style.prompt === inputs.masterStyle)?.label || inputs.masterStyle;
+    }
+    return '';
+  };
+
+  const renderNode = (node: LineageNode, depth: number): React.ReactNode => {
+    const { result } = node;
+    const isCurrent = currentIds.includes(result.id);
+    const isOnPath = pathIds.includes(result.id);
+    const operation = result.operation ?? ResultOperation.Generate;
+    const OperationIcon = operation === ResultOperation.InpaintEdit ? Brush
+      : operation === ResultOperation.MasterStyle ? Camera
+      : operation === ResultOperation.Upscale ? Expand
+      : Wand2;
+
+    return (
+      <div key={result.id}>
+        <div
+          className={`flex items-center gap-3 rounded-xl px-3 py-2 border transition-colors ${
+            isCurrent ? 'border-cyan-500/60 bg-cyan-950/30' : isOnPath ? 'border-cyan-500/20 bg-white/[0.03]' : 'border-white/5 bg-zinc-900/40'
+          }`}
+          style={{ marginLeft: depth * 24 }}
+        >
+          <div className="w-16 h-10 flex-shrink-0 rounded-md overflow-hidden bg-zinc-900 border border-white/10 relative">
+            {result.imageData && (
+              <img src={`data:image/png;base64,${result.imageData}`} alt="" className="w-full h-full object-cover" />
+            )}
+            {/* Edited area on top of the thumbnail */}
+            {result.operationInputs?.editMask && (
+              <img
+                src={`data:image/png;base64,${result.operationInputs.editMask}`}
+                alt=""
+                className="absolute inset-0 w-full h-full object-cover mix-blend-screen opacity-50"
+              />
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <p className="flex items-center gap-1.5 text-xs font-bold text-zinc-200 uppercase tracking-wider">
+              <OperationIcon className="w-3.5 h-3.5 text-cyan-400" />
+              {operationLabels[operation]}
+              {isCurrent && (
+                <span className="text-[9px] px-1.5 py-0.5 rounded-full border bg-cyan-950/50 text-cyan-300 border-cyan-500/20">
+                  {t.lineageCurrent}
+                </span>
+              )}
+            </p>
+            <p className="text-[10px] text-zinc-500 truncate">
+              {new Date(result.timestamp).toLocaleTimeString()}
+              {describeInputs(result) && ` · ${describeInputs(result)}`}
+            </p>
+          </div>
+
+          <button
+            onClick={() => onOpen(result)}
+            disabled={!result.imageData}
+            className="p-1.5 rounded-md text-zinc-500 hover:text-zinc-200 hover:bg-white/5 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onBranch(result)}
+            disabled={isDisabled || !result.imageData || isCurrent}
+            title={t.lineageBranch}
+            className="flex items-center gap-1.5 px-2 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider text-zinc-400 hover:text-cyan-300 hover:bg-white/5 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <GitBranch className="w-4 h-4" />
+            <span className="hidden sm:inline">{t.lineageBranch}</span>
+          </button>
+        </div>
+
+        {node.children.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-3xl overflow-hidden shadow-2xl animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/5 px-6 py-4 border-b border-white/5">
+        <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400">
+          <GitBranch className="w-5 h-5" />
+          {t.lineageLabel}
+        </h3>
+        <p className="text-xs text-zinc-500 mt-1">{t.lineageHint}</p>
+      </div>
+      <div className="p-4 space-y-2">
+        {roots.map(root => renderNode(root, 0))}
+      </div>
+    </div>
+  );
+};
+
+export default LineageTree;
@@ -1,8 +1,11 @@
 
 import React from 'react';
-import { GenerationParams, LightingTime, SunDirection, WeatherCondition } from '../types';
-import { Sun, CloudRain, Compass } from 'lucide-react';
+import { GenerationParams, LightingTime, SunDirection, WeatherCondition, RenderQuality } from '../types';
+import { Sun, CloudRain, Compass, Gauge } from 'lucide-react';
 import { TRANSLATIONS } from '../constants';
+import { UPLOAD_QUALITY } from '../services/imageUtils';
+import SiteSunControls from './SiteSunControls';
+import CameraControls from './CameraControls';
 
 interface ParameterControlsProps {
   params: GenerationParams;
@@ -16,6 +19,12 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ params, onChange
     onChange({ ...params, [key]: value });
   };
 
+  const qualityLabels: Record<RenderQuality, string> = {
+    [RenderQuality.Draft]: t.qualityDraft,
+    [RenderQuality.Standard]: t.qualityStandard,
+    [RenderQuality.High]: t.qualityHigh,
+  };
+
   return (
     <div className="space-y-6 bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10">
       <h3 className="text-sm font-bold text-zinc-400 mb-4 flex items-center gap-2 uppercase tracking-wider">
@@ -23,43 +32,53 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ params, onChange
         {t.sceneParams}
       </h3>
       
-      {/* Lighting Time */}
-      <div className="space-y-3">
-        <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
-          <Sun className="w-4 h-4 text-amber-400" /> {t.lighting}
-        </label>
-        <div className="grid grid-cols-3 gap-2">
-          {Object.values(LightingTime).map((time) => (
-            <button
-              key={time}
-              onClick={() => updateParam('lighting', time)}
-              className={`
-                px-3 py-3 text-sm rounded-lg border transition-all font-medium
-                ${params.lighting === time 
-                  ? 'bg-zinc-100 border-white text-zinc-900 shadow-[0_0_15px_-3px_rgba(255,255,255,0.3)]' 
-                  : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
-              `}
-            >
-              {(t as any)[time]}
-            </button>
-          ))}
+      {/* Site Sun */}
+      <SiteSunControls
+        site={params.siteSun}
+        onChange={(siteSun) => updateParam('siteSun', siteSun)}
+        language={params.language}
+      />
+
+      {/* Lighting Time and Sun Direction give way to the site sun */}
+      <div className={`space-y-6 transition-opacity ${params.siteSun.enabled ? 'opacity-40 pointer-events-none' : ''}`}>
+        {/* Lighting Time */}
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
+            <Sun className="w-4 h-4 text-amber-400" /> {t.lighting}
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {Object.values(LightingTime).map((time) => (
+              <button
+                key={time}
+                onClick={() => updateParam('lighting', time)}
+                className={`
+                  px-3 py-3 text-sm rounded-lg border transition-all font-medium
+                  ${params.lighting === time 
+                    ? 'bg-zinc-100 border-white text-zinc-900 shadow-[0_0_15px_-3px_rgba(255,255,255,0.3)]' 
+                    : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
+                `}
+              >
+                {(t as any)[time]}
+              </button>
+            ))}
+          </div>
         </div>
-      </div>
 
-      {/* Sun Direction */}
-      <div className="space-y-3">
-        <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
-          <Compass className="w-4 h-4 text-cyan-400" /> {t.sunDirection}
-        </label>
-        <select
-          value={params.sunDirection}
-          onChange={(e) => updateParam('sunDirection', e.target.value)}
-          className="w-full bg-black/40 border border-white/10 text-zinc-300 text-sm rounded-lg focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 block p-3 outline-none"
-        >
-          {Object.values(SunDirection).map((dir) => (
-            <option key={dir} value={dir}>{(t as any)[dir]}</option>
-          ))}
-        </select>
+        {/* Sun Direction */}
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
+            <Compass className="w-4 h-4 text-cyan-400" /> {t.sunDirection}
+          </label>
+          <select
+            value={params.sunDirection}
+            onChange={(e) => updateParam('sunDirection', e.target.value)}
+            className="w-full bg-black/40 border border-white/10 text-zinc-300 text-sm rounded-lg focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 block p-3 outline-none"
+          >
+            {Object.values(SunDirection).map((dir) => (
+              <option key={dir} value={dir}>{(t as any)[dir]}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Weather */}
@@ -84,6 +103,39 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ params, onChange
             ))}
         </div>
       </div>
+
+      {/* Camera */}
+      <CameraControls
+        camera={params.camera}
+        onChange={(camera) => updateParam('camera', camera)}
+        language={params.language}
+      />
+
+      {/* Render Quality */}
+      <div className="space-y-3">
+        <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-emerald-400" /> {t.quality}
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {Object.values(RenderQuality).map((quality) => (
+            <button
+              key={quality}
+              onClick={() => updateParam('quality', quality)}
+              className={`
+                px-3 py-3 text-sm rounded-lg border transition-all font-medium
+                ${params.quality === quality
+                  ? 'bg-zinc-100 border-white text-zinc-900 shadow-[0_0_15px_-3px_rgba(255,255,255,0.3)]'
+                  : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
+              `}
+            >
+              {qualityLabels[quality]}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-zinc-500">
+          {t.qualityHint.replace('{size}', String(UPLOAD_QUALITY[params.quality].maxSize))}
+        </p>
+      </div>
     </div>
   );
 };
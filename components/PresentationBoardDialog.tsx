@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { X, Presentation, Download } from 'lucide-react';
+import {
+  Language,
+  PromptResult,
+  ResultOperation,
+  MasterStyle,
+  UploadedImage,
+  GenerationParams,
+  ProjectInfo,
+  BoardTemplateId,
+  BoardFormat,
+  BoardTitleBlock,
+  CameraView,
+  DepthOfField
+} from '../types';
+import { TRANSLATIONS } from '../constants';
+import { BOARD_TEMPLATES, BoardContent, exportBoard, getBoardPageCount } from '../services/presentationBoard';
+import { getSiteSunPosition } from '../services/solarPosition';
+import { canCorrectVerticals } from '../services/camera';
+
+interface PresentationBoardDialogProps {
+  isOpen: boolean;
+  results: PromptResult[]; // Candidates, oldest first
+  initialIds: string[]; // Preselected, usually the results on screen
+  sketch: UploadedImage | null;
+  params: GenerationParams;
+  userPrompt: string;
+  projectInfo: ProjectInfo;
+  styles: MasterStyle[]; // To show style labels instead of raw prompts
+  onClose: () => void;
+  language: Language;
+}
+
+const AUTHOR_KEY = 'eden-board-author';
+
+const PresentationBoardDialog: React.FC<PresentationBoardDialogProps> = ({
+  isOpen,
+  results,
+  initialIds,
+  sketch,
+  params,
+  userPrompt,
+  projectInfo,
+  styles,
+  onClose,
+  language
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]); // In board order
+  const [templateId, setTemplateId] = useState<BoardTemplateId>('a3-landscape');
+  const [format, setFormat] = useState<BoardFormat>('pdf');
+  const [titleBlock, setTitleBlock] = useState<BoardTitleBlock>({ project: '', jobNumber: '', author: '', date: '' });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = TRANSLATIONS[language];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedIds(initialIds.filter(id => results.some(r => r.id === id && r.imageData)));
+    setTitleBlock({
+      project: projectInfo.name,
+      jobNumber: projectInfo.jobNumber,
+      author: localStorage.getItem(AUTHOR_KEY) || '',
+      date: new Date().toLocaleDateString(),
+    });
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const candidates = results.filter(r => r.imageData);
+  const selected = selectedIds.map(id => candidates.find(r => r.id === id)).filter((r): r is PromptResult => !!r);
+
+  const operationLabels: Record<ResultOperation, string> = {
+    [ResultOperation.Generate]: t.opGenerate,
+    [ResultOperation.MasterStyle]: t.opMasterStyle,
+    [ResultOperation.InpaintEdit]: t.opInpaintEdit,
+    [ResultOperation.Upscale]: t.opUpscale,
+  };
+  const styleLabel = (prompt: string) => styles.find(style => style.prompt === prompt)?.label || prompt;
+
+  // Operation, then what sets this render apart from its neighbours on the board
+  const getCaption = (result: PromptResult) => [
+    operationLabels[result.operation ?? ResultOperation.Generate],
+    result.variationIndex !== undefined ? `V${result.variationIndex + 1}` : '',
+    result.operationInputs?.masterStyle ? styleLabel(result.operationInputs.masterStyle) : '',
+    result.operation === ResultOperation.InpaintEdit ? result.operationInputs?.editPrompt || '' : '',
+    result.aspectRatio || '',
+  ].filter(Boolean).join(' · ');
+
+  // Planning boards state the exact moment the sun was computed for
+  const describeSiteSunDetail = () => {
+    const { azimuth, altitude } = getSiteSunPosition(params.siteSun);
+    return `${params.siteSun.date} ${params.siteSun.time} · ${t.siteAzimuth} ${Math.round(azimuth)}° · ${t.siteAltitude} ${Math.round(altitude)}°`;
+  };
+
+  const describeCameraDetail = () => {
+    const { view, focalLength, verticalCorrection, depthOfField } = params.camera;
+    const viewLabels: Record<CameraView | 'auto', string> = {
+      auto: t.cameraAuto,
+      'eye-level': t.cameraEyeLevel,
+      aerial: t.cameraAerial,
+      'worms-eye': t.cameraWormsEye,
+      drone: t.cameraDrone,
+    };
+    const depthLabels: Record<DepthOfField, string> = { deep: t.dofDeep, natural: t.dofNatural, shallow: t.dofShallow };
+    return [
+      viewLabels[view],
+      focalLength === 'auto' ? '' : `${focalLength}mm`,
+      verticalCorrection && canCorrectVerticals(params.camera) ? t.verticalCorrection : '',
+      `${t.depthOfField}: ${depthLabels[depthOfField]}`,
+    ].filter(Boolean).join(' · ');
+  };
+
+  const toggle = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    localStorage.setItem(AUTHOR_KEY, titleBlock.author);
+
+    const masterStylesUsed = [...new Set(selected.map(r => r.operationInputs?.masterStyle).filter((s): s is string => !!s))];
+    const content: BoardContent = {
+      titleBlock,
+      sketch: sketch?.previewUrl,
+      details: [
+        ...(params.siteSun.enabled ? [{ label: t.siteSun, value: describeSiteSunDetail() }] : [
+          { label: t.lighting, value: (t as any)[params.lighting] },
+          { label: t.sunDirection, value: (t as any)[params.sunDirection] },
+        ]),
+        { label: t.weather, value: (t as any)[params.weather] },
+        { label: t.camera, value: describeCameraDetail() },
+        { label: t.aspectRatio, value: params.aspectRatio === 'auto' ? t.aspectAuto : params.aspectRatio },
+        ...(masterStylesUsed.length > 0 ? [{ label: t.opMasterStyle, value: masterStylesUsed.map(styleLabel).join(', ') }] : []),
+        ...(userPrompt.trim() ? [{ label: t.boardVision, value: userPrompt.trim() }] : []),
+      ],
+      prompt: selected[0]?.prompt ?? '',
+      renders: selected.map(r => ({ imageData: r.imageData!, caption: getCaption(r) })),
+      labels: {
+        sketch: t.boardSketch,
+        prompt: t.boardPrompt,
+        project: t.projectName,
+        jobNumber: t.projectJobNumber,
+        author: t.boardAuthor,
+        date: t.boardDate,
+        sheet: t.boardSheet,
+      },
+    };
+
+    try {
+      const blobs = await exportBoard(content, templateId, format);
+      const base = [titleBlock.jobNumber, titleBlock.project].map(s => s.trim()).filter(Boolean).join('_').replace(/[\\/:*?"<>|\s]+/g, '-') || 'eden-board';
+      blobs.forEach((blob, i) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = format === 'pdf' ? `${base}.pdf` : blobs.length > 1 ? `${base}-${i + 1}.png` : `${base}.png`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      });
+    } catch (err: any) {
+      console.error("Board export failed", err);
+      setError(`${t.boardExportFailed} (${err.message})`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const templateLabels: Record<BoardTemplateId, string> = {
+    'a3-landscape': t.boardA3,
+    'a1-poster': t.boardA1,
+  };
+  const optionClass = (active: boolean) => `flex-1 px-3 py-2 text-xs rounded-lg border transition-all font-bold uppercase tracking-wider ${
+    active ? 'bg-cyan-500/20 border-cyan-500 text-cyan-100' : 'bg-zinc-900 border-white/5 text-zinc-500 hover:text-zinc-300 hover:border-white/20'
+  }`;
+  const inputClass = "w-full bg-black/40 border border-white/10 text-zinc-200 text-sm rounded-lg focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 p-2.5 outline-none";
+  const titleFields: { key: keyof BoardTitleBlock; label: string }[] = [
+    { key: 'project', label: t.projectName },
+    { key: 'jobNumber', label: t.projectJobNumber },
+    { key: 'author', label: t.boardAuthor },
+    { key: 'date', label: t.boardDate },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 sm:p-8 animate-in fade-in duration-300">
+      <div className="flex flex-col w-full max-w-5xl max-h-full bg-zinc-950 rounded-3xl overflow-hidden shadow-2xl border border-white/10">
+
+        {/* Header */}
+        <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex justify-between items-center">
+          <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400">
+            <Presentation className="w-5 h-5" />
+            {t.boardTitle}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-white transition-colors border border-white/5"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto grid grid-cols-1 md:grid-cols-3 gap-6 p-6">
+
+          {/* Render Picker */}
+          <div className="md:col-span-2 space-y-3">
+            <p className="text-xs text-zinc-500">{t.boardSelectHint}</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {candidates.map(candidate => {
+                const order = selectedIds.indexOf(candidate.id);
+                return (
+                  <button
+                    key={candidate.id}
+                    onClick={() => toggle(candidate.id)}
+                    className={`relative rounded-xl overflow-hidden border text-left transition-all ${
+                      order >= 0 ? 'border-cyan-500 ring-1 ring-cyan-500/50' : 'border-white/10 hover:border-white/30'
+                    }`}
+                  >
+                    <img src={`data:image/png;base64,${candidate.imageData}`} alt="" className="w-full aspect-video object-cover bg-zinc-900" />
+                    {order >= 0 && (
+                      <span className="absolute top-2 left-2 w-6 h-6 rounded-full bg-cyan-500 text-black text-xs font-bold font-mono flex items-center justify-center">
+                        {order + 1}
+                      </span>
+                    )}
+                    <p className="px-2 py-1.5 text-[10px] text-zinc-400 truncate bg-zinc-900/80">{getCaption(candidate)}</p>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Layout and Title Block */}
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">{t.boardTemplate}</span>
+              <div className="flex gap-2">
+                {(Object.keys(BOARD_TEMPLATES) as BoardTemplateId[]).map(id => (
+                  <button key={id} onClick={() => setTemplateId(id)} className={optionClass(templateId === id)}>
+                    {templateLabels[id]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">{t.boardFormat}</span>
+              <div className="flex gap-2">
+                {(['pdf', 'png'] as BoardFormat[]).map(value => (
+                  <button key={value} onClick={() => setFormat(value)} className={optionClass(format === value)}>
+                    {value.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {titleFields.map(field => (
+              <label key={field.key} className="block space-y-1.5">
+                <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">{field.label}</span>
+                <input
+                  value={titleBlock[field.key]}
+                  onChange={(e) => setTitleBlock({ ...titleBlock, [field.key]: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+
+            {error && <p className="text-xs text-rose-400">{error}</p>}
+
+            <div className="flex items-center justify-between gap-3 pt-2">
+              <span className="text-[10px] text-zinc-500 font-mono uppercase tracking-wider">
+                {t.boardPages.replace('{count}', String(getBoardPageCount(templateId, selected.length)))}
+              </span>
+              <button
+                onClick={handleExport}
+                disabled={selected.length === 0 || isExporting}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider bg-zinc-100 hover:bg-white text-black rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isExporting
+                  ? <div className="w-4 h-4 border-2 border-black/10 border-t-black rounded-full animate-spin" />
+                  : <Download className="w-4 h-4" />}
+                {t.boardExport}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresentationBoardDialog;
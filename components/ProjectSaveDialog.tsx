@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { X, Archive, Save } from 'lucide-react';
+import { Language, ProjectInfo } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { getProjectFileName } from '../services/projectArchive';
+
+interface ProjectSaveDialogProps {
+  isOpen: boolean;
+  info: ProjectInfo; // Last saved or opened project, prefilled
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (info: ProjectInfo) => void;
+  language: Language;
+}
+
+const ProjectSaveDialog: React.FC<ProjectSaveDialogProps> = ({ isOpen, info, isSaving, onClose, onSave, language }) => {
+  const [draft, setDraft] = useState<ProjectInfo>(info);
+  const t = TRANSLATIONS[language];
+
+  useEffect(() => {
+    if (isOpen) setDraft(info);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const inputClass = "w-full bg-black/40 border border-white/10 text-zinc-200 text-sm rounded-lg focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 p-3 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 sm:p-8 animate-in fade-in duration-300">
+      <div className="flex flex-col w-full max-w-lg max-h-full bg-zinc-950 rounded-3xl overflow-hidden shadow-2xl border border-white/10">
+
+        {/* Header */}
+        <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex justify-between items-center">
+          <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400">
+            <Archive className="w-5 h-5" />
+            {t.projectSave}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-white transition-colors border border-white/5"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form
+          className="p-6 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSave({ jobNumber: draft.jobNumber.trim(), name: draft.name.trim() });
+          }}
+        >
+          <p className="text-xs text-zinc-500">{t.projectSaveHint}</p>
+
+          <label className="block space-y-2">
+            <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">{t.projectJobNumber}</span>
+            <input
+              value={draft.jobNumber}
+              onChange={(e) => setDraft({ ...draft, jobNumber: e.target.value })}
+              placeholder="2024-017"
+              className={`${inputClass} font-mono`}
+              autoFocus
+            />
+          </label>
+
+          <label className="block space-y-2">
+            <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">{t.projectName}</span>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+
+          <p className="text-[10px] text-zinc-600 font-mono truncate">{getProjectFileName(draft)}</p>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-xs font-bold uppercase tracking-wider bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5"
+            >
+              {t.cancelEdit}
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider bg-zinc-100 hover:bg-white text-black rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving
+                ? <div className="w-4 h-4 border-2 border-black/10 border-t-black rounded-full animate-spin" />
+                : <Save className="w-4 h-4" />}
+              {t.projectSaveBtn}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectSaveDialog;
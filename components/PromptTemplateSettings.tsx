@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FileText, Copy, Trash2, Save, Check, History } from 'lucide-react';
+import { PromptTemplate, PromptTemplateLibrary, PromptTemplateSlot, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import {
+  PROMPT_TEMPLATE_SLOTS,
+  TEMPLATE_VARIABLES,
+  getTemplateLibrary,
+  getCurrentBody,
+  setActiveTemplate,
+  createTemplate,
+  saveTemplateVersion,
+  renameTemplate,
+  deleteTemplate
+} from '../services/promptTemplates';
+
+interface PromptTemplateSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: Language;
+}
+
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({ isOpen, onClose, language }) => {
+  const [library, setLibrary] = useState<PromptTemplateLibrary>(getTemplateLibrary());
+  const [slot, setSlot] = useState<PromptTemplateSlot>('analyze');
+  const [selectedId, setSelectedId] = useState<string>(library.active.analyze);
+  const [draftBody, setDraftBody] = useState('');
+  const [draftName, setDraftName] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const t = TRANSLATIONS[language];
+
+  const slotLabels: Record<PromptTemplateSlot, string> = {
+    analyze: t.templateSlotAnalyze,
+    render: t.templateSlotRender,
+    style: t.templateSlotStyle,
+    edit: t.templateSlotEdit,
+    enhance: t.templateSlotEnhance,
+    refine: t.templateSlotRefine,
+  };
+
+  const slotTemplates = library.templates.filter(template => template.slot === slot);
+  const selected = library.templates.find(template => template.id === selectedId) ?? slotTemplates[0];
+
+  // Load the selected template into the editor
+  useEffect(() => {
+    if (selected) {
+      setDraftBody(getCurrentBody(selected));
+      setDraftName(selected.name);
+    }
+  }, [selected?.id, selected?.versions.length]);
+
+  if (!isOpen || !selected) return null;
+
+  const isDirty = !selected.builtIn && (draftBody !== getCurrentBody(selected) || draftName !== selected.name);
+
+  const refresh = () => setLibrary(getTemplateLibrary());
+
+  const handleSlotChange = (nextSlot: PromptTemplateSlot) => {
+    setSlot(nextSlot);
+    setSelectedId(library.active[nextSlot]);
+  };
+
+  const handleSave = () => {
+    if (draftName.trim() && draftName !== selected.name) renameTemplate(selected.id, draftName.trim());
+    saveTemplateVersion(selected.id, draftBody);
+    refresh();
+  };
+
+  const handleDuplicate = () => {
+    const copy = createTemplate(slot, `${selected.name} ${t.templateCopySuffix}`, draftBody);
+    refresh();
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(t.templateDeleteConfirm)) return;
+    deleteTemplate(selected.id);
+    const next = getTemplateLibrary();
+    setLibrary(next);
+    setSelectedId(next.active[slot]);
+  };
+
+  const handleUse = (template: PromptTemplate) => {
+    setActiveTemplate(slot, template.id);
+    refresh();
+  };
+
+  // Insert at the cursor so variables can go anywhere in the text
+  const insertVariable = (name: string) => {
+    const token = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) return;
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    setDraftBody(draftBody.slice(0, start) + token + draftBody.slice(end));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 sm:p-8 animate-in fade-in duration-300">
+      <div className="flex flex-col w-full max-w-5xl max-h-full bg-zinc-950 rounded-3xl overflow-hidden shadow-2xl border border-white/10">
+
+        {/* Header */}
+        <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex justify-between items-center">
+          <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400">
+            <FileText className="w-5 h-5" />
+            {t.templatesTitle}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-white transition-colors border border-white/5"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Slot Tabs */}
+        <div className="flex flex-wrap gap-2 px-6 pt-4">
+          {PROMPT_TEMPLATE_SLOTS.map((value) => (
+            <button
+              key={value}
+              onClick={() => handleSlotChange(value)}
+              className={`px-3 py-1.5 text-xs rounded-lg border transition-all font-bold uppercase tracking-wider ${
+                slot === value
+                  ? 'bg-cyan-500/20 border-cyan-500 text-cyan-100'
+                  : 'bg-zinc-900 border-white/5 text-zinc-500 hover:text-zinc-300 hover:border-white/20'
+              }`}
+            >
+              {slotLabels[value]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-auto grid grid-cols-1 md:grid-cols-3 gap-6 p-6">
+
+          {/* Template List */}
+          <div className="space-y-2">
+            {slotTemplates.map((template) => {
+              const isActive = library.active[slot] === template.id;
+              return (
+                <button
+                  key={template.id}
+                  onClick={() => setSelectedId(template.id)}
+                  className={`w-full text-left px-4 py-3 rounded-xl border transition-all ${
+                    template.id === selected.id ? 'border-cyan-500/60 bg-cyan-950/30' : 'border-white/5 bg-zinc-900/60 hover:border-white/20'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-zinc-200 font-medium truncate">{template.name}</span>
+                    {isActive && (
+                      <span className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full border bg-cyan-950/50 text-cyan-300 border-cyan-500/20 uppercase font-bold">
+                        <Check className="w-3 h-3" />
+                        {t.templateInUse}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-zinc-600 font-mono mt-1">
+                    v{template.versions[template.versions.length - 1].version}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Editor */}
+          <div className="md:col-span-2 space-y-4">
+            {selected.builtIn ? (
+              <p className="text-xs text-zinc-500">{t.templateBuiltIn}</p>
+            ) : (
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{t.templateName}</label>
+                <input
+                  type="text"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  className="w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500"
+                />
+              </div>
+            )}
+
+            <textarea
+              ref={bodyRef}
+              value={draftBody}
+              onChange={(e) => setDraftBody(e.target.value)}
+              readOnly={selected.builtIn}
+              rows={10}
+              className="w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-zinc-200 focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 resize-y read-only:opacity-70"
+            />
+
+            {/* Variables */}
+            <div className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{t.templateVariables}</span>
+                <span className="text-[10px] text-zinc-600">{t.templateVariablesHint}</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {TEMPLATE_VARIABLES[slot].map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => insertVariable(name)}
+                    disabled={selected.builtIn}
+                    className="px-2 py-1 text-[11px] font-mono rounded-md border border-white/10 bg-zinc-900 text-cyan-300 hover:border-cyan-500/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {`{{${name}}}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="flex flex-wrap justify-end gap-2">
+              {isDirty && <span className="self-center mr-auto text-[10px] text-amber-400 uppercase font-bold tracking-wider">{t.templateUnsaved}</span>}
+              {!selected.builtIn && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-2 bg-zinc-800 hover:bg-rose-900/50 text-zinc-300 hover:text-rose-200 px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  {t.templateDelete}
+                </button>
+              )}
+              <button
+                onClick={handleDuplicate}
+                className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors"
+              >
+                <Copy className="w-4 h-4" />
+                {t.templateDuplicate}
+              </button>
+              {!selected.builtIn && (
+                <button
+                  onClick={handleSave}
+                  disabled={!isDirty || !draftBody.trim()}
+                  className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save className="w-4 h-4" />
+                  {t.templateSave}
+                </button>
+              )}
+              <button
+                onClick={() => handleUse(selected)}
+                disabled={library.active[slot] === selected.id || isDirty}
+                className="flex items-center gap-2 bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-4 h-4" />
+                {t.templateUse}
+              </button>
+            </div>
+
+            {/* Version History */}
+            {!selected.builtIn && selected.versions.length > 1 && (
+              <div className="space-y-2 pt-2 border-t border-white/5">
+                <h4 className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+                  <History className="w-3 h-3" />
+                  {t.templateVersions}
+                </h4>
+                {[...selected.versions].reverse().map((version) => (
+                  <div key={version.version} className="flex items-center justify-between gap-4 text-xs bg-zinc-900/60 border border-white/5 rounded-lg px-3 py-2">
+                    <span className="font-mono text-zinc-300">v{version.version}</span>
+                    <span className="flex-1 text-zinc-500 truncate">{new Date(version.savedAt).toLocaleString()}</span>
+                    <button
+                      onClick={() => setDraftBody(version.body)}
+                      className="text-cyan-400 hover:text-cyan-300 font-bold uppercase tracking-wider text-[10px]"
+                    >
+                      {t.templateRestore}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateSettings;
@@ -1,9 +1,13 @@
 
-import React, { useState } from 'react';
-import { PromptResult, Language, MasterStyle } from '../types';
+import React, { useEffect, useState } from 'react';
+import { PromptResult, Language, MasterStyle, SceneAnalysis, EditRegion, EditStrategy } from '../types';
 import { TRANSLATIONS } from '../constants';
-import { ImageIcon, Maximize2, Pencil, Download, Check, Copy, Camera, Zap, AlertTriangle } from 'lucide-react';
+import { ImageIcon, Maximize2, Pencil, Download, Check, Copy, Camera, AlertTriangle, SplitSquareHorizontal, Expand } from 'lucide-react';
 import InpaintingCanvas from './InpaintingCanvas';
+import SceneAnalysisEditor from './SceneAnalysisEditor';
+import StyleIcon from './StyleIcon';
+import { getErrorText } from '../services/errors';
+import { UPSCALE_FACTORS } from '../services/upscale';
 
 interface ResultCardProps {
   result: PromptResult;
@@ -12,15 +16,24 @@ interface ResultCardProps {
   isEditing: boolean;
   onEditStart: () => void;
   onEditCancel: () => void;
-  onEditApply: (mask: string, prompt: string) => void;
+  onEditApply: (regions: EditRegion[], strategy: EditStrategy) => void;
   onZoom: () => void;
   onDownload: () => void;
+  onRenderAnalysis?: (analysis: SceneAnalysis) => void; // Re-render from corrected analysis fields
   filterConfig?: {
     label: string;
     styles: MasterStyle[];
     onFilterClick: (stylePrompt: string) => void;
     isDisabled: boolean;
   };
+  compareConfig?: {
+    label: string; // What the image is compared against
+    onCompare: () => void;
+  };
+  upscaleConfig?: {
+    onUpscale: (factor: number) => void; // Enlarges for print and downloads the result
+    isDisabled: boolean;
+  };
   language: Language;
   status: string; // for loading states
 }
@@ -35,13 +48,16 @@ const ResultCard: React.FC<ResultCardProps> = ({
   onEditApply,
   onZoom,
   onDownload,
+  onRenderAnalysis,
   filterConfig,
+  compareConfig,
+  upscaleConfig,
   language,
   status
 }) => {
   const [copied, setCopied] = useState(false);
-  const [localEditMask, setLocalEditMask] = useState<string | null>(null);
-  const [localEditPrompt, setLocalEditPrompt] = useState("");
+  const [localRegions, setLocalRegions] = useState<EditRegion[]>([]);
+  const [editStrategy, setEditStrategy] = useState<EditStrategy>('sequential');
   const t = TRANSLATIONS[language];
 
   const handleCopy = () => {
@@ -52,17 +68,24 @@ const ResultCard: React.FC<ResultCardProps> = ({
     }
   };
 
+  // Regions that have both a selection and an instruction
+  const readyRegions = localRegions.filter(r => r.mask && r.prompt.trim());
+
   const handleApply = () => {
-    if (localEditMask && localEditPrompt) {
-      onEditApply(localEditMask, localEditPrompt);
-      setLocalEditMask(null);
-      setLocalEditPrompt("");
+    if (readyRegions.length > 0) {
+      onEditApply(readyRegions, editStrategy);
     }
   };
 
+  // Regions live as long as the canvas: a failed or cancelled edit keeps them for another try
+  useEffect(() => {
+    if (!isEditing) setLocalRegions([]);
+  }, [isEditing]);
+
   const isProcessing = status !== 'idle';
   const hasError = !!result.error;
   const hasImage = !!result.imageData;
+  const errorText = getErrorText(result.errorKind, language);
 
   return (
     <div className="grid grid-cols-1 gap-8 animate-in fade-in slide-in-from-bottom-8 duration-700">
@@ -76,6 +99,11 @@ const ResultCard: React.FC<ResultCardProps> = ({
               <span className={`text-[10px] sm:text-xs px-2 py-0.5 rounded-full border ${hasError ? 'bg-rose-950/50 text-rose-300 border-rose-500/20' : 'bg-cyan-950/50 text-cyan-300 border-cyan-500/20'}`}>
                 {hasError ? "FAILED" : (badge || "Gemini 2.5")}
               </span>
+              {result.aspectRatio && (
+                <span className="text-[10px] sm:text-xs px-2 py-0.5 rounded-full border bg-zinc-900/60 text-zinc-400 border-white/10">
+                  {result.aspectRatio}
+                </span>
+              )}
             </h3>
             
             <div className="flex items-center gap-2">
@@ -88,6 +116,16 @@ const ResultCard: React.FC<ResultCardProps> = ({
                       <Maximize2 className="w-4 h-4" />
                       {t.zoomIn}
                   </button>
+                  {compareConfig && (
+                    <button
+                        onClick={compareConfig.onCompare}
+                        title={compareConfig.label}
+                        className="flex items-center gap-2 px-3 py-2 text-xs font-bold uppercase tracking-wider bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5"
+                    >
+                        <SplitSquareHorizontal className="w-4 h-4" />
+                        <span className="hidden sm:inline">{t.compareLabel}</span>
+                    </button>
+                  )}
                   <button 
                       onClick={onEditStart}
                       disabled={isProcessing}
@@ -103,6 +141,21 @@ const ResultCard: React.FC<ResultCardProps> = ({
                       <Download className="w-4 h-4" />
                       {t.download}
                   </button>
+                  {upscaleConfig && (
+                    <div className="flex items-center gap-1 pl-1 border-l border-white/10" title={t.upscaleHint}>
+                      <Expand className="w-4 h-4 text-zinc-500 mx-1" />
+                      {UPSCALE_FACTORS.map(factor => (
+                        <button
+                            key={factor}
+                            onClick={() => upscaleConfig.onUpscale(factor)}
+                            disabled={upscaleConfig.isDisabled}
+                            className="px-2 py-2 text-xs font-bold font-mono bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            ×{factor}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   </>
                )}
             </div>
@@ -117,33 +170,37 @@ const ResultCard: React.FC<ResultCardProps> = ({
                    <div className="space-y-4 p-4 w-full">
                       <InpaintingCanvas 
                           baseImage={result.imageData!} 
-                          onMaskReady={setLocalEditMask}
+                          onRegionsChange={setLocalRegions}
                           language={language}
                       />
                       
-                      <div className="bg-zinc-900/80 p-5 rounded-xl border border-white/10 flex flex-col gap-4">
-                          <label className="text-sm text-zinc-400 font-bold uppercase tracking-wider">
-                              {t.editPromptPlaceholder}
-                          </label>
+                      <div className="bg-zinc-900/80 p-5 rounded-xl border border-white/10 flex flex-wrap items-center justify-between gap-4">
+                          <div className="flex flex-wrap items-center gap-3">
+                              {readyRegions.length > 1 && (
+                                  <select
+                                      value={editStrategy}
+                                      onChange={(e) => setEditStrategy(e.target.value as EditStrategy)}
+                                      className="bg-black border border-white/10 rounded-lg px-3 py-2 text-xs text-zinc-300 outline-none focus:border-cyan-500"
+                                  >
+                                      <option value="sequential">{t.editSequential}</option>
+                                      <option value="combined">{t.editCombined}</option>
+                                  </select>
+                              )}
+                              <span className="text-xs text-zinc-500 font-mono">
+                                  {t.editRegionsReady.replace('{ready}', String(readyRegions.length)).replace('{total}', String(localRegions.length))}
+                              </span>
+                          </div>
                           <div className="flex gap-2">
-                              <input 
-                                  type="text" 
-                                  value={localEditPrompt}
-                                  onChange={(e) => setLocalEditPrompt(e.target.value)}
-                                  placeholder="e.g. Change the concrete material to brick"
-                                  className="flex-1 bg-black border border-white/10 rounded-lg px-4 py-3 text-sm text-white focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 placeholder-zinc-700"
-                              />
                               <button 
                                   onClick={handleApply}
-                                  disabled={!localEditMask || !localEditPrompt || status === 'editing'}
+                                  disabled={readyRegions.length === 0 || status === 'editing'}
                                   className="bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-lg text-sm font-bold transition-colors whitespace-nowrap"
                               >
                                   {t.applyEdit}
                               </button>
                                <button 
                                   onClick={() => {
-                                    setLocalEditMask(null);
-                                    setLocalEditPrompt("");
+                                    setLocalRegions([]);
                                     onEditCancel();
                                   }}
                                   className="bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-5 py-2 rounded-lg text-sm font-bold transition-colors"
@@ -174,17 +231,18 @@ const ResultCard: React.FC<ResultCardProps> = ({
                    <div className="w-16 h-16 bg-rose-500/10 rounded-full flex items-center justify-center mb-6 border border-rose-500/30 shadow-[0_0_20px_-5px_rgba(244,63,94,0.4)]">
                       <AlertTriangle className="w-8 h-8 text-rose-500" />
                    </div>
-                   <h4 className="text-xl text-rose-200 font-bold mb-3 tracking-wide">Image Generation Failed</h4>
+                   <h4 className="text-xl text-rose-200 font-bold mb-3 tracking-wide">{t.renderFailed}</h4>
                    <p className="text-zinc-400 text-sm mb-6 leading-relaxed bg-black/40 p-4 rounded-lg border border-white/5">
-                     {result.error || "Unknown error occurred during rendering."}
+                     {errorText.message}
+                     {/* Raw detail, e.g. the model's own refusal text */}
+                     {result.error && (
+                       <span className="block mt-2 text-[10px] text-zinc-600 font-mono break-words">{result.error.substring(0, 200)}</span>
+                     )}
                    </p>
-                   <div className="flex flex-col gap-2 text-xs text-zinc-500 font-mono">
-                     <p>Possible reasons:</p>
-                     <ul className="list-disc text-left pl-6 space-y-1">
-                       <li>Safety/Policy filters triggered by the sketch lines.</li>
-                       <li>Server load (Model overloaded).</li>
-                       <li>Input image too complex or ambiguous.</li>
-                     </ul>
+                   <div className="flex flex-col gap-2 text-xs text-zinc-500 font-mono text-left">
+                     <p>{t.errorGuidance}</p>
+                     <p className="text-zinc-400">{errorText.hint}</p>
+                     {errorText.retryable && <p className="text-cyan-500/80">{t.errorRetryable}</p>}
                    </div>
                 </div>
             )}
@@ -205,8 +263,12 @@ const ResultCard: React.FC<ResultCardProps> = ({
                               disabled={filterConfig.isDisabled}
                               className="flex flex-col items-center gap-2 min-w-[80px] p-2 rounded-xl hover:bg-white/5 transition-all border border-transparent hover:border-white/10 group/filter disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                              <div className="w-10 h-10 rounded-lg bg-zinc-900 border border-white/10 flex items-center justify-center group-hover/filter:bg-cyan-500/10 group-hover/filter:border-cyan-500/50 transition-all shadow-lg shadow-black/50">
-                                   <Zap className="w-5 h-5 text-zinc-500 group-hover/filter:text-cyan-400" />
+                              <div className="w-10 h-10 rounded-lg bg-zinc-900 border border-white/10 flex items-center justify-center overflow-hidden group-hover/filter:bg-cyan-500/10 group-hover/filter:border-cyan-500/50 transition-all shadow-lg shadow-black/50">
+                                   {style.thumbnail ? (
+                                     <img src={`data:image/jpeg;base64,${style.thumbnail}`} alt="" className="w-full h-full object-cover" />
+                                   ) : (
+                                     <StyleIcon name={style.icon} className="w-5 h-5 text-zinc-500 group-hover/filter:text-cyan-400" />
+                                   )}
                               </div>
                               <span className="text-[10px] text-zinc-500 group-hover/filter:text-zinc-300 text-center font-bold uppercase tracking-wide leading-tight">{style.label}</span>
                           </button>
@@ -235,6 +297,16 @@ const ResultCard: React.FC<ResultCardProps> = ({
           <div className="bg-black/50 rounded-xl p-6 border border-white/5 font-mono text-sm leading-relaxed text-zinc-300 break-words whitespace-pre-wrap selection:bg-cyan-500/30">
             {result.prompt}
           </div>
+          {result.analysis && onRenderAnalysis && (
+            <div className="mt-6">
+              <SceneAnalysisEditor
+                analysis={result.analysis}
+                onRender={onRenderAnalysis}
+                isDisabled={isProcessing}
+                language={language}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
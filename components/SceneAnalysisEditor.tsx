@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { ScanSearch, RefreshCw, X } from 'lucide-react';
+import { SceneAnalysis, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { normalizeSceneAnalysis, isSceneAnalysisEmpty } from '../services/sceneAnalysis';
+
+interface SceneAnalysisEditorProps {
+  analysis: SceneAnalysis;
+  onRender: (analysis: SceneAnalysis) => void;
+  onDiscard?: () => void;
+  isDisabled: boolean;
+  language: Language;
+}
+
+// Materials are edited as one comma separated line, everything else as free text
+type Draft = Omit<SceneAnalysis, 'materials'> & { materials: string };
+
+const toDraft = (analysis: SceneAnalysis): Draft => ({ ...analysis, materials: analysis.materials.join(', ') });
+
+const SceneAnalysisEditor: React.FC<SceneAnalysisEditorProps> = ({ analysis, onRender, onDiscard, isDisabled, language }) => {
+  const [draft, setDraft] = useState<Draft>(toDraft(analysis));
+  const t = TRANSLATIONS[language];
+
+  // Start over whenever a new analysis comes in
+  useEffect(() => {
+    setDraft(toDraft(analysis));
+  }, [analysis]);
+
+  const edited = normalizeSceneAnalysis(draft);
+
+  const fields: { key: keyof Draft; label: string; hint?: string; multiline?: boolean }[] = [
+    { key: 'buildingType', label: t.buildingType },
+    { key: 'massing', label: t.massing, multiline: true },
+    { key: 'materials', label: t.materials, hint: t.materialsHint },
+    { key: 'camera', label: t.cameraView },
+    { key: 'landscape', label: t.landscape, multiline: true },
+    { key: 'mood', label: t.mood },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-[0.2em] flex items-center gap-2">
+        <ScanSearch className="w-4 h-4" />
+        {t.analysisLabel}
+      </h4>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {fields.map((field) => (
+          <div key={field.key} className={`space-y-1.5 ${field.multiline ? 'sm:col-span-2' : ''}`}>
+            <div className="flex items-baseline justify-between">
+              <label className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{field.label}</label>
+              {field.hint && <span className="text-[10px] text-zinc-600">{field.hint}</span>}
+            </div>
+            {field.multiline ? (
+              <textarea
+                value={draft[field.key]}
+                onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                rows={2}
+                disabled={isDisabled}
+                className="w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-zinc-200 focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 resize-none disabled:opacity-50"
+              />
+            ) : (
+              <input
+                type="text"
+                value={draft[field.key]}
+                onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                disabled={isDisabled}
+                className="w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-zinc-200 focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onDiscard && (
+          <button
+            onClick={onDiscard}
+            disabled={isDisabled}
+            className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <X className="w-4 h-4" />
+            {t.discardAnalysis}
+          </button>
+        )}
+        <button
+          onClick={() => onRender(edited)}
+          disabled={isDisabled || isSceneAnalysisEmpty(edited)}
+          className="flex items-center gap-2 bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className="w-4 h-4" />
+          {t.renderFromAnalysis}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SceneAnalysisEditor;
@@ -0,0 +1,149 @@
+import React from 'react';
+import { MapPin } from 'lucide-react';
+import { SiteSun, SolarPosition, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { getSiteSunPosition, getSunPath, getRelativeBearing } from '../services/solarPosition';
+
+interface SiteSunControlsProps {
+  site: SiteSun;
+  onChange: (site: SiteSun) => void;
+  language: Language;
+}
+
+const SIZE = 168;
+const CENTER = SIZE / 2;
+const RADIUS = 68;
+
+// Helper: Diagram point of a sun position. The diagram is turned like the sketch, so up is where the camera
+// looks; the rim is the horizon and the centre straight overhead.
+const toDiagram = (site: SiteSun, position: SolarPosition) => {
+  const bearing = getRelativeBearing(site, position) * Math.PI / 180;
+  const distance = RADIUS * (90 - Math.max(0, position.altitude)) / 90;
+  return { x: CENTER + distance * Math.sin(bearing), y: CENTER - distance * Math.cos(bearing) };
+};
+
+const SiteSunControls: React.FC<SiteSunControlsProps> = ({ site, onChange, language }) => {
+  const t = TRANSLATIONS[language];
+  const position = getSiteSunPosition(site);
+  const path = getSunPath(site);
+
+  const update = (changes: Partial<SiteSun>) => onChange({ ...site, ...changes });
+  const updateNumber = (key: 'latitude' | 'longitude' | 'northAngle' | 'utcOffset', value: string, min: number, max: number) => {
+    const number = parseFloat(value);
+    if (!Number.isNaN(number)) update({ [key]: Math.min(max, Math.max(min, number)) });
+  };
+
+  // Solstices and equinox of the selected year, seen from the site's hemisphere
+  const setDate = (month: number, day: number) => {
+    update({ date: `${site.date.slice(0, 4)}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}` });
+  };
+  const north = site.latitude >= 0;
+
+  // Daylight stretches of the path; polar days and nights can have none or one without a sunrise
+  const segments: string[] = [];
+  let current: string[] = [];
+  path.forEach(({ position: sample }) => {
+    if (sample.altitude > 0) {
+      const point = toDiagram(site, sample);
+      current.push(`${point.x.toFixed(1)},${point.y.toFixed(1)}`);
+    } else if (current.length > 0) {
+      segments.push(current.join(' '));
+      current = [];
+    }
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  const hours = path.filter(p => p.minutes % 60 === 0 && p.minutes < 1440 && p.position.altitude > 0);
+  const sun = toDiagram(site, position);
+  const northRad = site.northAngle * Math.PI / 180;
+  const northLabel = { x: CENTER + (RADIUS + 10) * Math.sin(northRad), y: CENTER - (RADIUS + 10) * Math.cos(northRad) };
+
+  const inputClass = "w-full bg-black/40 border border-white/10 text-zinc-300 text-sm rounded-lg focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 p-2 outline-none";
+  const fieldLabel = "text-[10px] font-bold text-zinc-500 uppercase tracking-wider";
+  const presetClass = "flex-1 px-2 py-1.5 text-[10px] rounded-lg border border-white/5 bg-black/20 text-zinc-500 hover:bg-white/5 hover:text-zinc-200 transition-all font-bold uppercase tracking-wider";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
+          <MapPin className="w-4 h-4 text-amber-400" /> {t.siteSun}
+        </label>
+        <button
+          onClick={() => update({ enabled: !site.enabled })}
+          role="switch"
+          aria-checked={site.enabled}
+          className={`relative w-10 h-5 rounded-full border transition-colors ${site.enabled ? 'bg-amber-500/30 border-amber-500/60' : 'bg-black/40 border-white/10'}`}
+        >
+          <span className={`absolute top-0.5 w-3.5 h-3.5 rounded-full transition-all ${site.enabled ? 'left-5 bg-amber-300' : 'left-0.5 bg-zinc-500'}`} />
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500">{t.siteSunHint}</p>
+
+      {site.enabled && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className={fieldLabel}>{t.siteLatitude}</span>
+              <input type="number" step="0.01" min={-90} max={90} value={site.latitude} onChange={(e) => updateNumber('latitude', e.target.value, -90, 90)} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className={fieldLabel}>{t.siteLongitude}</span>
+              <input type="number" step="0.01" min={-180} max={180} value={site.longitude} onChange={(e) => updateNumber('longitude', e.target.value, -180, 180)} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className={fieldLabel}>{t.siteDate}</span>
+              <input type="date" value={site.date} onChange={(e) => e.target.value && update({ date: e.target.value })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className={fieldLabel}>{t.siteTime}</span>
+              <input type="time" value={site.time} onChange={(e) => e.target.value && update({ time: e.target.value })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className={fieldLabel}>{t.siteUtcOffset}</span>
+              <input type="number" step="0.5" min={-12} max={14} value={site.utcOffset} onChange={(e) => updateNumber('utcOffset', e.target.value, -12, 14)} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className={fieldLabel}>{t.siteNorth}</span>
+              <input type="number" step="1" min={0} max={359} value={site.northAngle} onChange={(e) => updateNumber('northAngle', e.target.value, 0, 359)} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => setDate(north ? 12 : 6, 21)} className={presetClass}>{t.siteWinterSolstice}</button>
+            <button onClick={() => setDate(3, 20)} className={presetClass}>{t.siteEquinox}</button>
+            <button onClick={() => setDate(north ? 6 : 12, 21)} className={presetClass}>{t.siteSummerSolstice}</button>
+          </div>
+
+          {/* Sun-path diagram */}
+          <div className="flex items-center gap-4">
+            <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} className="shrink-0">
+              <circle cx={CENTER} cy={CENTER} r={RADIUS} fill="rgba(0,0,0,0.3)" stroke="rgba(255,255,255,0.2)" />
+              {[30, 60].map(altitude => (
+                <circle key={altitude} cx={CENTER} cy={CENTER} r={RADIUS * (90 - altitude) / 90} fill="none" stroke="rgba(255,255,255,0.08)" strokeDasharray="2 3" />
+              ))}
+              <line x1={CENTER} y1={CENTER} x2={CENTER + RADIUS * Math.sin(northRad)} y2={CENTER - RADIUS * Math.cos(northRad)} stroke="rgba(34,211,238,0.4)" />
+              <text x={northLabel.x} y={northLabel.y} textAnchor="middle" dominantBaseline="central" className="fill-cyan-400 text-[10px] font-mono font-bold">N</text>
+              {segments.map((points, i) => (
+                <polyline key={i} points={points} fill="none" stroke="rgba(251,191,36,0.5)" strokeWidth={1.5} />
+              ))}
+              {hours.map(({ minutes, position: sample }) => {
+                const point = toDiagram(site, sample);
+                return <circle key={minutes} cx={point.x} cy={point.y} r={1.5} fill="rgba(251,191,36,0.7)" />;
+              })}
+              {position.altitude > 0 && <circle cx={sun.x} cy={sun.y} r={5} fill="#fbbf24" stroke="#fff7" />}
+              {/* Camera, looking up the diagram */}
+              <path d={`M ${CENTER} ${CENTER + RADIUS - 8} l -5 8 h 10 z`} fill="rgba(255,255,255,0.5)" />
+            </svg>
+            <div className="space-y-1 text-xs font-mono text-zinc-400">
+              <p>{t.siteAzimuth} <span className="text-zinc-200">{Math.round(position.azimuth)}°</span></p>
+              <p>{t.siteAltitude} <span className="text-zinc-200">{Math.round(position.altitude)}°</span></p>
+              {position.altitude <= 0 && <p className="text-amber-300/80">{t.siteSunBelow}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SiteSunControls;
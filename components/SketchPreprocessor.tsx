@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, SlidersHorizontal, RotateCcw, RotateCw, Check } from 'lucide-react';
+import { UploadedImage, Language, SketchAdjustments, NormalizedPoint } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { createUploadedImage } from '../services/imageUtils';
+import {
+  DEFAULT_SKETCH_ADJUSTMENTS,
+  FULL_FRAME,
+  fitImage,
+  loadImageFile,
+  processSketch,
+  processSketchFile,
+  rotateImage,
+  toRectangle
+} from '../services/sketchProcessing';
+
+interface SketchPreprocessorProps {
+  isOpen: boolean;
+  image: UploadedImage | null;
+  onClose: () => void;
+  onApply: (image: UploadedImage) => void;
+  uploadSize: number; // Longest side sent to the model at the current quality; preview and prepared file use it
+  language: Language;
+}
+
+const VIEW_SIZE = 1000; // Resolution of the image under the crop handles
+const MIN_CROP = 0.05; // Smallest crop rectangle side, as a fraction of the image
+
+const SketchPreprocessor: React.FC<SketchPreprocessorProps> = ({ isOpen, image, onClose, onApply, uploadSize, language }) => {
+  const [photo, setPhoto] = useState<HTMLImageElement | null>(null);
+  const [adjustments, setAdjustments] = useState<SketchAdjustments>(DEFAULT_SKETCH_ADJUSTMENTS);
+  const [preview, setPreview] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const viewRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<number | null>(null);
+  const t = TRANSLATIONS[language];
+
+  // Always start from the unprocessed upload, with the settings used last time
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    let cancelled = false;
+    setPhoto(null);
+    setPreview(null);
+    setFailed(false);
+    setAdjustments(image.adjustments ?? DEFAULT_SKETCH_ADJUSTMENTS);
+
+    loadImageFile(image.original ?? image.file)
+      .then(img => {
+        if (!cancelled) setPhoto(img);
+      })
+      .catch(err => {
+        console.error("Sketch load failed", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, image]);
+
+  // The preview runs the same pipeline as the prepared file: from the full-resolution photo, scaled to the
+  // upload size only by the crop, so line weight (a pixel radius) comes out as it is uploaded
+  const source = useMemo(() => photo && fitImage(photo, Infinity), [photo]);
+  const viewSource = useMemo(() => source && fitImage(source, VIEW_SIZE), [source]);
+
+  // Rotated image under the crop handles
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!viewSource || !view) return;
+    const rotated = rotateImage(viewSource, adjustments.rotation);
+    view.width = rotated.width;
+    view.height = rotated.height;
+    view.getContext('2d')?.drawImage(rotated, 0, 0);
+  }, [viewSource, adjustments.rotation]);
+
+  // Live preview at the size that is actually uploaded, debounced while sliders move
+  useEffect(() => {
+    if (!source) return;
+    const timer = setTimeout(() => {
+      const result = processSketch(source, adjustments, uploadSize);
+      setPreview({ url: result.toDataURL('image/png'), width: result.width, height: result.height });
+    }, 120);
+    return () => clearTimeout(timer);
+  }, [source, adjustments, uploadSize]);
+
+  if (!isOpen || !image) return null;
+
+  const update = (changes: Partial<SketchAdjustments>) => setAdjustments({ ...adjustments, ...changes });
+
+  // Crop coordinates belong to the rotated frame, so rotating starts the crop over
+  const setRotation = (rotation: number) => {
+    const normalized = ((rotation + 540) % 360) - 180;
+    update({ rotation: normalized, corners: FULL_FRAME });
+  };
+  const quarterTurn = Math.round(adjustments.rotation / 90) * 90;
+  const straighten = adjustments.rotation - quarterTurn;
+
+  const moveCorner = (index: number, point: NormalizedPoint) => {
+    const p = { x: Math.min(1, Math.max(0, point.x)), y: Math.min(1, Math.max(0, point.y)) };
+    if (adjustments.perspective) {
+      const corners = [...adjustments.corners] as SketchAdjustments['corners'];
+      corners[index] = p;
+      update({ corners });
+      return;
+    }
+
+    // Crop rectangle: the dragged corner moves its two edges
+    const [topLeft, , bottomRight] = toRectangle(adjustments.corners);
+    let { x: left, y: top } = topLeft;
+    let { x: right, y: bottom } = bottomRight;
+    if (index === 0 || index === 3) left = Math.min(p.x, right - MIN_CROP);
+    else right = Math.max(p.x, left + MIN_CROP);
+    if (index === 0 || index === 1) top = Math.min(p.y, bottom - MIN_CROP);
+    else bottom = Math.max(p.y, top + MIN_CROP);
+    update({ corners: toRectangle([{ x: left, y: top }, { x: right, y: bottom }]) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    const frame = frameRef.current;
+    if (draggingRef.current !== index || !frame) return;
+    const rect = frame.getBoundingClientRect();
+    moveCorner(index, {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height
+    });
+  };
+
+  const handleApply = async () => {
+    const original = image.original ?? image.file;
+    setIsApplying(true);
+    setFailed(false);
+    try {
+      const file = await processSketchFile(original, adjustments, uploadSize);
+      const prepared = await createUploadedImage(file);
+      onApply({ ...prepared, original, adjustments });
+    } catch (err) {
+      console.error("Sketch processing failed", err);
+      setFailed(true);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const slider = (label: string, value: number, min: number, max: number, onChange: (value: number) => void, unit = '') => (
+    <label className="flex flex-col gap-1.5">
+      <span className="flex justify-between text-[10px] font-bold uppercase tracking-wider text-zinc-400">
+        {label}
+        <span className="font-mono text-zinc-500">{value}{unit}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full h-1.5 bg-zinc-700 rounded-full appearance-none cursor-pointer accent-cyan-500"
+      />
+    </label>
+  );
+
+  const cornerPoints = adjustments.corners.map(c => `${c.x},${c.y}`).join(' ');
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 sm:p-8 animate-in fade-in duration-300">
+      <div className="flex flex-col w-full max-w-6xl max-h-full bg-zinc-950 rounded-3xl overflow-hidden shadow-2xl border border-white/10">
+
+        {/* Header */}
+        <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex justify-between items-center gap-4">
+          <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400">
+            <SlidersHorizontal className="w-5 h-5" />
+            {t.sketchPrepareTitle}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-white transition-colors border border-white/5"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Source with crop / perspective handles */}
+            <div className="flex flex-col gap-2">
+              <span className="text-xs font-bold uppercase tracking-wider text-zinc-400">{t.sketchOriginal}</span>
+              <div className="relative bg-black rounded-xl border border-white/10 overflow-hidden flex items-center justify-center min-h-[200px] p-3">
+                <div ref={frameRef} className="relative">
+                  <canvas ref={viewRef} className="block max-w-full max-h-[50vh]" />
+                  {source && (
+                    <>
+                      <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                        <path
+                          d={`M0,0 H1 V1 H0 Z M${adjustments.corners.map(c => `${c.x},${c.y}`).join(' L')} Z`}
+                          fill="rgba(0,0,0,0.55)"
+                          fillRule="evenodd"
+                        />
+                        <polygon points={cornerPoints} fill="none" stroke="rgb(34,211,238)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                      </svg>
+                      {adjustments.corners.map((corner, index) => (
+                        <div
+                          key={index}
+                          className="absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-cyan-400 border-2 border-black cursor-move touch-none"
+                          style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                          onPointerDown={(e) => {
+                            draggingRef.current = index;
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                          }}
+                          onPointerMove={(e) => handlePointerMove(e, index)}
+                          onPointerUp={() => { draggingRef.current = null; }}
+                          onPointerCancel={() => { draggingRef.current = null; }}
+                        />
+                      ))}
+                    </>
+                  )}
+                </div>
+              </div>
+              <p className="text-[10px] text-zinc-500">{t.sketchCropHint}</p>
+            </div>
+
+            {/* What will be sent */}
+            <div className="flex flex-col gap-2">
+              <span className="flex justify-between text-xs font-bold uppercase tracking-wider text-zinc-400">
+                {t.sketchPreview}
+                {preview && <span className="font-mono text-zinc-500 normal-case">{preview.width} × {preview.height} px</span>}
+              </span>
+              <div className="bg-black rounded-xl border border-cyan-500/30 overflow-hidden flex items-center justify-center min-h-[200px]">
+                {preview && <img src={preview.url} alt={t.sketchPreview} className="block max-w-full max-h-[50vh]" />}
+              </div>
+            </div>
+          </div>
+
+          {/* Controls */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 bg-zinc-900/80 p-5 rounded-xl border border-white/10">
+            <div className="flex flex-col gap-3">
+              <span className="text-xs font-bold uppercase tracking-wider text-cyan-400">{t.sketchGeometry}</span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setRotation(adjustments.rotation - 90)}
+                  title={t.sketchRotateLeft}
+                  className="p-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setRotation(adjustments.rotation + 90)}
+                  title={t.sketchRotateRight}
+                  className="p-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5"
+                >
+                  <RotateCw className="w-4 h-4" />
+                </button>
+              </div>
+              {slider(t.sketchStraighten, straighten, -15, 15, (value) => setRotation(quarterTurn + value), '°')}
+              <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={adjustments.perspective}
+                  onChange={(e) => update({
+                    perspective: e.target.checked,
+                    corners: e.target.checked ? adjustments.corners : toRectangle(adjustments.corners)
+                  })}
+                  className="accent-cyan-500"
+                />
+                {t.sketchPerspective}
+              </label>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <span className="text-xs font-bold uppercase tracking-wider text-cyan-400">{t.sketchLevels}</span>
+              {slider(t.sketchBlackPoint, adjustments.blackPoint, 0, 200, (value) => update({ blackPoint: Math.min(value, adjustments.whitePoint - 10) }))}
+              {slider(t.sketchWhitePoint, adjustments.whitePoint, 55, 255, (value) => update({ whitePoint: Math.max(value, adjustments.blackPoint + 10) }))}
+              {slider(t.sketchContrast, adjustments.contrast, -50, 50, (value) => update({ contrast: value }))}
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <span className="text-xs font-bold uppercase tracking-wider text-cyan-400">{t.sketchCleanup}</span>
+              {slider(t.sketchWhiten, adjustments.whiten, 0, 100, (value) => update({ whiten: value }), '%')}
+              {slider(t.sketchLineWeight, adjustments.lineWeight, 0, 3, (value) => update({ lineWeight: value }), 'px')}
+            </div>
+
+            <div className="flex flex-col justify-end gap-2">
+              {failed && <p className="text-xs text-rose-300">{t.sketchFailed}</p>}
+              <button
+                onClick={() => setAdjustments(DEFAULT_SKETCH_ADJUSTMENTS)}
+                className="bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors"
+              >
+                {t.sketchReset}
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={!source || isApplying}
+                className="flex items-center justify-center gap-2 bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-4 h-4" />
+                {t.sketchApply}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SketchPreprocessor;
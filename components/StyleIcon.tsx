@@ -0,0 +1,32 @@
+import React from 'react';
+import { Clock, Contrast, Star, Film, Moon, Sun, Zap, Camera, Palette, Droplets, Cloud, Sparkles, Trees, Aperture } from 'lucide-react';
+
+// Icons a master style can pick, stored by name so style packs stay plain JSON
+export const STYLE_ICONS: Record<string, React.FC<{ className?: string }>> = {
+  zap: Zap,
+  clock: Clock,
+  contrast: Contrast,
+  star: Star,
+  film: Film,
+  moon: Moon,
+  sun: Sun,
+  camera: Camera,
+  aperture: Aperture,
+  palette: Palette,
+  droplets: Droplets,
+  cloud: Cloud,
+  sparkles: Sparkles,
+  trees: Trees,
+};
+
+interface StyleIconProps {
+  name?: string;
+  className?: string;
+}
+
+const StyleIcon: React.FC<StyleIconProps> = ({ name, className }) => {
+  const Icon = (name && STYLE_ICONS[name]) || Zap;
+  return <Icon className={className} />;
+};
+
+export default StyleIcon;
@@ -0,0 +1,310 @@
+import React, { useState, useRef } from 'react';
+import { X, Palette, Plus, Pencil, Trash2, ArrowUp, ArrowDown, Lock, Upload, Download, Save } from 'lucide-react';
+import { Language, MasterStyleDefinition } from '../types';
+import { TRANSLATIONS } from '../constants';
+import {
+  getStyleLibrary,
+  saveStyle,
+  deleteStyle,
+  moveStyle,
+  exportStylePack,
+  importStylePack,
+  createStyleThumbnail
+} from '../services/styleLibrary';
+import StyleIcon, { STYLE_ICONS } from './StyleIcon';
+
+interface StyleLibraryManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange: () => void; // Called after every change so the filter toolbars pick it up
+  language: Language;
+}
+
+const emptyStyle = (): MasterStyleDefinition => ({
+  id: `style-${Date.now()}`,
+  labels: Object.fromEntries(Object.values(Language).map(lang => [lang, ''])) as Record<Language, string>,
+  prompt: '',
+  icon: 'zap',
+  builtIn: false,
+});
+
+const StyleLibraryManager: React.FC<StyleLibraryManagerProps> = ({ isOpen, onClose, onChange, language }) => {
+  const [styles, setStyles] = useState<MasterStyleDefinition[]>(getStyleLibrary());
+  const [draft, setDraft] = useState<MasterStyleDefinition | null>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const thumbnailRef = useRef<HTMLInputElement>(null);
+  const t = TRANSLATIONS[language];
+
+  if (!isOpen) return null;
+
+  // Run a library change, then refresh the list and the app
+  const update = (change: () => void) => {
+    try {
+      change();
+      setNotice(null);
+    } catch (e: any) {
+      console.error("Style library update failed", e);
+      setNotice({ text: e?.name === 'QuotaExceededError' ? t.styleStorageFull : (e.message || t.errorGeneric), isError: true });
+    }
+    setStyles(getStyleLibrary());
+    onChange();
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    update(() => {
+      saveStyle(draft);
+      setDraft(null);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm(t.styleDeleteConfirm)) return;
+    update(() => deleteStyle(id));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportStylePack()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `eden-style-pack-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    update(() => {
+      const count = importStylePack(text);
+      setNotice({ text: t.styleImported.replace('{count}', count.toString()), isError: false });
+    });
+  };
+
+  const handleThumbnail = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !draft) return;
+    try {
+      const thumbnail = await createStyleThumbnail(file);
+      setDraft({ ...draft, thumbnail });
+    } catch (err: any) {
+      setNotice({ text: err.message || t.errorGeneric, isError: true });
+    }
+  };
+
+  const canSave = !!draft && !!draft.prompt.trim() && !!draft.labels[Language.English].trim();
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 sm:p-8 animate-in fade-in duration-300">
+      <div className="flex flex-col w-full max-w-4xl max-h-full bg-zinc-950 rounded-3xl overflow-hidden shadow-2xl border border-white/10">
+
+        {/* Header */}
+        <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex justify-between items-center gap-4">
+          <h3 className="font-medium text-sm sm:text-base flex items-center gap-2 font-mono uppercase tracking-wider text-cyan-400">
+            <Palette className="w-5 h-5" />
+            {t.stylesTitle}
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-2 text-xs font-bold uppercase tracking-wider bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5"
+            >
+              <Upload className="w-4 h-4" />
+              {t.styleImport}
+            </button>
+            <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button
+              onClick={handleExport}
+              disabled={!styles.some(style => !style.builtIn)}
+              className="flex items-center gap-2 px-3 py-2 text-xs font-bold uppercase tracking-wider bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              {t.styleExport}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 bg-white/5 hover:bg-white/10 rounded-full text-white transition-colors border border-white/5"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          {notice && (
+            <p className={`text-xs font-medium ${notice.isError ? 'text-rose-400' : 'text-cyan-400'}`}>{notice.text}</p>
+          )}
+
+          {/* Style List */}
+          <div className="space-y-2">
+            {styles.map((style, index) => (
+              <div key={style.id} className="flex items-center gap-3 bg-zinc-900/60 border border-white/5 rounded-xl px-3 py-2">
+                <div className="w-10 h-10 flex-shrink-0 rounded-lg bg-zinc-900 border border-white/10 flex items-center justify-center overflow-hidden">
+                  {style.thumbnail ? (
+                    <img src={`data:image/jpeg;base64,${style.thumbnail}`} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <StyleIcon name={style.icon} className="w-5 h-5 text-zinc-400" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-zinc-200 font-medium truncate">{style.labels[language] || style.labels[Language.English]}</p>
+                  <p className="text-[10px] text-zinc-600 font-mono truncate">{style.prompt}</p>
+                </div>
+                {style.builtIn && (
+                  <span className="flex items-center gap-1 text-[10px] text-zinc-500 uppercase font-bold">
+                    <Lock className="w-3 h-3" />
+                    {t.styleBuiltIn}
+                  </span>
+                )}
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => update(() => moveStyle(style.id, -1))}
+                    disabled={index === 0}
+                    title={t.styleMoveUp}
+                    className="p-1.5 rounded-md text-zinc-500 hover:text-zinc-200 hover:bg-white/5 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => update(() => moveStyle(style.id, 1))}
+                    disabled={index === styles.length - 1}
+                    title={t.styleMoveDown}
+                    className="p-1.5 rounded-md text-zinc-500 hover:text-zinc-200 hover:bg-white/5 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  {!style.builtIn && (
+                    <>
+                      <button
+                        onClick={() => setDraft({ ...style })}
+                        title={t.styleEdit}
+                        className="p-1.5 rounded-md text-zinc-500 hover:text-cyan-300 hover:bg-white/5"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(style.id)}
+                        title={t.styleDelete}
+                        className="p-1.5 rounded-md text-zinc-500 hover:text-rose-300 hover:bg-white/5"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          {draft ? (
+            <div className="space-y-4 bg-black/40 border border-cyan-500/20 rounded-2xl p-4">
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{t.styleLabels}</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {Object.values(Language).map((lang) => (
+                    <input
+                      key={lang}
+                      type="text"
+                      value={draft.labels[lang]}
+                      placeholder={lang}
+                      onChange={(e) => setDraft({ ...draft, labels: { ...draft.labels, [lang]: e.target.value } })}
+                      className="w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500"
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{t.stylePrompt}</label>
+                <textarea
+                  value={draft.prompt}
+                  onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                  rows={3}
+                  className="w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-zinc-200 focus:ring-1 focus:ring-cyan-500 focus:border-cyan-500 resize-none"
+                />
+              </div>
+
+              <div className="flex flex-wrap items-start gap-6">
+                <div className="space-y-2">
+                  <label className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{t.styleIcon}</label>
+                  <div className="flex flex-wrap gap-1.5 max-w-xs">
+                    {Object.keys(STYLE_ICONS).map((name) => (
+                      <button
+                        key={name}
+                        onClick={() => setDraft({ ...draft, icon: name })}
+                        className={`w-8 h-8 rounded-lg border flex items-center justify-center transition-all ${
+                          draft.icon === name ? 'bg-cyan-500/20 border-cyan-500 text-cyan-200' : 'bg-zinc-900 border-white/5 text-zinc-500 hover:text-zinc-300'
+                        }`}
+                      >
+                        <StyleIcon name={name} className="w-4 h-4" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{t.styleThumbnail}</label>
+                  <div className="flex items-center gap-2">
+                    {draft.thumbnail && (
+                      <img src={`data:image/jpeg;base64,${draft.thumbnail}`} alt="" className="w-12 h-12 rounded-lg object-cover border border-white/10" />
+                    )}
+                    <button
+                      onClick={() => thumbnailRef.current?.click()}
+                      className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors"
+                    >
+                      {t.styleThumbnailUpload}
+                    </button>
+                    {draft.thumbnail && (
+                      <button
+                        onClick={() => setDraft({ ...draft, thumbnail: undefined })}
+                        className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-zinc-500 hover:text-rose-300"
+                      >
+                        {t.styleThumbnailRemove}
+                      </button>
+                    )}
+                    <input ref={thumbnailRef} type="file" accept="image/*" className="hidden" onChange={handleThumbnail} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="bg-zinc-800 hover:bg-zinc-700 text-zinc-300 px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors"
+                >
+                  {t.styleCancel}
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!canSave}
+                  className="flex items-center gap-2 bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save className="w-4 h-4" />
+                  {t.styleSave}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setDraft(emptyStyle())}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-white/10 text-zinc-500 hover:text-cyan-300 hover:border-cyan-500/40 text-xs font-bold uppercase tracking-wider transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              {t.styleNew}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleLibraryManager;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Grid3x3, Sun, Compass, CloudRain } from 'lucide-react';
+import { SweepSelection, LightingTime, SunDirection, WeatherCondition, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { getSweepSize } from '../services/contactSheet';
+import { MAX_SWEEP_CELLS } from '../services/geminiService';
+
+interface SweepPanelProps {
+  selection: SweepSelection;
+  onChange: (selection: SweepSelection) => void;
+  onRun: () => void;
+  isDisabled: boolean;
+  language: Language;
+}
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ selection, onChange, onRun, isDisabled, language }) => {
+  const t = TRANSLATIONS[language];
+  const count = getSweepSize(selection);
+  const tooMany = count > MAX_SWEEP_CELLS;
+
+  const toggle = <K extends keyof SweepSelection>(key: K, value: SweepSelection[K][number]) => {
+    const current = selection[key] as string[];
+    const next = current.includes(value)
+      ? current.filter(v => v !== value)
+      : [...current, value];
+    onChange({ ...selection, [key]: next });
+  };
+
+  const renderAxis = <K extends keyof SweepSelection>(key: K, values: SweepSelection[K], icon: React.ReactNode, label: string) => (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold text-zinc-400 flex items-center gap-2">
+        {icon} {label}
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {values.map((value) => {
+          const isOn = (selection[key] as string[]).includes(value);
+          return (
+            <button
+              key={value}
+              onClick={() => toggle(key, value)}
+              disabled={isDisabled}
+              className={`
+                px-3 py-1.5 text-xs rounded-lg border transition-all font-medium disabled:cursor-not-allowed
+                ${isOn
+                  ? 'bg-cyan-900/30 border-cyan-500/50 text-cyan-200'
+                  : 'bg-black/20 border-white/5 text-zinc-500 hover:bg-white/5 hover:text-zinc-200'}
+              `}
+            >
+              {(t as any)[value]}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 space-y-4">
+      <h3 className="text-sm font-bold text-zinc-400 flex items-center gap-2 uppercase tracking-wider">
+        <Grid3x3 className="w-4 h-4 text-cyan-400" />
+        {t.sweepLabel}
+      </h3>
+      <p className="text-xs text-zinc-600">{t.sweepHint}</p>
+
+      {renderAxis('lighting', Object.values(LightingTime), <Sun className="w-3 h-3 text-amber-400" />, t.lighting)}
+      {renderAxis('sunDirection', Object.values(SunDirection), <Compass className="w-3 h-3 text-cyan-400" />, t.sunDirection)}
+      {renderAxis('weather', Object.values(WeatherCondition), <CloudRain className="w-3 h-3 text-sky-400" />, t.weather)}
+
+      {tooMany && (
+        <p className="text-xs text-rose-400 font-mono">{t.sweepTooMany.replace('{max}', String(MAX_SWEEP_CELLS))}</p>
+      )}
+
+      <button
+        onClick={onRun}
+        disabled={isDisabled || count === 0 || tooMany}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-wider transition-all border bg-zinc-900 border-cyan-500/40 text-cyan-200 hover:bg-cyan-500/10 disabled:bg-zinc-800 disabled:border-transparent disabled:text-zinc-600 disabled:cursor-not-allowed"
+      >
+        <Grid3x3 className="w-4 h-4" />
+        {t.sweepRun.replace('{count}', String(count))}
+      </button>
+    </div>
+  );
+};
+
+export default SweepPanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Layers, Maximize2, Star } from 'lucide-react';
+import { PromptResult, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { getErrorText } from '../services/errors';
+
+interface VariationGridProps {
+  variations: PromptResult[];
+  expectedCount: number; // Placeholders are shown for variations still rendering
+  mainId?: string;
+  onPromote: (variation: PromptResult) => void;
+  onZoom: (variation: PromptResult) => void;
+  language: Language;
+}
+
+const VariationGrid: React.FC<VariationGridProps> = ({
+  variations,
+  expectedCount,
+  mainId,
+  onPromote,
+  onZoom,
+  language
+}) => {
+  const t = TRANSLATIONS[language];
+  const pendingCount = Math.max(0, expectedCount - variations.length);
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-3xl overflow-hidden shadow-2xl animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="bg-white/5 px-6 py-4 border-b border-white/5 flex items-center gap-2">
+        <Layers className="w-5 h-5 text-cyan-400" />
+        <h3 className="font-medium text-sm sm:text-base font-mono uppercase tracking-wider text-cyan-400">
+          {t.variationsLabel}
+        </h3>
+        <span className="text-[10px] sm:text-xs px-2 py-0.5 rounded-full border bg-cyan-950/50 text-cyan-300 border-cyan-500/20">
+          {variations.length} / {expectedCount}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 p-4">
+        {variations.map((variation, index) => {
+          const isMain = variation.id === mainId;
+          return (
+            <div
+              key={variation.id}
+              onClick={() => variation.imageData && !isMain && onPromote(variation)}
+              className={`
+                group relative aspect-video bg-zinc-900 rounded-xl overflow-hidden border transition-all shadow-lg
+                ${isMain ? 'border-cyan-500 shadow-[0_0_20px_-5px_rgba(6,182,212,0.5)]' : 'border-white/10 hover:border-cyan-500/50'}
+                ${variation.imageData && !isMain ? 'cursor-pointer' : 'cursor-default'}
+              `}
+            >
+              {variation.imageData ? (
+                <img
+                  src={`data:image/png;base64,${variation.imageData}`}
+                  alt={`Variation ${index + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-zinc-700 text-xs bg-rose-950/20 p-4 text-center font-mono">
+                  {variation.errorKind ? getErrorText(variation.errorKind, language).message : variation.error || 'ERROR'}
+                </div>
+              )}
+
+              <div className="absolute top-2 left-2 flex items-center gap-1">
+                <span className="px-2 py-0.5 rounded bg-black/80 text-[10px] font-mono text-zinc-300 border border-white/10">
+                  #{index + 1}
+                </span>
+                {isMain && (
+                  <span className="flex items-center gap-1 px-2 py-0.5 rounded bg-cyan-500/90 text-[10px] font-bold uppercase tracking-wider text-black">
+                    <Star className="w-3 h-3" />
+                    {t.mainVariation}
+                  </span>
+                )}
+              </div>
+
+              {variation.imageData && (
+                <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-between p-3">
+                  {!isMain ? (
+                    <span className="text-xs font-bold text-cyan-400 uppercase tracking-wider">{t.setAsMain}</span>
+                  ) : <span />}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onZoom(variation);
+                    }}
+                    className="p-1.5 bg-black/80 hover:bg-white/20 rounded text-white transition-colors"
+                    title={t.zoomIn}
+                  >
+                    <Maximize2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {Array.from({ length: pendingCount }).map((_, index) => (
+          <div
+            key={`pending-${index}`}
+            className="aspect-video bg-zinc-900/50 rounded-xl border border-dashed border-white/10 flex flex-col items-center justify-center gap-3 text-zinc-600"
+          >
+            <div className="w-5 h-5 border-2 border-white/10 border-t-cyan-400 rounded-full animate-spin" />
+            <span className="text-xs font-mono">{t.variationPending}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariationGrid;
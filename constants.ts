@@ -1,5 +1,5 @@
 
-import { Language, LightingTime, SunDirection, WeatherCondition, MasterStyle } from './types';
+import { Language, LightingTime, SunDirection, WeatherCondition, MasterStyleDefinition } from './types';
 
 export const TRANSLATIONS = {
   [Language.English]: {
@@ -15,6 +15,46 @@ export const TRANSLATIONS = {
     lighting: "Lighting Time",
     sunDirection: "Sun Direction",
     weather: "Weather",
+    siteSun: "Site Sun",
+    siteSunHint: "Real sun position from the site location, date and time. Replaces the lighting and sun direction presets.",
+    siteLatitude: "Latitude",
+    siteLongitude: "Longitude",
+    siteDate: "Date",
+    siteTime: "Local Time",
+    siteUtcOffset: "UTC Offset (h)",
+    siteNorth: "North on Sketch (°)",
+    siteWinterSolstice: "Winter Solstice",
+    siteEquinox: "Equinox",
+    siteSummerSolstice: "Summer Solstice",
+    siteAzimuth: "Azimuth",
+    siteAltitude: "Altitude",
+    siteSunBelow: "Sun below the horizon",
+    camera: "Camera",
+    cameraAuto: "From Sketch",
+    cameraEyeLevel: "Eye Level",
+    cameraAerial: "Aerial",
+    cameraWormsEye: "Worm's Eye",
+    cameraDrone: "Drone",
+    focalLength: "Focal Length",
+    depthOfField: "Depth of Field",
+    dofDeep: "Deep",
+    dofNatural: "Natural",
+    dofShallow: "Shallow",
+    verticalCorrection: "Two-point perspective",
+    verticalCorrectionHint: "Keeps vertical lines vertical, like a shift lens.",
+    verticalCorrectionWormsEye: "Not applied to worm's-eye views, which rely on converging verticals.",
+    quality: "Render Quality",
+    qualityDraft: "Draft",
+    qualityStandard: "Standard",
+    qualityHigh: "High",
+    qualityHint: "Images sent up to {size}px. Higher is sharper but slower and uses more quota.",
+    aspectRatio: "Aspect Ratio",
+    aspectAuto: "Auto",
+    framingLetterbox: "Letterbox",
+    framingCrop: "Crop",
+    framingCropWarning: "{percent}% of the sketch is cropped away to fit {ratio}.",
+    framingLetterboxWarning: "{percent}% of the {ratio} frame is blank padding the renderer will fill in.",
+    framingPreview: "Sent to renderer",
     siteContext: "Site Context",
     aerialLabel: "Aerial / Background",
     aerialSub: "(Optional) For composites",
@@ -29,14 +69,54 @@ export const TRANSLATIONS = {
     analyzing: "Analyzing Geometry...",
     generatingImage: "Raytracing...",
     resultReady: "Visualization Ready",
+    analysisLabel: "Scene Analysis",
+    buildingType: "Building Type",
+    massing: "Massing",
+    materials: "Materials",
+    materialsHint: "Comma separated",
+    cameraView: "Camera & View",
+    landscape: "Landscape",
+    mood: "Mood",
+    renderFromAnalysis: "Render from Analysis",
+    reviewAnalysis: "Review analysis first",
+    discardAnalysis: "Discard",
     copy: "Copy Text",
     copied: "Copied",
     copyNote: "Copy this prompt into Midjourney, Stable Diffusion, or your renderer of choice.",
-    uploadClick: "Click to upload",
-    uploadNote: "JPG, PNG up to 10MB",
+    uploadClick: "Click, drop or paste (Ctrl+V)",
+    uploadNote: "JPG, PNG, WebP up to 10MB",
     addMore: "Add more",
+    uploadRejectType: "only JPG, PNG or WebP images are accepted",
+    uploadRejectSize: "larger than 10MB",
+    uploadRejectDimensions: "each side must be between 128 and 8192 px",
+    uploadRejectUnreadable: "the file could not be read as an image",
+    uploadReorder: "Drag to reorder",
+    refRole: "Reference role",
+    refWeight: "Influence",
+    refRoleMaterial: "Material",
+    refRoleLighting: "Lighting / Mood",
+    refRoleLandscape: "Landscape",
+    refRoleEntourage: "Entourage",
+    refRolePalette: "Colour Palette",
     errorSketch: "Main Sketch is required.",
     errorGeneric: "An unexpected error occurred.",
+    renderFailed: "Image Generation Failed",
+    errorGuidance: "What you can try:",
+    errorQuota: "Quota exceeded. The model is rate limited or the daily free tier is used up.",
+    errorQuotaHint: "Wait a minute and try again, render fewer variations at once, or switch to a paid API key.",
+    errorSafety: "The model declined the request under its safety guidelines.",
+    errorSafetyHint: "Simplify the sketch, remove people or text from it, and rephrase the description in neutral terms.",
+    errorNetwork: "Could not reach the rendering service.",
+    errorNetworkHint: "Check your internet connection or VPN, then try again.",
+    errorInvalidInput: "The request or one of the images could not be processed.",
+    errorInvalidInputHint: "Use a PNG or JPEG under 10 MB, make sure the sketch is clearly readable, and shorten very long descriptions.",
+    errorMissingApiKey: "No API key is configured.",
+    errorMissingApiKeyHint: "Set GEMINI_API_KEY in .env.local and restart the app, or switch the render engine to Offline Mock.",
+    errorEmptyResponse: "The model returned an empty or unusable response.",
+    errorEmptyResponseHint: "This is usually temporary. Try again, or add a more specific description of the building.",
+    errorUnknownHint: "Try again. If the problem persists, check the browser console for details.",
+    errorRetryable: "Temporary problem, retrying usually helps.",
+    cancelRun: "Cancel",
     imageResult: "AI Visualization",
     download: "Download",
     editMode: "Edit Image",
@@ -44,20 +124,175 @@ export const TRANSLATIONS = {
     clearMask: "Clear Mask",
     undo: "Undo",
     redo: "Redo",
+    maskToolBrush: "Brush",
+    maskToolEraser: "Eraser",
+    maskToolRect: "Rectangle Select",
+    maskToolEllipse: "Ellipse Select",
+    maskToolLasso: "Polygon Lasso",
+    maskInvert: "Invert",
+    maskFeather: "Feather",
+    maskLassoHint: "Click to add points. Click the first point, double-click or press Enter to close. Esc cancels.",
+    maskToolWand: "Magic Wand",
+    maskTolerance: "Tolerance",
+    maskWandHint: "Click selects similar colours. Shift-click adds, Alt-click subtracts.",
+    maskRegions: "Regions",
+    maskRegionName: "Region {n}",
+    maskAddRegion: "Add Region",
+    maskDeleteRegion: "Delete region",
+    editSequential: "One pass per region",
+    editCombined: "All regions in one pass",
+    editRegionsReady: "{ready}/{total} regions ready",
+    sketchPrepare: "Prepare",
+    sketchPrepareAgain: "Adjust",
+    sketchPrepareTitle: "Prepare Sketch",
+    sketchOriginal: "Original",
+    sketchPreview: "Sent to the renderer",
+    sketchCropHint: "Drag the corners to crop. With perspective on, drag each corner onto a corner of the paper to straighten it.",
+    sketchGeometry: "Geometry",
+    sketchRotateLeft: "Rotate left",
+    sketchRotateRight: "Rotate right",
+    sketchStraighten: "Straighten",
+    sketchPerspective: "Perspective correction",
+    sketchLevels: "Levels",
+    sketchBlackPoint: "Black point",
+    sketchWhitePoint: "White point",
+    sketchContrast: "Contrast",
+    sketchCleanup: "Cleanup",
+    sketchWhiten: "Whiten background",
+    sketchLineWeight: "Thicken lines",
+    sketchReset: "Reset",
+    sketchApply: "Use Prepared Sketch",
+    sketchFailed: "The sketch could not be processed.",
     editPromptPlaceholder: "Describe what to change in the highlighted area...",
     applyEdit: "Apply Changes",
     cancelEdit: "Cancel",
     processingEdit: "Processing Edit...",
     historyLabel: "Generation History",
     historyEmpty: "No history yet. Generate an image to save it here.",
+    historySearch: "Search prompts...",
+    historyNoMatch: "No renders match your search.",
+    historyRestore: "Reuse Inputs",
+    historyDelete: "Delete",
+    historyClear: "Clear All",
+    historyClearConfirm: "Delete all saved renders? This cannot be undone.",
+    historyPage: "Page {page} of {pages}",
+    historyPrev: "Previous",
+    historyNext: "Next",
+    storageUsed: "Storage: {used} of {quota}",
+    storageEvicted: "Browser storage is full. The {count} oldest renders were removed from history.",
+    historyUnavailable: "History could not be saved in this browser.",
     zoomIn: "Click to Zoom",
     close: "Close",
+    projectSave: "Save Project",
+    projectOpen: "Open Project or Render",
+    projectSaveHint: "Bundles the sketch, context and references, all settings, every render with its masks, and the saved history of its lineage into one file.",
+    projectJobNumber: "Job Number",
+    projectName: "Project Name",
+    projectSaveBtn: "Save",
+    projectSaveFailed: "The project could not be saved.",
+    projectOpenFailed: "The project could not be opened.",
+    renderMetadataMissing: "This image carries no EDEN render settings. Only PNGs downloaded from this app can be re-imported.",
+    renderImportFailed: "Could not import the render",
+    boardTitle: "Presentation Board",
+    boardSelectHint: "Pick the renders for the board in the order they should appear.",
+    boardTemplate: "Layout",
+    boardA3: "A3 Landscape",
+    boardA1: "A1 Poster",
+    boardFormat: "Format",
+    boardAuthor: "Author",
+    boardDate: "Date",
+    boardSheet: "Sheet",
+    boardSketch: "Input Sketch",
+    boardPrompt: "Prompt",
+    boardVision: "Design Vision",
+    boardPages: "{count} sheet(s)",
+    boardExport: "Export",
+    boardExportFailed: "The board could not be exported.",
     masterFilterLabel: "Master Photography Filters",
     masterReFilterLabel: "Master Re-Filter",
+    variationsLabel: "Variations",
+    variationCount: "Options",
+    setAsMain: "Set as Main",
+    mainVariation: "Main",
+    variationPending: "Rendering...",
+    sweepLabel: "Atmosphere Sweep",
+    sweepHint: "Tick several values per axis to render every combination.",
+    sweepRun: "Render Matrix ({count})",
+    sweepTooMany: "Up to {max} renders per sweep.",
+    contactSheetLabel: "Contact Sheet",
+    exportSheet: "Export Sheet",
+    sweepTitle: "Atmosphere Study",
     adLabel: "Recommended Items",
     adTitle: "3D Modeling & Rendering Services",
     adDesc: "Professional 3D modeling, drafting, and high-quality rendering production.",
     visitShop: "Shop Now",
+    renderEngine: "Render Engine",
+    templatesTitle: "Prompt Templates",
+    templateSlotAnalyze: "Scene Analysis",
+    templateSlotRender: "Image Generation",
+    templateSlotStyle: "Master Style Filter",
+    templateSlotEdit: "Inpainting Edit",
+    templateSlotEnhance: "Upscale Detail",
+    templateSlotRefine: "Prompt Refinement",
+    templateInUse: "In use",
+    templateUse: "Use this template",
+    templateDuplicate: "Duplicate",
+    templateCopySuffix: "copy",
+    templateDelete: "Delete",
+    templateDeleteConfirm: "Delete this template and all of its versions?",
+    templateSave: "Save as new version",
+    templateName: "Name",
+    templateBuiltIn: "Built-in templates are read-only. Duplicate it to make your own.",
+    templateVersions: "Versions",
+    templateRestore: "Load",
+    templateVariables: "Variables",
+    templateVariablesHint: "Click to insert. Add a fallback with {{name|text}}.",
+    templateUnsaved: "Unsaved changes",
+    stylesTitle: "Master Style Library",
+    styleNew: "New Style",
+    styleEdit: "Edit",
+    styleDelete: "Delete",
+    styleDeleteConfirm: "Delete this style?",
+    styleBuiltIn: "Built-in",
+    styleMoveUp: "Move up",
+    styleMoveDown: "Move down",
+    styleLabels: "Label per language",
+    stylePrompt: "Style prompt",
+    styleIcon: "Icon",
+    styleThumbnail: "Thumbnail",
+    styleThumbnailUpload: "Upload",
+    styleThumbnailRemove: "Remove",
+    styleSave: "Save Style",
+    styleCancel: "Cancel",
+    styleImport: "Import Pack",
+    styleExport: "Export Pack",
+    styleImported: "Imported {count} styles.",
+    styleStorageFull: "Browser storage is full. Remove thumbnails or unused styles and try again.",
+    lineageLabel: "Lineage",
+    lineageHint: "Every filter and edit branches off the image it was applied to. Pick any step to continue from there.",
+    opGenerate: "Render",
+    opMasterStyle: "Master Style",
+    opInpaintEdit: "Inpaint Edit",
+    opUpscale: "Upscale",
+    upscaleHint: "Upscale for print: enhances the render tile by tile and downloads it",
+    upscaling: "Upscaling {done}/{total}",
+    upscalePartial: "{failed} of {total} tiles could not be enhanced and were kept as a plain enlargement.",
+    lineageBranch: "Branch from here",
+    lineageCurrent: "Current",
+    compareLabel: "Compare",
+    compareTitle: "Comparison",
+    compareSplit: "Split",
+    compareOnion: "Onion Skin",
+    compareSideBySide: "Side by Side",
+    compareOpacity: "Blend",
+    compareSketch: "Sketch",
+    compareRender: "Render",
+    compareOriginal: "Original",
+    compareStyled: "Master Filtered",
+    comparePrevious: "Previous step",
+    compareWithSketch: "vs Sketch",
+    compareWithOriginal: "vs Original",
+    historyComparePick: "Pick a second render to compare with",
     [LightingTime.Sunny]: "Sunny",
     [LightingTime.Sunset]: "Sunset",
     [LightingTime.Night]: "Night",
@@ -85,6 +320,46 @@ export const TRANSLATIONS = {
     lighting: "光照時間",
     sunDirection: "太陽方位",
     weather: "天氣狀況",
+    siteSun: "基地日照",
+    siteSunHint: "依基地位置、日期與時間計算真實太陽位置，取代光線與太陽方向預設。",
+    siteLatitude: "緯度",
+    siteLongitude: "經度",
+    siteDate: "日期",
+    siteTime: "當地時間",
+    siteUtcOffset: "時區 (UTC ±h)",
+    siteNorth: "草圖北向 (°)",
+    siteWinterSolstice: "冬至",
+    siteEquinox: "春分",
+    siteSummerSolstice: "夏至",
+    siteAzimuth: "方位角",
+    siteAltitude: "高度角",
+    siteSunBelow: "太陽位於地平線下",
+    camera: "相機",
+    cameraAuto: "依草圖",
+    cameraEyeLevel: "人視角",
+    cameraAerial: "鳥瞰",
+    cameraWormsEye: "仰視",
+    cameraDrone: "空拍",
+    focalLength: "焦距",
+    depthOfField: "景深",
+    dofDeep: "全景清晰",
+    dofNatural: "自然",
+    dofShallow: "淺景深",
+    verticalCorrection: "兩點透視校正",
+    verticalCorrectionHint: "保持垂直線垂直，如同移軸鏡頭。",
+    verticalCorrectionWormsEye: "仰視角依賴垂直線匯聚，不套用此校正。",
+    quality: "輸出品質",
+    qualityDraft: "草稿",
+    qualityStandard: "標準",
+    qualityHigh: "高",
+    qualityHint: "上傳影像最長邊 {size}px。越高越清晰，但較慢且耗用更多額度。",
+    aspectRatio: "畫面比例",
+    aspectAuto: "自動",
+    framingLetterbox: "留白補邊",
+    framingCrop: "裁切",
+    framingCropWarning: "為符合 {ratio}，草圖將被裁掉 {percent}%。",
+    framingLetterboxWarning: "{ratio} 畫面中有 {percent}% 為空白補邊，將由算圖自行補齊。",
+    framingPreview: "送出畫面",
     siteContext: "基地環境",
     aerialLabel: "空拍圖 / 背景",
     aerialSub: "（選填）用於合成",
@@ -99,14 +374,54 @@ export const TRANSLATIONS = {
     analyzing: "分析幾何中...",
     generatingImage: "光線追蹤運算中...",
     resultReady: "視覺化已就緒",
+    analysisLabel: "場景分析",
+    buildingType: "建築類型",
+    massing: "量體",
+    materials: "材質",
+    materialsHint: "以逗號分隔",
+    cameraView: "相機與視角",
+    landscape: "景觀",
+    mood: "氛圍",
+    renderFromAnalysis: "依分析渲染",
+    reviewAnalysis: "先檢查分析結果",
+    discardAnalysis: "捨棄",
     copy: "複製文字",
     copied: "已複製",
     copyNote: "將此提示詞複製到 Midjourney、Stable Diffusion 或您選擇的渲染器中。",
-    uploadClick: "點擊上傳",
-    uploadNote: "JPG, PNG 最大 10MB",
+    uploadClick: "點擊、拖放或貼上 (Ctrl+V)",
+    uploadNote: "JPG, PNG, WebP 最大 10MB",
     addMore: "新增更多",
+    uploadRejectType: "僅接受 JPG、PNG 或 WebP 圖片",
+    uploadRejectSize: "超過 10MB",
+    uploadRejectDimensions: "每邊須介於 128 至 8192 像素之間",
+    uploadRejectUnreadable: "無法讀取為圖片",
+    uploadReorder: "拖曳以調整順序",
+    refRole: "參考用途",
+    refWeight: "影響程度",
+    refRoleMaterial: "材質",
+    refRoleLighting: "光線 / 氛圍",
+    refRoleLandscape: "景觀",
+    refRoleEntourage: "配景",
+    refRolePalette: "色彩配置",
     errorSketch: "主體草圖為必填項目。",
     errorGeneric: "發生未預期的錯誤。",
+    renderFailed: "圖像生成失敗",
+    errorGuidance: "建議處理方式：",
+    errorQuota: "已超出配額。模型受到速率限制，或每日免費額度已用完。",
+    errorQuotaHint: "請稍候一分鐘再試，減少同時生成的變體數量，或改用付費 API 金鑰。",
+    errorSafety: "模型依安全規範拒絕了此請求。",
+    errorSafetyHint: "簡化草圖，移除其中的人物或文字，並以中性措辭重新描述。",
+    errorNetwork: "無法連線至算圖服務。",
+    errorNetworkHint: "請檢查網路連線或 VPN 後再試一次。",
+    errorInvalidInput: "無法處理此請求或其中一張圖片。",
+    errorInvalidInputHint: "請使用 10 MB 以下的 PNG 或 JPEG，確認草圖清晰可辨，並縮短過長的描述。",
+    errorMissingApiKey: "尚未設定 API 金鑰。",
+    errorMissingApiKeyHint: "請在 .env.local 中設定 GEMINI_API_KEY 並重新啟動，或將算圖引擎切換為 Offline Mock。",
+    errorEmptyResponse: "模型回傳了空白或無法使用的結果。",
+    errorEmptyResponseHint: "通常只是暫時狀況。請再試一次，或補充更具體的建築描述。",
+    errorUnknownHint: "請再試一次。若問題持續，請查看瀏覽器主控台的詳細資訊。",
+    errorRetryable: "暫時性問題，重試通常即可解決。",
+    cancelRun: "取消",
     imageResult: "AI 渲染預覽",
     download: "下載圖片",
     editMode: "局部修改",
@@ -114,20 +429,175 @@ export const TRANSLATIONS = {
     clearMask: "清除選取",
     undo: "復原",
     redo: "重做",
+    maskToolBrush: "筆刷",
+    maskToolEraser: "橡皮擦",
+    maskToolRect: "矩形選取",
+    maskToolEllipse: "橢圓選取",
+    maskToolLasso: "多邊形套索",
+    maskInvert: "反轉選取",
+    maskFeather: "羽化",
+    maskLassoHint: "點擊加入節點，點回起點、雙擊或按 Enter 封閉，Esc 取消。",
+    maskToolWand: "魔術棒",
+    maskTolerance: "容許度",
+    maskWandHint: "點擊選取相近顏色，Shift 點擊加入、Alt 點擊扣除。",
+    maskRegions: "區域",
+    maskRegionName: "區域 {n}",
+    maskAddRegion: "新增區域",
+    maskDeleteRegion: "刪除區域",
+    editSequential: "逐區處理",
+    editCombined: "一次處理全部區域",
+    editRegionsReady: "{ready}/{total} 個區域就緒",
+    sketchPrepare: "前處理",
+    sketchPrepareAgain: "調整",
+    sketchPrepareTitle: "草圖前處理",
+    sketchOriginal: "原始圖",
+    sketchPreview: "實際送出的影像",
+    sketchCropHint: "拖曳四角裁切。開啟透視校正後，將各角拖到紙張的角落即可拉正。",
+    sketchGeometry: "幾何",
+    sketchRotateLeft: "向左旋轉",
+    sketchRotateRight: "向右旋轉",
+    sketchStraighten: "微調角度",
+    sketchPerspective: "透視校正",
+    sketchLevels: "色階",
+    sketchBlackPoint: "黑點",
+    sketchWhitePoint: "白點",
+    sketchContrast: "對比",
+    sketchCleanup: "清理",
+    sketchWhiten: "背景漂白",
+    sketchLineWeight: "加粗線條",
+    sketchReset: "重設",
+    sketchApply: "使用處理後草圖",
+    sketchFailed: "草圖處理失敗。",
     editPromptPlaceholder: "描述要如何在選取區域進行修改...",
     applyEdit: "套用修改",
     cancelEdit: "取消",
     processingEdit: "處理修改中...",
     historyLabel: "生成歷史紀錄",
     historyEmpty: "尚無紀錄。生成的圖像將會儲存在這裡。",
+    historySearch: "搜尋提示詞...",
+    historyNoMatch: "沒有符合搜尋的渲染結果。",
+    historyRestore: "沿用設定",
+    historyDelete: "刪除",
+    historyClear: "全部清除",
+    historyClearConfirm: "確定刪除所有已儲存的渲染結果？此操作無法復原。",
+    historyPage: "第 {page} / {pages} 頁",
+    historyPrev: "上一頁",
+    historyNext: "下一頁",
+    storageUsed: "儲存空間：{used} / {quota}",
+    storageEvicted: "瀏覽器儲存空間已滿，已移除最舊的 {count} 筆渲染紀錄。",
+    historyUnavailable: "此瀏覽器無法儲存歷史紀錄。",
     zoomIn: "點擊放大檢視",
     close: "關閉",
+    projectSave: "儲存專案",
+    projectOpen: "開啟專案或渲染圖",
+    projectSaveHint: "將草圖、基地與參考圖、所有設定、每張算圖與遮罩，以及其演進歷史打包成單一檔案。",
+    projectJobNumber: "案號",
+    projectName: "專案名稱",
+    projectSaveBtn: "儲存",
+    projectSaveFailed: "無法儲存專案。",
+    projectOpenFailed: "無法開啟專案。",
+    renderMetadataMissing: "此圖片不含 EDEN 渲染設定。僅能匯入從本應用程式下載的 PNG。",
+    renderImportFailed: "無法匯入渲染圖",
+    boardTitle: "簡報圖板",
+    boardSelectHint: "依出現順序點選要放上圖板的算圖。",
+    boardTemplate: "版型",
+    boardA3: "A3 橫式",
+    boardA1: "A1 海報",
+    boardFormat: "格式",
+    boardAuthor: "製圖者",
+    boardDate: "日期",
+    boardSheet: "圖號",
+    boardSketch: "原始草圖",
+    boardPrompt: "提示詞",
+    boardVision: "設計構想",
+    boardPages: "共 {count} 張",
+    boardExport: "匯出",
+    boardExportFailed: "無法匯出圖板。",
     masterFilterLabel: "大師級攝影濾鏡",
     masterReFilterLabel: "大師再濾鏡",
+    variationsLabel: "多方案比較",
+    variationCount: "方案數",
+    setAsMain: "設為主圖",
+    mainVariation: "主圖",
+    variationPending: "渲染中...",
+    sweepLabel: "氛圍矩陣",
+    sweepHint: "每個項目可勾選多個數值，將渲染所有組合。",
+    sweepRun: "渲染矩陣（{count} 張）",
+    sweepTooMany: "每次矩陣最多 {max} 張。",
+    contactSheetLabel: "氛圍比較表",
+    exportSheet: "匯出比較表",
+    sweepTitle: "氛圍研究",
     adLabel: "好物推薦",
     adTitle: "3d建模 模型 建模 3d繪圖 效果圖製作",
     adDesc: "專業3D建模、代工繪圖與高擬真效果圖製作服務。",
     visitShop: "前往賣場",
+    renderEngine: "渲染引擎",
+    templatesTitle: "提示詞範本",
+    templateSlotAnalyze: "場景分析",
+    templateSlotRender: "圖像生成",
+    templateSlotStyle: "大師風格濾鏡",
+    templateSlotEdit: "局部重繪",
+    templateSlotEnhance: "放大細節",
+    templateSlotRefine: "提示詞優化",
+    templateInUse: "使用中",
+    templateUse: "使用此範本",
+    templateDuplicate: "複製",
+    templateCopySuffix: "副本",
+    templateDelete: "刪除",
+    templateDeleteConfirm: "確定刪除此範本及其所有版本？",
+    templateSave: "儲存為新版本",
+    templateName: "名稱",
+    templateBuiltIn: "內建範本為唯讀，請複製後再自訂。",
+    templateVersions: "版本紀錄",
+    templateRestore: "載入",
+    templateVariables: "變數",
+    templateVariablesHint: "點擊即可插入。可用 {{name|text}} 設定預設值。",
+    templateUnsaved: "尚未儲存",
+    stylesTitle: "大師風格庫",
+    styleNew: "新增風格",
+    styleEdit: "編輯",
+    styleDelete: "刪除",
+    styleDeleteConfirm: "確定刪除此風格？",
+    styleBuiltIn: "內建",
+    styleMoveUp: "上移",
+    styleMoveDown: "下移",
+    styleLabels: "各語言名稱",
+    stylePrompt: "風格提示詞",
+    styleIcon: "圖示",
+    styleThumbnail: "縮圖",
+    styleThumbnailUpload: "上傳",
+    styleThumbnailRemove: "移除",
+    styleSave: "儲存風格",
+    styleCancel: "取消",
+    styleImport: "匯入風格包",
+    styleExport: "匯出風格包",
+    styleImported: "已匯入 {count} 個風格。",
+    styleStorageFull: "瀏覽器儲存空間已滿，請移除縮圖或不用的風格後再試。",
+    lineageLabel: "衍生歷程",
+    lineageHint: "每次濾鏡與編輯都會從套用的圖像分支出來。選擇任一步驟即可從該處繼續。",
+    opGenerate: "生成",
+    opMasterStyle: "大師風格",
+    opInpaintEdit: "局部重繪",
+    opUpscale: "放大輸出",
+    upscaleHint: "放大輸出：逐塊增強細節後下載",
+    upscaling: "放大中 {done}/{total}",
+    upscalePartial: "{total} 塊中有 {failed} 塊無法增強，已保留為一般放大。",
+    lineageBranch: "從此分支",
+    lineageCurrent: "目前",
+    compareLabel: "比較",
+    compareTitle: "前後對照",
+    compareSplit: "分割滑桿",
+    compareOnion: "透明疊圖",
+    compareSideBySide: "並排",
+    compareOpacity: "混合",
+    compareSketch: "草圖",
+    compareRender: "算圖",
+    compareOriginal: "原始",
+    compareStyled: "大師濾鏡",
+    comparePrevious: "上一步",
+    compareWithSketch: "對照草圖",
+    compareWithOriginal: "對照原圖",
+    historyComparePick: "請再選擇一張要比較的算圖",
     [LightingTime.Sunny]: "晴天",
     [LightingTime.Sunset]: "日落",
     [LightingTime.Night]: "夜晚",
@@ -155,6 +625,46 @@ export const TRANSLATIONS = {
     lighting: "照明時間",
     sunDirection: "太陽の方向",
     weather: "天気",
+    siteSun: "敷地の太陽",
+    siteSunHint: "敷地の位置・日付・時刻から実際の太陽位置を計算し、照明と太陽方向のプリセットに代わります。",
+    siteLatitude: "緯度",
+    siteLongitude: "経度",
+    siteDate: "日付",
+    siteTime: "現地時刻",
+    siteUtcOffset: "UTC との差 (時間)",
+    siteNorth: "スケッチ上の北 (°)",
+    siteWinterSolstice: "冬至",
+    siteEquinox: "春分",
+    siteSummerSolstice: "夏至",
+    siteAzimuth: "方位角",
+    siteAltitude: "高度",
+    siteSunBelow: "太陽は地平線の下です",
+    camera: "カメラ",
+    cameraAuto: "スケッチ通り",
+    cameraEyeLevel: "アイレベル",
+    cameraAerial: "鳥瞰",
+    cameraWormsEye: "あおり",
+    cameraDrone: "ドローン",
+    focalLength: "焦点距離",
+    depthOfField: "被写界深度",
+    dofDeep: "深い",
+    dofNatural: "自然",
+    dofShallow: "浅い",
+    verticalCorrection: "2点透視補正",
+    verticalCorrectionHint: "シフトレンズのように垂直線をまっすぐ保ちます。",
+    verticalCorrectionWormsEye: "あおりの構図は垂直線の収束を活かすため適用されません。",
+    quality: "レンダー品質",
+    qualityDraft: "ドラフト",
+    qualityStandard: "標準",
+    qualityHigh: "高",
+    qualityHint: "送信画像は最大 {size}px。高いほど鮮明ですが、遅くなり使用量も増えます。",
+    aspectRatio: "アスペクト比",
+    aspectAuto: "自動",
+    framingLetterbox: "余白で補う",
+    framingCrop: "トリミング",
+    framingCropWarning: "{ratio} に合わせるため、スケッチの {percent}% がトリミングされます。",
+    framingLetterboxWarning: "{ratio} の画面の {percent}% は余白で、レンダラーが補完します。",
+    framingPreview: "送信される画像",
     siteContext: "敷地コンテキスト",
     aerialLabel: "航空写真 / 背景",
     aerialSub: "（任意）合成用",
@@ -169,14 +679,54 @@ export const TRANSLATIONS = {
     analyzing: "形状を分析中...",
     generatingImage: "レイトレーシング中...",
     resultReady: "生成完了",
+    analysisLabel: "シーン分析",
+    buildingType: "建物種別",
+    massing: "ボリューム",
+    materials: "素材",
+    materialsHint: "カンマ区切り",
+    cameraView: "カメラと視点",
+    landscape: "ランドスケープ",
+    mood: "ムード",
+    renderFromAnalysis: "分析からレンダリング",
+    reviewAnalysis: "先に分析を確認",
+    discardAnalysis: "破棄",
     copy: "コピー",
     copied: "コピー完了",
     copyNote: "このプロンプトをMidjourney、Stable Diffusion、またはお好みのレンダラーにコピーしてください。",
-    uploadClick: "クリックしてアップロード",
-    uploadNote: "JPG, PNG 最大 10MB",
+    uploadClick: "クリック、ドロップまたは貼り付け (Ctrl+V)",
+    uploadNote: "JPG, PNG, WebP 最大 10MB",
     addMore: "追加",
+    uploadRejectType: "JPG、PNG、WebP 画像のみ対応しています",
+    uploadRejectSize: "10MB を超えています",
+    uploadRejectDimensions: "各辺は 128〜8192 px である必要があります",
+    uploadRejectUnreadable: "画像として読み込めませんでした",
+    uploadReorder: "ドラッグして並べ替え",
+    refRole: "参照の役割",
+    refWeight: "影響度",
+    refRoleMaterial: "素材",
+    refRoleLighting: "光 / ムード",
+    refRoleLandscape: "ランドスケープ",
+    refRoleEntourage: "添景",
+    refRolePalette: "カラーパレット",
     errorSketch: "メインスケッチは必須です。",
     errorGeneric: "予期しないエラーが発生しました。",
+    renderFailed: "画像生成に失敗しました",
+    errorGuidance: "対処方法：",
+    errorQuota: "クォータを超過しました。レート制限中か、1日の無料枠を使い切りました。",
+    errorQuotaHint: "1分ほど待ってから再試行するか、同時に生成するバリエーションを減らすか、有料のAPIキーに切り替えてください。",
+    errorSafety: "モデルが安全ガイドラインに基づきリクエストを拒否しました。",
+    errorSafetyHint: "スケッチを簡略化し、人物や文字を取り除き、説明を中立的な表現に書き換えてください。",
+    errorNetwork: "レンダリングサービスに接続できませんでした。",
+    errorNetworkHint: "インターネット接続やVPNを確認してから再試行してください。",
+    errorInvalidInput: "リクエストまたは画像のいずれかを処理できませんでした。",
+    errorInvalidInputHint: "10MB未満のPNGまたはJPEGを使用し、スケッチがはっきり読み取れることを確認し、長すぎる説明は短くしてください。",
+    errorMissingApiKey: "APIキーが設定されていません。",
+    errorMissingApiKeyHint: ".env.localにGEMINI_API_KEYを設定してアプリを再起動するか、レンダーエンジンをOffline Mockに切り替えてください。",
+    errorEmptyResponse: "モデルが空または使用できない応答を返しました。",
+    errorEmptyResponseHint: "通常は一時的なものです。再試行するか、建物の説明をより具体的にしてください。",
+    errorUnknownHint: "再試行してください。問題が続く場合は、ブラウザのコンソールで詳細を確認してください。",
+    errorRetryable: "一時的な問題です。再試行で解決することが多いです。",
+    cancelRun: "キャンセル",
     imageResult: "AIレンダリング",
     download: "ダウンロード",
     editMode: "部分編集",
@@ -184,20 +734,175 @@ export const TRANSLATIONS = {
     clearMask: "マスク消去",
     undo: "元に戻す",
     redo: "やり直し",
+    maskToolBrush: "ブラシ",
+    maskToolEraser: "消しゴム",
+    maskToolRect: "矩形選択",
+    maskToolEllipse: "楕円選択",
+    maskToolLasso: "多角形選択",
+    maskInvert: "選択範囲を反転",
+    maskFeather: "ぼかし",
+    maskLassoHint: "クリックで点を追加。始点をクリック、ダブルクリック、または Enter で閉じ、Esc で取消。",
+    maskToolWand: "自動選択",
+    maskTolerance: "許容値",
+    maskWandHint: "クリックで近い色を選択。Shift+クリックで追加、Alt+クリックで除外。",
+    maskRegions: "領域",
+    maskRegionName: "領域 {n}",
+    maskAddRegion: "領域を追加",
+    maskDeleteRegion: "領域を削除",
+    editSequential: "領域ごとに順番に処理",
+    editCombined: "全領域を一度に処理",
+    editRegionsReady: "{ready}/{total} 領域が準備完了",
+    sketchPrepare: "前処理",
+    sketchPrepareAgain: "調整",
+    sketchPrepareTitle: "スケッチの前処理",
+    sketchOriginal: "元画像",
+    sketchPreview: "送信される画像",
+    sketchCropHint: "四隅をドラッグしてトリミング。遠近補正をオンにし、各隅を紙の角に合わせると歪みを補正します。",
+    sketchGeometry: "ジオメトリ",
+    sketchRotateLeft: "左に回転",
+    sketchRotateRight: "右に回転",
+    sketchStraighten: "傾き補正",
+    sketchPerspective: "遠近補正",
+    sketchLevels: "レベル",
+    sketchBlackPoint: "黒点",
+    sketchWhitePoint: "白点",
+    sketchContrast: "コントラスト",
+    sketchCleanup: "クリーンアップ",
+    sketchWhiten: "背景を白く",
+    sketchLineWeight: "線を太く",
+    sketchReset: "リセット",
+    sketchApply: "処理済みスケッチを使用",
+    sketchFailed: "スケッチを処理できませんでした。",
     editPromptPlaceholder: "選択範囲の変更内容を記述...",
     applyEdit: "変更を適用",
     cancelEdit: "キャンセル",
     processingEdit: "編集処理中...",
     historyLabel: "生成履歴",
     historyEmpty: "履歴はありません。生成された画像はここに保存されます。",
+    historySearch: "プロンプトを検索...",
+    historyNoMatch: "検索に一致するレンダリングはありません。",
+    historyRestore: "入力を再利用",
+    historyDelete: "削除",
+    historyClear: "すべて削除",
+    historyClearConfirm: "保存されたすべてのレンダリングを削除しますか？元に戻せません。",
+    historyPage: "{page} / {pages} ページ",
+    historyPrev: "前へ",
+    historyNext: "次へ",
+    storageUsed: "ストレージ：{used} / {quota}",
+    storageEvicted: "ブラウザのストレージが一杯です。古いレンダリング {count} 件を履歴から削除しました。",
+    historyUnavailable: "このブラウザでは履歴を保存できません。",
     zoomIn: "クリックして拡大",
     close: "閉じる",
+    projectSave: "プロジェクトを保存",
+    projectOpen: "プロジェクトまたはレンダーを開く",
+    projectSaveHint: "スケッチ、敷地・参考画像、すべての設定、各レンダーとマスク、系譜の履歴を1つのファイルにまとめます。",
+    projectJobNumber: "案件番号",
+    projectName: "プロジェクト名",
+    projectSaveBtn: "保存",
+    projectSaveFailed: "プロジェクトを保存できませんでした。",
+    projectOpenFailed: "プロジェクトを開けませんでした。",
+    renderMetadataMissing: "この画像には EDEN のレンダー設定が含まれていません。再読み込みできるのはこのアプリからダウンロードした PNG のみです。",
+    renderImportFailed: "レンダーを読み込めませんでした",
+    boardTitle: "プレゼンボード",
+    boardSelectHint: "ボードに載せるレンダーを表示順に選んでください。",
+    boardTemplate: "レイアウト",
+    boardA3: "A3 横",
+    boardA1: "A1 ポスター",
+    boardFormat: "形式",
+    boardAuthor: "作成者",
+    boardDate: "日付",
+    boardSheet: "シート",
+    boardSketch: "入力スケッチ",
+    boardPrompt: "プロンプト",
+    boardVision: "デザイン意図",
+    boardPages: "{count} シート",
+    boardExport: "書き出し",
+    boardExportFailed: "ボードを書き出せませんでした。",
     masterFilterLabel: "マスターグレード写真フィルター",
     masterReFilterLabel: "マスター再フィルター",
+    variationsLabel: "バリエーション",
+    variationCount: "案数",
+    setAsMain: "メインに設定",
+    mainVariation: "メイン",
+    variationPending: "レンダリング中...",
+    sweepLabel: "アトモスフィア比較",
+    sweepHint: "各項目で複数の値を選ぶと、すべての組み合わせをレンダリングします。",
+    sweepRun: "マトリクス生成（{count} 枚）",
+    sweepTooMany: "1回の比較は最大 {max} 枚です。",
+    contactSheetLabel: "コンタクトシート",
+    exportSheet: "シートを書き出し",
+    sweepTitle: "アトモスフィアスタディ",
     adLabel: "おすすめアイテム",
     adTitle: "3Dモデリング・レンダリング制作",
     adDesc: "プロフェッショナルな3Dモデリング、製図、高品質なパース制作。",
     visitShop: "ショップへ移動",
+    renderEngine: "レンダリングエンジン",
+    templatesTitle: "プロンプトテンプレート",
+    templateSlotAnalyze: "シーン分析",
+    templateSlotRender: "画像生成",
+    templateSlotStyle: "マスタースタイルフィルター",
+    templateSlotEdit: "インペイント編集",
+    templateSlotEnhance: "アップスケール補強",
+    templateSlotRefine: "プロンプト最適化",
+    templateInUse: "使用中",
+    templateUse: "このテンプレートを使用",
+    templateDuplicate: "複製",
+    templateCopySuffix: "コピー",
+    templateDelete: "削除",
+    templateDeleteConfirm: "このテンプレートとすべてのバージョンを削除しますか？",
+    templateSave: "新しいバージョンとして保存",
+    templateName: "名前",
+    templateBuiltIn: "組み込みテンプレートは読み取り専用です。複製して編集してください。",
+    templateVersions: "バージョン",
+    templateRestore: "読み込む",
+    templateVariables: "変数",
+    templateVariablesHint: "クリックで挿入。{{name|text}} で既定値を指定できます。",
+    templateUnsaved: "未保存の変更",
+    stylesTitle: "マスタースタイルライブラリ",
+    styleNew: "新規スタイル",
+    styleEdit: "編集",
+    styleDelete: "削除",
+    styleDeleteConfirm: "このスタイルを削除しますか？",
+    styleBuiltIn: "組み込み",
+    styleMoveUp: "上へ",
+    styleMoveDown: "下へ",
+    styleLabels: "言語ごとの名前",
+    stylePrompt: "スタイルプロンプト",
+    styleIcon: "アイコン",
+    styleThumbnail: "サムネイル",
+    styleThumbnailUpload: "アップロード",
+    styleThumbnailRemove: "削除",
+    styleSave: "スタイルを保存",
+    styleCancel: "キャンセル",
+    styleImport: "パックを読み込む",
+    styleExport: "パックを書き出す",
+    styleImported: "{count} 件のスタイルを読み込みました。",
+    styleStorageFull: "ブラウザのストレージがいっぱいです。サムネイルや不要なスタイルを削除して再試行してください。",
+    lineageLabel: "派生履歴",
+    lineageHint: "フィルターや編集は適用元の画像から分岐します。任意のステップを選んでそこから続けられます。",
+    opGenerate: "生成",
+    opMasterStyle: "マスタースタイル",
+    opInpaintEdit: "インペイント編集",
+    opUpscale: "アップスケール",
+    upscaleHint: "印刷用に拡大：タイルごとに補強してダウンロード",
+    upscaling: "拡大中 {done}/{total}",
+    upscalePartial: "{total} タイル中 {failed} タイルは補強できず、単純拡大のままです。",
+    lineageBranch: "ここから分岐",
+    lineageCurrent: "現在",
+    compareLabel: "比較",
+    compareTitle: "比較ビュー",
+    compareSplit: "スライダー",
+    compareOnion: "オニオンスキン",
+    compareSideBySide: "並べて表示",
+    compareOpacity: "ブレンド",
+    compareSketch: "スケッチ",
+    compareRender: "レンダー",
+    compareOriginal: "オリジナル",
+    compareStyled: "マスターフィルター",
+    comparePrevious: "前のステップ",
+    compareWithSketch: "スケッチと比較",
+    compareWithOriginal: "オリジナルと比較",
+    historyComparePick: "比較するもう1枚のレンダーを選んでください",
     [LightingTime.Sunny]: "晴れ",
     [LightingTime.Sunset]: "夕方",
     [LightingTime.Night]: "夜",
@@ -225,6 +930,46 @@ export const TRANSLATIONS = {
     lighting: "조명 시간",
     sunDirection: "태양 방향",
     weather: "날씨",
+    siteSun: "부지 태양",
+    siteSunHint: "부지 위치, 날짜, 시간으로 실제 태양 위치를 계산하여 조명 및 태양 방향 프리셋을 대체합니다.",
+    siteLatitude: "위도",
+    siteLongitude: "경도",
+    siteDate: "날짜",
+    siteTime: "현지 시간",
+    siteUtcOffset: "UTC 오프셋 (시간)",
+    siteNorth: "스케치상 북쪽 (°)",
+    siteWinterSolstice: "동지",
+    siteEquinox: "춘분",
+    siteSummerSolstice: "하지",
+    siteAzimuth: "방위각",
+    siteAltitude: "고도",
+    siteSunBelow: "태양이 지평선 아래에 있습니다",
+    camera: "카메라",
+    cameraAuto: "스케치 기준",
+    cameraEyeLevel: "눈높이",
+    cameraAerial: "조감",
+    cameraWormsEye: "앙시",
+    cameraDrone: "드론",
+    focalLength: "초점 거리",
+    depthOfField: "피사계 심도",
+    dofDeep: "깊게",
+    dofNatural: "자연스럽게",
+    dofShallow: "얕게",
+    verticalCorrection: "2점 투시 보정",
+    verticalCorrectionHint: "시프트 렌즈처럼 수직선을 수직으로 유지합니다.",
+    verticalCorrectionWormsEye: "앙시 구도는 수직선 수렴을 활용하므로 적용되지 않습니다.",
+    quality: "렌더 품질",
+    qualityDraft: "초안",
+    qualityStandard: "표준",
+    qualityHigh: "높음",
+    qualityHint: "전송 이미지는 최대 {size}px입니다. 높을수록 선명하지만 느리고 사용량이 늘어납니다.",
+    aspectRatio: "화면 비율",
+    aspectAuto: "자동",
+    framingLetterbox: "여백 채움",
+    framingCrop: "자르기",
+    framingCropWarning: "{ratio}에 맞추기 위해 스케치의 {percent}%가 잘립니다.",
+    framingLetterboxWarning: "{ratio} 화면의 {percent}%는 빈 여백이며 렌더러가 채웁니다.",
+    framingPreview: "전송 이미지",
     siteContext: "사이트 컨텍스트",
     aerialLabel: "항공 사진 / 배경",
     aerialSub: "(선택 사항) 합성용",
@@ -239,14 +984,54 @@ export const TRANSLATIONS = {
     analyzing: "지오메트리 분석 중...",
     generatingImage: "레이트레이싱 중...",
     resultReady: "시각화 완료",
+    analysisLabel: "장면 분석",
+    buildingType: "건물 유형",
+    massing: "매스",
+    materials: "재료",
+    materialsHint: "쉼표로 구분",
+    cameraView: "카메라 및 시점",
+    landscape: "조경",
+    mood: "분위기",
+    renderFromAnalysis: "분석으로 렌더링",
+    reviewAnalysis: "분석 먼저 검토",
+    discardAnalysis: "취소",
     copy: "텍스트 복사",
     copied: "복사됨",
     copyNote: "이 프롬프트를 Midjourney, Stable Diffusion 또는 선택한 렌더러에 복사하세요.",
-    uploadClick: "업로드하려면 클릭",
-    uploadNote: "JPG, PNG 최대 10MB",
+    uploadClick: "클릭, 드롭 또는 붙여넣기 (Ctrl+V)",
+    uploadNote: "JPG, PNG, WebP 최대 10MB",
     addMore: "더 추가",
+    uploadRejectType: "JPG, PNG 또는 WebP 이미지만 지원됩니다",
+    uploadRejectSize: "10MB를 초과합니다",
+    uploadRejectDimensions: "각 변은 128~8192px 사이여야 합니다",
+    uploadRejectUnreadable: "이미지로 읽을 수 없습니다",
+    uploadReorder: "드래그하여 순서 변경",
+    refRole: "참조 역할",
+    refWeight: "영향도",
+    refRoleMaterial: "재료",
+    refRoleLighting: "조명 / 분위기",
+    refRoleLandscape: "조경",
+    refRoleEntourage: "점경",
+    refRolePalette: "색상 팔레트",
     errorSketch: "메인 스케치는 필수입니다.",
     errorGeneric: "예기치 않은 오류가 발생했습니다.",
+    renderFailed: "이미지 생성 실패",
+    errorGuidance: "해결 방법:",
+    errorQuota: "할당량을 초과했습니다. 속도 제한 중이거나 일일 무료 할당량이 소진되었습니다.",
+    errorQuotaHint: "1분 정도 기다린 후 다시 시도하거나, 한 번에 생성하는 변형 수를 줄이거나, 유료 API 키로 전환하세요.",
+    errorSafety: "모델이 안전 지침에 따라 요청을 거부했습니다.",
+    errorSafetyHint: "스케치를 단순화하고 사람이나 글자를 제거한 뒤 설명을 중립적인 표현으로 바꿔 보세요.",
+    errorNetwork: "렌더링 서비스에 연결할 수 없습니다.",
+    errorNetworkHint: "인터넷 연결 또는 VPN을 확인한 후 다시 시도하세요.",
+    errorInvalidInput: "요청 또는 이미지 중 하나를 처리할 수 없습니다.",
+    errorInvalidInputHint: "10MB 미만의 PNG 또는 JPEG를 사용하고, 스케치가 선명한지 확인하며, 너무 긴 설명은 줄이세요.",
+    errorMissingApiKey: "API 키가 설정되지 않았습니다.",
+    errorMissingApiKeyHint: ".env.local에 GEMINI_API_KEY를 설정하고 앱을 다시 시작하거나, 렌더 엔진을 Offline Mock으로 전환하세요.",
+    errorEmptyResponse: "모델이 비어 있거나 사용할 수 없는 응답을 반환했습니다.",
+    errorEmptyResponseHint: "대개 일시적인 현상입니다. 다시 시도하거나 건물 설명을 더 구체적으로 추가하세요.",
+    errorUnknownHint: "다시 시도하세요. 문제가 계속되면 브라우저 콘솔에서 자세한 내용을 확인하세요.",
+    errorRetryable: "일시적인 문제이며, 대개 다시 시도하면 해결됩니다.",
+    cancelRun: "취소",
     imageResult: "AI 렌더링",
     download: "다운로드",
     editMode: "부분 편집",
@@ -254,20 +1039,175 @@ export const TRANSLATIONS = {
     clearMask: "마스크 지우기",
     undo: "실행 취소",
     redo: "다시 실행",
+    maskToolBrush: "브러시",
+    maskToolEraser: "지우개",
+    maskToolRect: "사각형 선택",
+    maskToolEllipse: "타원 선택",
+    maskToolLasso: "다각형 올가미",
+    maskInvert: "선택 반전",
+    maskFeather: "페더",
+    maskLassoHint: "클릭하여 점 추가. 첫 점 클릭, 더블클릭 또는 Enter로 닫고 Esc로 취소.",
+    maskToolWand: "자동 선택 도구",
+    maskTolerance: "허용치",
+    maskWandHint: "클릭하면 비슷한 색을 선택합니다. Shift+클릭은 추가, Alt+클릭은 제외.",
+    maskRegions: "영역",
+    maskRegionName: "영역 {n}",
+    maskAddRegion: "영역 추가",
+    maskDeleteRegion: "영역 삭제",
+    editSequential: "영역별 순차 처리",
+    editCombined: "모든 영역 한 번에 처리",
+    editRegionsReady: "{ready}/{total}개 영역 준비됨",
+    sketchPrepare: "전처리",
+    sketchPrepareAgain: "조정",
+    sketchPrepareTitle: "스케치 전처리",
+    sketchOriginal: "원본",
+    sketchPreview: "실제 전송 이미지",
+    sketchCropHint: "모서리를 드래그해 자르세요. 원근 보정을 켜고 각 모서리를 종이 모서리에 맞추면 바르게 펴집니다.",
+    sketchGeometry: "기하",
+    sketchRotateLeft: "왼쪽으로 회전",
+    sketchRotateRight: "오른쪽으로 회전",
+    sketchStraighten: "수평 보정",
+    sketchPerspective: "원근 보정",
+    sketchLevels: "레벨",
+    sketchBlackPoint: "검정 포인트",
+    sketchWhitePoint: "흰색 포인트",
+    sketchContrast: "대비",
+    sketchCleanup: "정리",
+    sketchWhiten: "배경 희게",
+    sketchLineWeight: "선 굵게",
+    sketchReset: "초기화",
+    sketchApply: "처리된 스케치 사용",
+    sketchFailed: "스케치를 처리할 수 없습니다.",
     editPromptPlaceholder: "선택한 영역을 어떻게 변경할지 설명하세요...",
     applyEdit: "변경 적용",
     cancelEdit: "취소",
     processingEdit: "편집 처리 중...",
     historyLabel: "생성 기록",
     historyEmpty: "기록이 없습니다. 생성된 이미지가 여기에 저장됩니다.",
+    historySearch: "프롬프트 검색...",
+    historyNoMatch: "검색과 일치하는 렌더링이 없습니다.",
+    historyRestore: "입력 재사용",
+    historyDelete: "삭제",
+    historyClear: "모두 삭제",
+    historyClearConfirm: "저장된 모든 렌더링을 삭제하시겠습니까? 되돌릴 수 없습니다.",
+    historyPage: "{page} / {pages} 페이지",
+    historyPrev: "이전",
+    historyNext: "다음",
+    storageUsed: "저장 공간: {used} / {quota}",
+    storageEvicted: "브라우저 저장 공간이 가득 찼습니다. 가장 오래된 렌더링 {count}개를 기록에서 삭제했습니다.",
+    historyUnavailable: "이 브라우저에서는 기록을 저장할 수 없습니다.",
     zoomIn: "클릭하여 확대",
     close: "닫기",
+    projectSave: "프로젝트 저장",
+    projectOpen: "프로젝트 또는 렌더 열기",
+    projectSaveHint: "스케치, 대지·참고 이미지, 모든 설정, 각 렌더와 마스크, 계보 기록을 하나의 파일로 묶습니다.",
+    projectJobNumber: "프로젝트 번호",
+    projectName: "프로젝트 이름",
+    projectSaveBtn: "저장",
+    projectSaveFailed: "프로젝트를 저장할 수 없습니다.",
+    projectOpenFailed: "프로젝트를 열 수 없습니다.",
+    renderMetadataMissing: "이 이미지에는 EDEN 렌더 설정이 없습니다. 이 앱에서 다운로드한 PNG만 다시 가져올 수 있습니다.",
+    renderImportFailed: "렌더를 가져올 수 없습니다",
+    boardTitle: "프레젠테이션 보드",
+    boardSelectHint: "보드에 넣을 렌더를 표시할 순서대로 선택하세요.",
+    boardTemplate: "레이아웃",
+    boardA3: "A3 가로",
+    boardA1: "A1 포스터",
+    boardFormat: "형식",
+    boardAuthor: "작성자",
+    boardDate: "날짜",
+    boardSheet: "시트",
+    boardSketch: "입력 스케치",
+    boardPrompt: "프롬프트",
+    boardVision: "디자인 의도",
+    boardPages: "{count}장",
+    boardExport: "내보내기",
+    boardExportFailed: "보드를 내보낼 수 없습니다.",
     masterFilterLabel: "마스터 그레이드 사진 필터",
     masterReFilterLabel: "마스터 재필터",
+    variationsLabel: "베리에이션",
+    variationCount: "옵션 수",
+    setAsMain: "메인으로 설정",
+    mainVariation: "메인",
+    variationPending: "렌더링 중...",
+    sweepLabel: "분위기 매트릭스",
+    sweepHint: "항목별로 여러 값을 선택하면 모든 조합을 렌더링합니다.",
+    sweepRun: "매트릭스 렌더링 ({count}장)",
+    sweepTooMany: "한 번에 최대 {max}장까지 가능합니다.",
+    contactSheetLabel: "컨택트 시트",
+    exportSheet: "시트 내보내기",
+    sweepTitle: "분위기 스터디",
     adLabel: "추천 아이템",
     adTitle: "3D 모델링 및 렌더링 제작",
     adDesc: "전문 3D 모델링, 제도 및 고품질 렌더링 제작 서비스.",
     visitShop: "상점 방문",
+    renderEngine: "렌더링 엔진",
+    templatesTitle: "프롬프트 템플릿",
+    templateSlotAnalyze: "장면 분석",
+    templateSlotRender: "이미지 생성",
+    templateSlotStyle: "마스터 스타일 필터",
+    templateSlotEdit: "인페인팅 편집",
+    templateSlotEnhance: "업스케일 디테일",
+    templateSlotRefine: "프롬프트 다듬기",
+    templateInUse: "사용 중",
+    templateUse: "이 템플릿 사용",
+    templateDuplicate: "복제",
+    templateCopySuffix: "사본",
+    templateDelete: "삭제",
+    templateDeleteConfirm: "이 템플릿과 모든 버전을 삭제하시겠습니까?",
+    templateSave: "새 버전으로 저장",
+    templateName: "이름",
+    templateBuiltIn: "기본 템플릿은 읽기 전용입니다. 복제하여 직접 수정하세요.",
+    templateVersions: "버전",
+    templateRestore: "불러오기",
+    templateVariables: "변수",
+    templateVariablesHint: "클릭하여 삽입합니다. {{name|text}}로 기본값을 지정할 수 있습니다.",
+    templateUnsaved: "저장되지 않은 변경",
+    stylesTitle: "마스터 스타일 라이브러리",
+    styleNew: "새 스타일",
+    styleEdit: "편집",
+    styleDelete: "삭제",
+    styleDeleteConfirm: "이 스타일을 삭제하시겠습니까?",
+    styleBuiltIn: "기본",
+    styleMoveUp: "위로",
+    styleMoveDown: "아래로",
+    styleLabels: "언어별 이름",
+    stylePrompt: "스타일 프롬프트",
+    styleIcon: "아이콘",
+    styleThumbnail: "썸네일",
+    styleThumbnailUpload: "업로드",
+    styleThumbnailRemove: "제거",
+    styleSave: "스타일 저장",
+    styleCancel: "취소",
+    styleImport: "팩 가져오기",
+    styleExport: "팩 내보내기",
+    styleImported: "스타일 {count}개를 가져왔습니다.",
+    styleStorageFull: "브라우저 저장 공간이 가득 찼습니다. 썸네일이나 사용하지 않는 스타일을 삭제한 후 다시 시도하세요.",
+    lineageLabel: "파생 이력",
+    lineageHint: "모든 필터와 편집은 적용된 이미지에서 분기됩니다. 원하는 단계를 선택해 그 지점부터 이어가세요.",
+    opGenerate: "생성",
+    opMasterStyle: "마스터 스타일",
+    opInpaintEdit: "인페인팅 편집",
+    opUpscale: "업스케일",
+    upscaleHint: "인쇄용 업스케일: 타일별로 디테일을 보강해 다운로드",
+    upscaling: "업스케일 중 {done}/{total}",
+    upscalePartial: "{total}개 타일 중 {failed}개는 보강하지 못해 단순 확대로 남았습니다.",
+    lineageBranch: "여기서 분기",
+    lineageCurrent: "현재",
+    compareLabel: "비교",
+    compareTitle: "비교 보기",
+    compareSplit: "분할",
+    compareOnion: "어니언 스킨",
+    compareSideBySide: "나란히",
+    compareOpacity: "혼합",
+    compareSketch: "스케치",
+    compareRender: "렌더",
+    compareOriginal: "원본",
+    compareStyled: "마스터 필터",
+    comparePrevious: "이전 단계",
+    compareWithSketch: "스케치와 비교",
+    compareWithOriginal: "원본과 비교",
+    historyComparePick: "비교할 두 번째 렌더를 선택하세요",
     [LightingTime.Sunny]: "맑음",
     [LightingTime.Sunset]: "일몰",
     [LightingTime.Night]: "밤",
@@ -307,33 +1247,41 @@ export const ARCH_TAGS = {
     }
 };
 
-export const MASTER_STYLES: Record<Language, MasterStyle[]> = {
-    [Language.English]: [
-        { id: 'long_exposure', label: 'Long Exposure', prompt: 'MASTERPIECE, EXTREME LONG EXPOSURE PHOTOGRAPHY (30 seconds+). Silky smooth water effect, dramatic streaking clouds, perfect light trails. Tripod shot, ISO 50, f/16. Ethereal, dreamy atmosphere overriding reality.', icon: 'clock' },
-        { id: 'bw_fine_art', label: 'Noir B&W', prompt: 'FINE ART B&W PHOTOGRAPHY. PURE MONOCHROME. NO COLOR. Intense high contrast, deep ink blacks, bright stark whites. Ansel Adams style. Dramatic shadows, structural clarity, abstract geometry. Film noir aesthetic.', icon: 'contrast' },
-        { id: 'high_fashion', label: 'Vogue Editorial', prompt: 'HIGH FASHION EDITORIAL ARCHITECTURE. Sharp, vibrant, commercial aesthetic. Wallpaper* Magazine style. Perfect crystal clear blue sky, hyper-saturated colors, crisp shadows. Clean, luxury, expensive look. 8k resolution.', icon: 'star' },
-        { id: 'cinematic_mood', label: 'Cyber Cinematic', prompt: 'DARK CINEMATIC MOOD. Blade Runner 2049 aesthetic. Volumetric fog, teal and orange color grading, neon accents, rainy reflections. Moody, mysterious, atmospheric. Anamorphic lens flares.', icon: 'film' },
-        { id: 'blue_hour', label: 'Blue Hour', prompt: 'PERFECT BLUE HOUR PHOTOGRAPHY. Deep twilight blue sky. Warm artificial interior lights glowing (3200K) against cold exterior environment (8000K). Balanced exposure. Magical realism.', icon: 'moon' },
-    ],
-    [Language.ChineseTraditional]: [
-        { id: 'long_exposure', label: '極致長曝光', prompt: 'MASTERPIECE, EXTREME LONG EXPOSURE PHOTOGRAPHY (30 seconds+). Silky smooth water effect, dramatic streaking clouds, perfect light trails. Tripod shot, ISO 50, f/16. Ethereal, dreamy atmosphere overriding reality.', icon: 'clock' },
-        { id: 'bw_fine_art', label: '黑白藝術', prompt: 'FINE ART B&W PHOTOGRAPHY. PURE MONOCHROME. NO COLOR. Intense high contrast, deep ink blacks, bright stark whites. Ansel Adams style. Dramatic shadows, structural clarity, abstract geometry. Film noir aesthetic.', icon: 'contrast' },
-        { id: 'high_fashion', label: 'Vogue 時尚風', prompt: 'HIGH FASHION EDITORIAL ARCHITECTURE. Sharp, vibrant, commercial aesthetic. Wallpaper* Magazine style. Perfect crystal clear blue sky, hyper-saturated colors, crisp shadows. Clean, luxury, expensive look. 8k resolution.', icon: 'star' },
-        { id: 'cinematic_mood', label: '賽博電影感', prompt: 'DARK CINEMATIC MOOD. Blade Runner 2049 aesthetic. Volumetric fog, teal and orange color grading, neon accents, rainy reflections. Moody, mysterious, atmospheric. Anamorphic lens flares.', icon: 'film' },
-        { id: 'blue_hour', label: '藍調時刻', prompt: 'PERFECT BLUE HOUR PHOTOGRAPHY. Deep twilight blue sky. Warm artificial interior lights glowing (3200K) against cold exterior environment (8000K). Balanced exposure. Magical realism.', icon: 'moon' },
-    ],
-    [Language.Japanese]: [
-        { id: 'long_exposure', label: '長時間露光', prompt: 'MASTERPIECE, EXTREME LONG EXPOSURE PHOTOGRAPHY (30 seconds+). Silky smooth water effect, dramatic streaking clouds, perfect light trails. Tripod shot, ISO 50, f/16. Ethereal, dreamy atmosphere overriding reality.', icon: 'clock' },
-        { id: 'bw_fine_art', label: 'モノクロ芸術', prompt: 'FINE ART B&W PHOTOGRAPHY. PURE MONOCHROME. NO COLOR. Intense high contrast, deep ink blacks, bright stark whites. Ansel Adams style. Dramatic shadows, structural clarity, abstract geometry. Film noir aesthetic.', icon: 'contrast' },
-        { id: 'high_fashion', label: 'ファッション誌風', prompt: 'HIGH FASHION EDITORIAL ARCHITECTURE. Sharp, vibrant, commercial aesthetic. Wallpaper* Magazine style. Perfect crystal clear blue sky, hyper-saturated colors, crisp shadows. Clean, luxury, expensive look. 8k resolution.', icon: 'star' },
-        { id: 'cinematic_mood', label: 'サイバー映画風', prompt: 'DARK CINEMATIC MOOD. Blade Runner 2049 aesthetic. Volumetric fog, teal and orange color grading, neon accents, rainy reflections. Moody, mysterious, atmospheric. Anamorphic lens flares.', icon: 'film' },
-        { id: 'blue_hour', label: 'ブルーアワー', prompt: 'PERFECT BLUE HOUR PHOTOGRAPHY. Deep twilight blue sky. Warm artificial interior lights glowing (3200K) against cold exterior environment (8000K). Balanced exposure. Magical realism.', icon: 'moon' },
-    ],
-    [Language.Korean]: [
-        { id: 'long_exposure', label: '장노출 마스터', prompt: 'MASTERPIECE, EXTREME LONG EXPOSURE PHOTOGRAPHY (30 seconds+). Silky smooth water effect, dramatic streaking clouds, perfect light trails. Tripod shot, ISO 50, f/16. Ethereal, dreamy atmosphere overriding reality.', icon: 'clock' },
-        { id: 'bw_fine_art', label: '흑백 파인아트', prompt: 'FINE ART B&W PHOTOGRAPHY. PURE MONOCHROME. NO COLOR. Intense high contrast, deep ink blacks, bright stark whites. Ansel Adams style. Dramatic shadows, structural clarity, abstract geometry. Film noir aesthetic.', icon: 'contrast' },
-        { id: 'high_fashion', label: 'Vogue 에디토리얼', prompt: 'HIGH FASHION EDITORIAL ARCHITECTURE. Sharp, vibrant, commercial aesthetic. Wallpaper* Magazine style. Perfect crystal clear blue sky, hyper-saturated colors, crisp shadows. Clean, luxury, expensive look. 8k resolution.', icon: 'star' },
-        { id: 'cinematic_mood', label: '사이버 시네마틱', prompt: 'DARK CINEMATIC MOOD. Blade Runner 2049 aesthetic. Volumetric fog, teal and orange color grading, neon accents, rainy reflections. Moody, mysterious, atmospheric. Anamorphic lens flares.', icon: 'film' },
-        { id: 'blue_hour', label: '블루 아워', prompt: 'PERFECT BLUE HOUR PHOTOGRAPHY. Deep twilight blue sky. Warm artificial interior lights glowing (3200K) against cold exterior environment (8000K). Balanced exposure. Magical realism.', icon: 'moon' },
-    ]
-};
+// Built-in master styles, read-only defaults of the style library
+export const MASTER_STYLES: MasterStyleDefinition[] = [
+    {
+        id: 'long_exposure',
+        labels: { [Language.English]: 'Long Exposure', [Language.ChineseTraditional]: '極致長曝光', [Language.Japanese]: '長時間露光', [Language.Korean]: '장노출 마스터' },
+        prompt: 'MASTERPIECE, EXTREME LONG EXPOSURE PHOTOGRAPHY (30 seconds+). Silky smooth water effect, dramatic streaking clouds, perfect light trails. Tripod shot, ISO 50, f/16. Ethereal, dreamy atmosphere overriding reality.',
+        icon: 'clock',
+        builtIn: true
+    },
+    {
+        id: 'bw_fine_art',
+        labels: { [Language.English]: 'Noir B&W', [Language.ChineseTraditional]: '黑白藝術', [Language.Japanese]: 'モノクロ芸術', [Language.Korean]: '흑백 파인아트' },
+        prompt: 'FINE ART B&W PHOTOGRAPHY. PURE MONOCHROME. NO COLOR. Intense high contrast, deep ink blacks, bright stark whites. Ansel Adams style. Dramatic shadows, structural clarity, abstract geometry. Film noir aesthetic.',
+        icon: 'contrast',
+        builtIn: true
+    },
+    {
+        id: 'high_fashion',
+        labels: { [Language.English]: 'Vogue Editorial', [Language.ChineseTraditional]: 'Vogue 時尚風', [Language.Japanese]: 'ファッション誌風', [Language.Korean]: 'Vogue 에디토리얼' },
+        prompt: 'HIGH FASHION EDITORIAL ARCHITECTURE. Sharp, vibrant, commercial aesthetic. Wallpaper* Magazine style. Perfect crystal clear blue sky, hyper-saturated colors, crisp shadows. Clean, luxury, expensive look. 8k resolution.',
+        icon: 'star',
+        builtIn: true
+    },
+    {
+        id: 'cinematic_mood',
+        labels: { [Language.English]: 'Cyber Cinematic', [Language.ChineseTraditional]: '賽博電影感', [Language.Japanese]: 'サイバー映画風', [Language.Korean]: '사이버 시네마틱' },
+        prompt: 'DARK CINEMATIC MOOD. Blade Runner 2049 aesthetic. Volumetric fog, teal and orange color grading, neon accents, rainy reflections. Moody, mysterious, atmospheric. Anamorphic lens flares.',
+        icon: 'film',
+        builtIn: true
+    },
+    {
+        id: 'blue_hour',
+        labels: { [Language.English]: 'Blue Hour', [Language.ChineseTraditional]: '藍調時刻', [Language.Japanese]: 'ブルーアワー', [Language.Korean]: '블루 아워' },
+        prompt: 'PERFECT BLUE HOUR PHOTOGRAPHY. Deep twilight blue sky. Warm artificial interior lights glowing (3200K) against cold exterior environment (8000K). Balanced exposure. Magical realism.',
+        icon: 'moon',
+        builtIn: true
+    },
+];
@@ -0,0 +1,77 @@
+import { AspectRatio, AspectRatioSetting, SketchFraming } from "../types";
+
+// Width over height of every ratio the image model renders, narrowest first
+export const ASPECT_RATIO_VALUES: Record<AspectRatio, number> = {
+  '9:16': 9 / 16,
+  '2:3': 2 / 3,
+  '3:4': 3 / 4,
+  '4:5': 4 / 5,
+  '1:1': 1,
+  '5:4': 5 / 4,
+  '4:3': 4 / 3,
+  '3:2': 3 / 2,
+  '16:9': 16 / 9,
+  '21:9': 21 / 9,
+};
+
+export const ASPECT_RATIOS = Object.keys(ASPECT_RATIO_VALUES) as AspectRatio[];
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the sketch goes in the frame sent to the model, in sketch pixels
+export interface FrameLayout {
+  width: number; // Frame size
+  height: number;
+  source: Rect; // Part of the sketch that is kept
+  dest: Rect; // Where that part lands in the frame
+}
+
+/** Supported ratio closest to `width` × `height`, compared on a log scale so tall and wide sketches are treated alike. */
+export const getNearestAspectRatio = (width?: number, height?: number): AspectRatio => {
+  if (!width || !height) return '1:1';
+  const ratio = Math.log(width / height);
+  return ASPECT_RATIOS.reduce((best, id) =>
+    Math.abs(Math.log(ASPECT_RATIO_VALUES[id]) - ratio) < Math.abs(Math.log(ASPECT_RATIO_VALUES[best]) - ratio) ? id : best
+  );
+};
+
+export const resolveAspectRatio = (setting: AspectRatioSetting, width?: number, height?: number): AspectRatio =>
+  setting === 'auto' ? getNearestAspectRatio(width, height) : setting;
+
+/** Crops the centre of the sketch to the ratio, or pads it evenly on the short sides. */
+export const getFrameLayout = (width: number, height: number, ratio: AspectRatio, framing: SketchFraming): FrameLayout => {
+  const target = ASPECT_RATIO_VALUES[ratio];
+  const tooWide = width / height > target;
+
+  if (framing === 'crop') {
+    const cropWidth = tooWide ? height * target : width;
+    const cropHeight = tooWide ? height : width / target;
+    return {
+      width: cropWidth,
+      height: cropHeight,
+      source: { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight },
+      dest: { x: 0, y: 0, width: cropWidth, height: cropHeight },
+    };
+  }
+
+  const frameWidth = tooWide ? width : height * target;
+  const frameHeight = tooWide ? width / target : height;
+  return {
+    width: frameWidth,
+    height: frameHeight,
+    source: { x: 0, y: 0, width, height },
+    dest: { x: (frameWidth - width) / 2, y: (frameHeight - height) / 2, width, height },
+  };
+};
+
+/** Share of the sketch cropped away, or of the frame left blank, when fitting it to the ratio (0-1). */
+export const getFrameMismatch = (width: number, height: number, ratio: AspectRatio): number => {
+  const sketch = width / height;
+  const target = ASPECT_RATIO_VALUES[ratio];
+  return 1 - Math.min(sketch, target) / Math.max(sketch, target);
+};
@@ -0,0 +1,47 @@
+import { CameraSettings, CameraView, DepthOfField } from "../types";
+
+// Camera and lens conventions of architectural photography, as instructions for the model.
+
+export const CAMERA_VIEWS: CameraView[] = ['eye-level', 'aerial', 'worms-eye', 'drone'];
+export const FOCAL_LENGTHS = [16, 24, 35, 50, 85];
+export const DEPTHS_OF_FIELD: DepthOfField[] = ['deep', 'natural', 'shallow'];
+
+export const DEFAULT_CAMERA: CameraSettings = {
+  view: 'auto',
+  focalLength: 'auto',
+  verticalCorrection: true,
+  depthOfField: 'deep',
+};
+
+const VIEW_INSTRUCTIONS: Record<CameraView, string> = {
+  'eye-level': 'eye-level view of a standing person, camera about 1.6 m above the ground',
+  aerial: 'aerial view from high above at an oblique angle, showing the building within its surroundings',
+  'worms-eye': "worm's-eye view from close to the ground looking up, emphasising height",
+  drone: 'drone view from 30 to 60 m up, looking down at a moderate angle',
+};
+
+const DEPTH_INSTRUCTIONS: Record<DepthOfField, string> = {
+  deep: 'deep depth of field, everything sharp from foreground to background',
+  natural: 'natural depth of field, the distant background slightly soft',
+  shallow: 'shallow depth of field, the building in focus with foreground and background blurred',
+};
+
+// Helper: Lens character, which the model follows better than the bare number
+const describeFocalLength = (mm: number) =>
+  `${mm} mm lens (${mm <= 20 ? 'ultra-wide' : mm <= 28 ? 'wide angle' : mm <= 40 ? 'moderately wide' : mm <= 60 ? 'normal, natural perspective' : 'short telephoto, compressed perspective'})`;
+
+/** A worm's-eye view is meant to show converging verticals, so correction does not apply there. */
+export const canCorrectVerticals = (camera: CameraSettings) => camera.view !== 'worms-eye';
+
+/** The camera line for the analysis and image prompts. */
+export const describeCamera = (camera: CameraSettings): string => {
+  const parts = [
+    camera.view === 'auto' ? '' : VIEW_INSTRUCTIONS[camera.view],
+    camera.focalLength === 'auto' ? '' : describeFocalLength(camera.focalLength),
+    camera.verticalCorrection && canCorrectVerticals(camera)
+      ? 'two-point perspective: vertical lines perfectly vertical and parallel, as shot with a shift lens'
+      : '',
+    DEPTH_INSTRUCTIONS[camera.depthOfField],
+  ].filter(Boolean);
+  return `CAMERA: ${parts.join('; ')}. Keep the building geometry from the sketch.`;
+};
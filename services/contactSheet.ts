@@ -0,0 +1,122 @@
+import { SweepSelection, SweepCell } from "../types";
+
+const CELL_WIDTH = 480;
+const ROW_LABEL_WIDTH = 220;
+const TITLE_HEIGHT = 90;
+const COLUMN_LABEL_HEIGHT = 44;
+const GAP = 12;
+
+// Rows are lighting x sun direction, columns are weather
+export const getSweepCombinations = (selection: SweepSelection) => {
+  const combinations: Omit<SweepCell, 'result'>[] = [];
+  for (const lighting of selection.lighting) {
+    for (const sunDirection of selection.sunDirection) {
+      for (const weather of selection.weather) {
+        combinations.push({ lighting, sunDirection, weather });
+      }
+    }
+  }
+  return combinations;
+};
+
+export const getSweepSize = (selection: SweepSelection) =>
+  selection.lighting.length * selection.sunDirection.length * selection.weather.length;
+
+const loadImage = (base64: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load render for contact sheet"));
+    img.src = `data:image/png;base64,${base64}`;
+  });
+};
+
+/**
+ * Lays out sweep results as one labelled PNG (base64, no data: prefix).
+ * `labelFor` translates enum values so the sheet matches the UI language.
+ */
+export const renderContactSheet = async (
+  cells: SweepCell[],
+  selection: SweepSelection,
+  title: string,
+  labelFor: (value: string) => string
+): Promise<string> => {
+  const images = await Promise.all(
+    cells.map(cell => cell.result.imageData ? loadImage(cell.result.imageData).catch(() => null) : Promise.resolve(null))
+  );
+
+  // Size cells after the first successful render, default to 16:9
+  const reference = images.find(img => img);
+  const cellHeight = Math.round(CELL_WIDTH * (reference ? reference.height / reference.width : 9 / 16));
+
+  const columns = selection.weather;
+  const rows = selection.lighting.flatMap(lighting => selection.sunDirection.map(sunDirection => ({ lighting, sunDirection })));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = ROW_LABEL_WIDTH + columns.length * (CELL_WIDTH + GAP) + GAP;
+  canvas.height = TITLE_HEIGHT + COLUMN_LABEL_HEIGHT + rows.length * (cellHeight + GAP) + GAP;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+
+  ctx.fillStyle = '#0a0a0a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Title block
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 32px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(title, GAP * 2, TITLE_HEIGHT / 2 - 10);
+  ctx.fillStyle = '#71717a';
+  ctx.font = '16px monospace';
+  ctx.fillText(new Date().toLocaleString(), GAP * 2, TITLE_HEIGHT / 2 + 22);
+
+  // Column labels
+  ctx.fillStyle = '#22d3ee';
+  ctx.font = 'bold 18px sans-serif';
+  ctx.textAlign = 'center';
+  columns.forEach((weather, col) => {
+    const x = ROW_LABEL_WIDTH + col * (CELL_WIDTH + GAP) + CELL_WIDTH / 2;
+    ctx.fillText(labelFor(weather), x, TITLE_HEIGHT + COLUMN_LABEL_HEIGHT / 2);
+  });
+
+  rows.forEach((row, rowIndex) => {
+    const y = TITLE_HEIGHT + COLUMN_LABEL_HEIGHT + rowIndex * (cellHeight + GAP);
+
+    // Row label
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#e4e4e7';
+    ctx.font = 'bold 18px sans-serif';
+    ctx.fillText(labelFor(row.lighting), GAP * 2, y + cellHeight / 2 - 12);
+    ctx.fillStyle = '#a1a1aa';
+    ctx.font = '15px sans-serif';
+    ctx.fillText(labelFor(row.sunDirection), GAP * 2, y + cellHeight / 2 + 12);
+
+    columns.forEach((weather, col) => {
+      const x = ROW_LABEL_WIDTH + col * (CELL_WIDTH + GAP);
+      const cellIndex = cells.findIndex(c =>
+        c.lighting === row.lighting && c.sunDirection === row.sunDirection && c.weather === weather
+      );
+      const img = cellIndex >= 0 ? images[cellIndex] : null;
+
+      if (img) {
+        // Contain the render inside the cell
+        const scale = Math.min(CELL_WIDTH / img.width, cellHeight / img.height);
+        const w = img.width * scale;
+        const h = img.height * scale;
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(x, y, CELL_WIDTH, cellHeight);
+        ctx.drawImage(img, x + (CELL_WIDTH - w) / 2, y + (cellHeight - h) / 2, w, h);
+      } else {
+        ctx.fillStyle = '#1c1917';
+        ctx.fillRect(x, y, CELL_WIDTH, cellHeight);
+        ctx.fillStyle = '#f43f5e';
+        ctx.font = 'bold 16px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(cellIndex >= 0 ? 'FAILED' : '—', x + CELL_WIDTH / 2, y + cellHeight / 2);
+        ctx.textAlign = 'left';
+      }
+    });
+  });
+
+  return canvas.toDataURL('image/png').split(',')[1];
+};
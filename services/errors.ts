@@ -0,0 +1,120 @@
+import { Language, ServiceErrorKind } from "../types";
+import { TRANSLATIONS } from "../constants";
+
+type TranslationKey = keyof typeof TRANSLATIONS[Language.English];
+
+// Localized message, guidance and retry policy for every kind of failure
+export const ERROR_KINDS: Record<ServiceErrorKind, { message: TranslationKey; hint: TranslationKey; retryable: boolean }> = {
+  [ServiceErrorKind.Quota]: { message: 'errorQuota', hint: 'errorQuotaHint', retryable: true },
+  [ServiceErrorKind.Safety]: { message: 'errorSafety', hint: 'errorSafetyHint', retryable: false },
+  [ServiceErrorKind.Network]: { message: 'errorNetwork', hint: 'errorNetworkHint', retryable: true },
+  [ServiceErrorKind.InvalidInput]: { message: 'errorInvalidInput', hint: 'errorInvalidInputHint', retryable: false },
+  [ServiceErrorKind.MissingApiKey]: { message: 'errorMissingApiKey', hint: 'errorMissingApiKeyHint', retryable: false },
+  [ServiceErrorKind.EmptyResponse]: { message: 'errorEmptyResponse', hint: 'errorEmptyResponseHint', retryable: true },
+  [ServiceErrorKind.Unknown]: { message: 'errorGeneric', hint: 'errorUnknownHint', retryable: false },
+};
+
+/**
+ * Base class for every failure the services surface. `message` keeps the technical
+ * detail for logs; the UI shows the localized text for `kind` instead.
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: ServiceErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.retryable = ERROR_KINDS[kind].retryable;
+  }
+}
+
+export class QuotaError extends ServiceError {
+  constructor(message = "Quota exceeded.", cause?: unknown) {
+    super(ServiceErrorKind.Quota, message, cause);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyError extends ServiceError {
+  constructor(message = "Request blocked by safety filters.", cause?: unknown) {
+    super(ServiceErrorKind.Safety, message, cause);
+    this.name = 'SafetyError';
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message = "Network request failed.", cause?: unknown) {
+    super(ServiceErrorKind.Network, message, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class InvalidInputError extends ServiceError {
+  constructor(message = "Invalid input.", cause?: unknown) {
+    super(ServiceErrorKind.InvalidInput, message, cause);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class MissingApiKeyError extends ServiceError {
+  constructor(message = "API Key is missing. Please check your environment variables.", cause?: unknown) {
+    super(ServiceErrorKind.MissingApiKey, message, cause);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class EmptyResponseError extends ServiceError {
+  constructor(message = "The model returned no usable output.", cause?: unknown) {
+    super(ServiceErrorKind.EmptyResponse, message, cause);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+/**
+ * Classifies anything thrown by a provider or the SDK. ServiceErrors pass through untouched;
+ * everything else is matched on HTTP status first, then on the message text.
+ */
+export const toServiceError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+  const message: string = (error as any)?.message || String(error);
+
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new QuotaError(message, error);
+  }
+  // Invalid keys get the same guidance as missing ones
+  if (/API[ _]?key/i.test(message)) {
+    return new MissingApiKeyError(message, error);
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT/i.test(message)) {
+    return new SafetyError(message, error);
+  }
+  // fetch rejects with a bare TypeError when the connection fails; 5xx means the service is down or overloaded
+  if (
+    error instanceof TypeError ||
+    (status !== undefined && (status === 408 || status >= 500)) ||
+    /\b50[0234]\b|UNAVAILABLE|overloaded|network|failed to fetch|timed? ?out/i.test(message)
+  ) {
+    return new NetworkError(message, error);
+  }
+  if (status === 400 || /INVALID_ARGUMENT/.test(message)) {
+    return new InvalidInputError(message, error);
+  }
+  return new ServiceError(ServiceErrorKind.Unknown, message, error);
+};
+
+export const getErrorText = (kind: ServiceErrorKind | undefined, language: Language) => {
+  const t = TRANSLATIONS[language];
+  const entry = ERROR_KINDS[kind ?? ServiceErrorKind.Unknown];
+  return { message: t[entry.message], hint: t[entry.hint], retryable: entry.retryable };
+};
+
+/** One line for the error bar; unclassified errors keep their detail so they stay debuggable. */
+export const describeError = (error: unknown, language: Language): string => {
+  const serviceError = toServiceError(error);
+  const { message } = getErrorText(serviceError.kind, language);
+  return serviceError.kind === ServiceErrorKind.Unknown ? `${message} (${serviceError.message})` : message;
+};
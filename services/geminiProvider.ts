@@ -0,0 +1,178 @@
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold, GenerateContentResponse, FinishReason, Type } from "@google/genai";
+import { ProviderId, RenderProvider, ImagePayload, ModelBudget } from "../types";
+import { parseSceneAnalysis } from "./sceneAnalysis";
+import { MissingApiKeyError, SafetyError, EmptyResponseError } from "./errors";
+
+// Model names used for each kind of request
+export const GEMINI_MODELS = {
+  text: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash-image',
+};
+
+// Free tier limits; the scheduler keeps each model under its own budget
+const TEXT_BUDGET: ModelBudget = { model: GEMINI_MODELS.text, requestsPerMinute: 10 };
+const IMAGE_BUDGET: ModelBudget = { model: GEMINI_MODELS.image, requestsPerMinute: 10 };
+
+// Helper to check API Key safely
+const getAIClient = () => {
+  let apiKey = '';
+  try {
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env) {
+      // @ts-ignore
+      apiKey = import.meta.env.VITE_API_KEY || import.meta.env.PUBLIC_API_KEY || import.meta.env.API_KEY || '';
+    }
+  } catch (e) {}
+
+  if (!apiKey) {
+    try {
+      if (typeof process !== 'undefined' && process.env) {
+        apiKey = process.env.NEXT_PUBLIC_API_KEY || process.env.REACT_APP_API_KEY || process.env.API_KEY || '';
+      }
+    } catch (e) {}
+  }
+
+  if (!apiKey) {
+    throw new MissingApiKeyError();
+  }
+
+  return new GoogleGenAI({ apiKey });
+};
+
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+// JSON schema for the structured scene analysis, mirrors SceneAnalysis
+const SCENE_ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    buildingType: { type: Type.STRING, description: "Building type and program, e.g. 'two-storey timber library'." },
+    massing: { type: Type.STRING, description: "Volumes, roof form, openings and proportions as read from the sketch." },
+    materials: { type: Type.ARRAY, items: { type: Type.STRING }, description: "One entry per facade/roof/ground material." },
+    camera: { type: Type.STRING, description: "Camera position, height, lens feel and framing." },
+    landscape: { type: Type.STRING, description: "Site, planting, ground surfaces, surroundings and entourage." },
+    mood: { type: Type.STRING, description: "Lighting, weather and atmosphere." },
+  },
+  required: ['buildingType', 'massing', 'materials', 'camera', 'landscape', 'mood'],
+  propertyOrdering: ['buildingType', 'massing', 'materials', 'camera', 'landscape', 'mood'],
+};
+
+// Finish reasons that mean the answer was withheld by the safety filters
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+const toPart = (image: ImagePayload) => ({
+  inlineData: { data: image.data, mimeType: image.mimeType },
+});
+
+// Helper: Pull the first image out of a response. Only a block or a safety finish reason is a refusal;
+// a text-only answer is often just a description of the image, so it is kept as detail of a retryable error.
+const extractImage = (response: GenerateContentResponse, fallbackMessage: string): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyError(`Prompt blocked: ${blockReason}`);
+
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts;
+  const data = parts?.find(p => p.inlineData)?.inlineData?.data;
+  if (data) return data;
+
+  const text = parts?.find(p => p.text)?.text;
+  if (SAFETY_FINISH_REASONS.includes(candidate?.finishReason)) {
+    throw new SafetyError(text || `Response blocked: ${candidate?.finishReason}`);
+  }
+  throw new EmptyResponseError(text ? `${fallbackMessage} The model answered: ${text}` : fallbackMessage);
+};
+
+export const geminiProvider: RenderProvider = {
+  id: ProviderId.Gemini,
+  label: 'Gemini 2.5',
+  budgets: {
+    refine: TEXT_BUDGET,
+    analyze: TEXT_BUDGET,
+    render: IMAGE_BUDGET,
+    style: IMAGE_BUDGET,
+    edit: IMAGE_BUDGET,
+    enhance: IMAGE_BUDGET,
+  },
+
+  refine: async (instruction, signal) => {
+    const ai = getAIClient();
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.text,
+      contents: { parts: [{ text: instruction }] },
+      config: { temperature: 0.7, abortSignal: signal }
+    });
+    return response.text?.trim() || '';
+  },
+
+  analyze: async ({ images, instruction }, signal) => {
+    const ai = getAIClient();
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.text,
+      contents: { parts: [...images.map(toPart), { text: instruction }] },
+      config: {
+        safetySettings: SAFETY_SETTINGS,
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: SCENE_ANALYSIS_SCHEMA,
+      }
+    });
+    return parseSceneAnalysis(response.text || '');
+  },
+
+  render: async ({ sketch, prompt, aspectRatio }, signal) => {
+    const ai = getAIClient();
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.image,
+      contents: { parts: [toPart(sketch), { text: prompt }] },
+      config: {
+        imageConfig: { aspectRatio: aspectRatio },
+        safetySettings: SAFETY_SETTINGS,
+        abortSignal: signal,
+      }
+    });
+    return extractImage(response, "Model returned no image data.");
+  },
+
+  style: async ({ image, prompt }, signal) => {
+    const ai = getAIClient();
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.image,
+      contents: { parts: [toPart(image), { text: prompt }] },
+      config: { safetySettings: SAFETY_SETTINGS, abortSignal: signal }
+    });
+    return extractImage(response, "No image returned.");
+  },
+
+  edit: async ({ image, mask, prompt }, signal) => {
+    const ai = getAIClient();
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.image,
+      contents: { parts: [toPart(image), toPart(mask), { text: prompt }] },
+      config: { safetySettings: SAFETY_SETTINGS, abortSignal: signal }
+    });
+    return extractImage(response, "No edited image returned.");
+  },
+
+  enhance: async ({ image, prompt, aspectRatio }, signal) => {
+    const ai = getAIClient();
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.image,
+      contents: { parts: [toPart(image), { text: prompt }] },
+      config: {
+        imageConfig: { aspectRatio: aspectRatio },
+        safetySettings: SAFETY_SETTINGS,
+        abortSignal: signal,
+      }
+    });
+    return extractImage(response, "No enhanced tile returned.");
+  },
+};
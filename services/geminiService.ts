@@ -1,66 +1,61 @@
 
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { UploadedImage, GenerationParams, PromptResult } from "../types";
+import { UploadedImage, GenerationParams, PromptResult, ImagePayload, RenderProvider, RenderRequest, SweepSelection, SweepCell, SceneAnalysis, ProviderOperation, ServiceErrorKind, ResultOperation, EditRegion, EditStrategy, RenderQuality, AspectRatio, SketchFraming } from "../types";
+import { assembleScenePrompt, isSceneAnalysisEmpty } from "./sceneAnalysis";
+import { getSweepCombinations } from "./contactSheet";
+import { getRenderProvider } from "./renderProvider";
+import { createAbortError, isAbortError, throwIfAborted } from "./abort";
+import { scheduleRequest } from "./requestScheduler";
+import { ServiceError, InvalidInputError, EmptyResponseError, toServiceError } from "./errors";
+import { renderPromptTemplate } from "./promptTemplates";
+import { composeRegionMasks } from "./maskUtils";
+import { UPLOAD_QUALITY } from "./imageUtils";
+import { FrameLayout, getFrameLayout, resolveAspectRatio } from "./aspectRatio";
+import { describeReferences } from "./referenceRoles";
+import { describeSiteSun } from "./solarPosition";
+import { describeCamera } from "./camera";
+import { planTiles, loadBase64Image, cropTile, createUpscaleCanvas, drawTile } from "./upscale";
 
-// Helper to check API Key safely
-const getAIClient = () => {
-  let apiKey = '';
-  try {
-    // @ts-ignore
-    if (typeof import.meta !== 'undefined' && import.meta.env) {
-      // @ts-ignore
-      apiKey = import.meta.env.VITE_API_KEY || import.meta.env.PUBLIC_API_KEY || import.meta.env.API_KEY || '';
-    }
-  } catch (e) {}
-
-  if (!apiKey) {
-    try {
-      if (typeof process !== 'undefined' && process.env) {
-        apiKey = process.env.NEXT_PUBLIC_API_KEY || process.env.REACT_APP_API_KEY || process.env.API_KEY || '';
-      }
-    } catch (e) {}
-  }
-
-  if (!apiKey) {
-    throw new Error(
-      "API Key is missing. Please check your environment variables."
-    );
-  }
-  
-  return new GoogleGenAI({ apiKey });
+// Helper: Rethrow cancellations untouched so callers can tell them apart from failures
+const rethrowIfAborted = (error: unknown, signal?: AbortSignal) => {
+  if (signal?.aborted || isAbortError(error)) throw createAbortError();
 };
 
-// Helper: Wait function for retries
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Helper: Every provider call is queued under the budget of the model it hits
+const schedule = <T>(
+  provider: RenderProvider,
+  operation: ProviderOperation,
+  task: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => scheduleRequest(provider.budgets[operation], task, signal);
+
+// How the sketch is fitted to the render's aspect ratio before upload
+type SketchFrame = { ratio: AspectRatio; framing: SketchFraming };
 
-// Helper: Resize image (Max 800px for stability)
-const resizeImage = (file: File): Promise<string> => {
+// Helper: Resize and compress an upload to the size and JPEG quality of the chosen preset,
+// cropping or letterboxing it to `frame` first when given
+const resizeImage = (file: File, quality: RenderQuality, frame?: SketchFrame): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const img = new Image();
       img.onload = () => {
         const canvas = document.createElement('canvas');
-        let width = img.width;
-        let height = img.height;
-        const maxDim = 800; 
-        
-        if (width > maxDim || height > maxDim) {
-           if (width > height) {
-             height = Math.round(height * (maxDim / width));
-             width = maxDim;
-           } else {
-             width = Math.round(width * (maxDim / height));
-             height = maxDim;
-           }
-        }
+        const { maxSize: maxDim, jpegQuality } = UPLOAD_QUALITY[quality];
+        const whole = { x: 0, y: 0, width: img.width, height: img.height };
+        const { width, height, source, dest }: FrameLayout = frame
+          ? getFrameLayout(img.width, img.height, frame.ratio, frame.framing)
+          : { width: img.width, height: img.height, source: whole, dest: whole };
+        const scale = Math.min(1, maxDim / Math.max(width, height));
         
-        canvas.width = width;
-        canvas.height = height;
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
         const ctx = canvas.getContext('2d');
         if (ctx) {
-            ctx.drawImage(img, 0, 0, width, height);
-            const dataUrl = canvas.toDataURL(file.type === 'image/png' ? 'image/png' : 'image/jpeg', 0.85);
+            // Letterbox bars are white like the paper
+            ctx.fillStyle = 'white';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(img, source.x, source.y, source.width, source.height, dest.x * scale, dest.y * scale, dest.width * scale, dest.height * scale);
+            const dataUrl = canvas.toDataURL(file.type === 'image/png' ? 'image/png' : 'image/jpeg', jpegQuality);
             resolve(dataUrl.split(',')[1]);
         } else {
             reject(new Error("Canvas context failed"));
@@ -74,67 +69,231 @@ const resizeImage = (file: File): Promise<string> => {
   });
 };
 
-const fileToPart = async (file: File) => {
+const fileToPayload = async (file: File, quality: RenderQuality, frame?: SketchFrame): Promise<ImagePayload> => {
   try {
-      const base64Data = await resizeImage(file);
+      const base64Data = await resizeImage(file, quality, frame);
       return {
-          inlineData: {
-              data: base64Data,
-              mimeType: file.type === 'image/png' ? 'image/png' : 'image/jpeg',
-          },
+          data: base64Data,
+          mimeType: file.type === 'image/png' ? 'image/png' : 'image/jpeg',
       };
   } catch (error) {
       console.error("Image processing error:", error);
-      throw new Error("Failed to process image.");
+      throw new InvalidInputError("Failed to process image.", error);
   }
 };
 
-const getBestAspectRatio = (width?: number, height?: number): string => {
-  if (!width || !height) return "1:1";
-  const ratio = width / height;
-  const targets = [
-    { id: "1:1", val: 1.0 },
-    { id: "3:4", val: 0.75 },
-    { id: "4:3", val: 1.333 },
-    { id: "9:16", val: 0.5625 },
-    { id: "16:9", val: 1.777 }
-  ];
-  return targets.reduce((prev, curr) => {
-    return (Math.abs(curr.val - ratio) < Math.abs(prev.val - ratio) ? curr : prev);
-  }).id;
-};
-
-const SAFETY_SETTINGS = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-];
-
 // --- MAIN FUNCTIONS ---
 
 export const optimizeUserPrompt = async (
   inputPrompt: string,
-  language: string
+  language: string,
+  signal?: AbortSignal
 ): Promise<string> => {
   if (!inputPrompt.trim()) return "";
+  const provider = getRenderProvider();
   try {
-    const ai = getAIClient();
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { 
-        parts: [{ 
-          text: `Refine this architectural idea into a concise visualization prompt (50 words) in ${language}. Input: "${inputPrompt}"` 
-        }]
-      },
-      config: { temperature: 0.7 }
-    });
-    return response.text?.trim() || inputPrompt;
+    const instruction = renderPromptTemplate('refine', { userVision: inputPrompt, language });
+    const refined = await schedule(provider, 'refine', () => provider.refine(instruction, signal), signal);
+    return refined || inputPrompt;
   } catch (e) {
     return inputPrompt;
   }
 };
 
+type RenderOutcome = { imageData?: string; error?: string; errorKind?: ServiceErrorKind };
+
+const toFailedOutcome = (error: ServiceError): RenderOutcome => ({ error: error.message, errorKind: error.kind });
+
+// Helper: Render one image through the scheduler, which retries quota/overload errors.
+// Only throws on cancellation, failures are returned on the outcome so the rest of the batch carries on.
+const renderImage = async (
+  provider: RenderProvider,
+  request: RenderRequest,
+  signal?: AbortSignal
+): Promise<RenderOutcome> => {
+  try {
+    return { imageData: await schedule(provider, 'render', () => provider.render(request, signal), signal) };
+  } catch (err) {
+    rethrowIfAborted(err, signal);
+    console.warn("Render failed.", err);
+    return toFailedOutcome(toServiceError(err));
+  }
+};
+
+// Scene conditions for the analysis template; sweeps leave the individual values out
+type SceneValues = { sceneConditions: string; camera: string; lighting?: string; sunDirection?: string; weather?: string };
+
+// Helper: Scene conditions from the presets, or from the real sun position when a site is set
+const getSceneValues = (params: GenerationParams): SceneValues => {
+  if (!params.siteSun?.enabled) {
+    return {
+      sceneConditions: `Params: ${params.lighting}, ${params.sunDirection}, ${params.weather}`,
+      camera: describeCamera(params.camera),
+      lighting: params.lighting,
+      sunDirection: params.sunDirection,
+      weather: params.weather,
+    };
+  }
+  const sun = describeSiteSun(params.siteSun);
+  return {
+    sceneConditions: `${sun.summary}\nWeather: ${params.weather}`,
+    camera: describeCamera(params.camera),
+    lighting: sun.lighting,
+    sunDirection: sun.sunDirection,
+    weather: params.weather,
+  };
+};
+
+// Helper: Step 1 structured analysis shared by single runs and sweeps
+const analyzeInputs = async (
+  provider: RenderProvider,
+  sketch: UploadedImage,
+  context: UploadedImage | null,
+  references: UploadedImage[],
+  userPrompt: string,
+  scene: SceneValues,
+  language: string,
+  quality: RenderQuality,
+  signal?: AbortSignal
+): Promise<SceneAnalysis> => {
+  let analysis: SceneAnalysis;
+  try {
+    const images: ImagePayload[] = [];
+    images.push(await fileToPayload(sketch.file, quality));
+    if (context) images.push(await fileToPayload(context.file, quality));
+    for (const ref of references) images.push(await fileToPayload(ref.file, quality));
+    throwIfAborted(signal);
+    
+    const instruction = renderPromptTemplate('analyze', {
+      ...scene,
+      userVision: userPrompt,
+      references: describeReferences(references, context ? 3 : 2),
+      language
+    });
+
+    analysis = await schedule(provider, 'analyze', () => provider.analyze({ images, instruction }, signal), signal);
+  } catch (error) {
+    rethrowIfAborted(error, signal);
+    console.error("Analysis failed:", error);
+    throw toServiceError(error);
+  }
+
+  if (isSceneAnalysisEmpty(analysis)) {
+    throw new EmptyResponseError("Analysis failed: The model returned an empty scene description.");
+  }
+  return analysis;
+};
+
+const buildImagePrompt = (analysis: SceneAnalysis, masterStylePrompt?: string, extraLines: string[] = []) =>
+  renderPromptTemplate('render', {
+    masterStyle: masterStylePrompt,
+    analysis: assembleScenePrompt(analysis),
+    notes: extraLines.join('\n'),
+  });
+
+// Helper: Frame and resize the sketch once per run, a failure here is reported on each result
+const prepareSketch = async (
+  sketch: UploadedImage,
+  params: GenerationParams
+): Promise<{ payload: ImagePayload | null; aspectRatio: AspectRatio; failure?: RenderOutcome }> => {
+  const aspectRatio = resolveAspectRatio(params.aspectRatio, sketch.width, sketch.height);
+  try {
+      return { payload: await fileToPayload(sketch.file, params.quality, { ratio: aspectRatio, framing: params.framing }), aspectRatio };
+  } catch (error) {
+      return { payload: null, aspectRatio, failure: toFailedOutcome(toServiceError(error)) };
+  }
+};
+
+/**
+ * Step 1 on its own: returns the structured scene analysis so the user can review
+ * and correct it before anything is rendered.
+ */
+export const analyzeArchitecturalScene = async (
+  sketch: UploadedImage,
+  context: UploadedImage | null,
+  references: UploadedImage[],
+  params: GenerationParams,
+  userPrompt: string,
+  signal?: AbortSignal
+): Promise<SceneAnalysis> => {
+  return analyzeInputs(
+    getRenderProvider(),
+    sketch,
+    context,
+    references,
+    userPrompt,
+    getSceneValues(params),
+    params.language,
+    params.quality,
+    signal
+  );
+};
+
+/**
+ * Step 2 on its own: renders `variationCount` alternatives from a (possibly user-edited) analysis.
+ * `onVariationReady` fires as each render finishes so the UI can fill in progressively.
+ */
+export const renderArchitecturalVariations = async (
+  sketch: UploadedImage,
+  analysis: SceneAnalysis,
+  params: GenerationParams,
+  masterStylePrompt?: string,
+  variationCount = 1,
+  onVariationReady?: (result: PromptResult, index: number) => void,
+  signal?: AbortSignal
+): Promise<PromptResult[]> => {
+  const provider = getRenderProvider();
+  const batchId = Date.now().toString();
+  const prompt = assembleScenePrompt(analysis);
+  // The analysis may have been edited since, so camera and sun are stated again for the render itself
+  const sunNotes = params.siteSun?.enabled ? [describeSiteSun(params.siteSun).summary] : [];
+
+  // Prepare the sketch once to avoid reprocessing
+  const { payload: sketchPayload, aspectRatio, failure: setupFailure } = await prepareSketch(sketch, params);
+
+  // All variations are queued at once; the scheduler decides how many actually run in parallel
+  const renderVariation = async (index: number): Promise<PromptResult> => {
+    // Nudge the model away from repeating the first composition
+    const imageGenPrompt = buildImagePrompt(analysis, masterStylePrompt, [
+      describeCamera(params.camera),
+      ...sunNotes,
+      ...(variationCount > 1
+        ? [`VARIATION ${index + 1} OF ${variationCount}: Offer a distinct alternative in ${sunNotes.length > 0 ? 'materials and planting' : 'materials, planting and light'} while keeping the same geometry.`]
+        : []),
+    ]);
+
+    const outcome = sketchPayload
+      ? await renderImage(provider, { sketch: sketchPayload, prompt: imageGenPrompt, aspectRatio }, signal)
+      : setupFailure!;
+
+    const id = variationCount > 1 ? `${batchId}-${index + 1}` : batchId;
+    const result: PromptResult = {
+      id,
+      prompt,
+      imageData: outcome.imageData,
+      error: outcome.error,
+      errorKind: outcome.errorKind,
+      timestamp: Date.now(),
+      batchId: variationCount > 1 ? batchId : undefined,
+      variationIndex: variationCount > 1 ? index : undefined,
+      analysis,
+      aspectRatio,
+      params,
+      model: provider.budgets.render.model,
+      rootId: id,
+      operation: ResultOperation.Generate,
+      operationInputs: { masterStyle: masterStylePrompt }
+    };
+    if (onVariationReady) onVariationReady(result, index);
+    return result;
+  };
+
+  return Promise.all(Array.from({ length: variationCount }, (_, index) => renderVariation(index)));
+};
+
+/**
+ * Analyzes the inputs once, then renders `variationCount` alternatives from the same analysis.
+ */
 export const generateArchitecturalPrompt = async (
   sketch: UploadedImage,
   context: UploadedImage | null,
@@ -142,144 +301,132 @@ export const generateArchitecturalPrompt = async (
   params: GenerationParams,
   userPrompt: string, 
   onStatusUpdate?: (status: 'analyzing' | 'generating') => void,
-  masterStylePrompt?: string
-): Promise<PromptResult> => {
-  
-  const ai = getAIClient();
+  masterStylePrompt?: string,
+  variationCount = 1,
+  onVariationReady?: (result: PromptResult, index: number) => void,
+  signal?: AbortSignal
+): Promise<PromptResult[]> => {
 
-  // --- Step 1: Text Analysis ---
+  // --- Step 1: Structured Analysis ---
   if (onStatusUpdate) onStatusUpdate('analyzing');
-  
-  let optimizedPrompt = "";
-  try {
-    const textParts = [];
-    textParts.push(await fileToPart(sketch.file));
-    if (context) textParts.push(await fileToPart(context.file));
-    for (const ref of references) textParts.push(await fileToPart(ref.file));
-    
-    textParts.push({ text: `
-      Analyze these inputs for an architectural visualization.
-      User Vision: "${userPrompt || 'Not specified'}"
-      Params: ${params.lighting}, ${params.sunDirection}, ${params.weather}
-      Output ONLY the final descriptive prompt in ${params.language}.
-    `});
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: textParts },
-      config: { safetySettings: SAFETY_SETTINGS }
-    });
+  const analysis = await analyzeArchitecturalScene(sketch, context, references, params, userPrompt, signal);
 
-    optimizedPrompt = response.text || "Prompt generation failed.";
-  } catch (error: any) {
-    console.error("Text Gen Error:", error);
-    throw new Error(`Analysis failed: ${error.message || 'Unknown error'}`);
-  }
+  // --- Step 2: Image Generation (one render per variation) ---
+  if (onStatusUpdate) onStatusUpdate('generating');
+  return renderArchitecturalVariations(sketch, analysis, params, masterStylePrompt, variationCount, onVariationReady, signal);
+};
 
-  // --- Step 2: Image Generation (With Retry Logic) ---
-  let generatedImageData: string | undefined = undefined;
-  let imageGenerationError: string | undefined = undefined;
+// Guard against accidentally queuing a quota-burning sweep
+export const MAX_SWEEP_CELLS = 24;
 
-  // Prepare image parts once to avoid reprocessing
-  const imageGenParts = [];
-  try {
-      imageGenParts.push(await fileToPart(sketch.file));
-      const aspectRatio = getBestAspectRatio(sketch.width, sketch.height);
-      const imageGenPrompt = `
-        Create a photorealistic architectural rendering.
-        ${masterStylePrompt ? `STYLE: ${masterStylePrompt}` : 'Style: Photorealistic, 8k, Unreal Engine 5.'}
-        DESCRIPTION: ${optimizedPrompt.slice(0, 800)}
-        CONSTRAINTS: Use sketch geometry strictly. High fidelity.
-      `;
-      imageGenParts.push({ text: imageGenPrompt });
-
-      if (onStatusUpdate) onStatusUpdate('generating');
-
-      // Retry Loop
-      const MAX_RETRIES = 3;
-      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-        try {
-            const imageResponse = await ai.models.generateContent({
-              model: 'gemini-2.5-flash-image', 
-              contents: { parts: imageGenParts },
-              config: {
-                imageConfig: { aspectRatio: aspectRatio },
-                safetySettings: SAFETY_SETTINGS,
-              }
-            });
-
-            const candidate = imageResponse.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-            if (candidate?.inlineData?.data) {
-                generatedImageData = candidate.inlineData.data;
-                break; // Success, exit loop
-            } else {
-                // If no image data, check for text refusal
-                const refusalText = imageResponse.candidates?.[0]?.content?.parts?.find(p => p.text)?.text;
-                throw new Error(refusalText || "Model returned no image data.");
-            }
-
-        } catch (err: any) {
-            const msg = err.message || JSON.stringify(err);
-            const isQuota = msg.includes('429') || msg.includes('quota') || msg.includes('RESOURCE_EXHAUSTED');
-            const isOverloaded = msg.includes('503') || msg.includes('Overloaded');
-
-            console.warn(`Attempt ${attempt} failed.`, err);
-
-            if ((isQuota || isOverloaded) && attempt < MAX_RETRIES) {
-                // Exponential backoff: 2s, 4s
-                const delay = 2000 * attempt; 
-                await wait(delay);
-                continue; // Retry
-            }
-
-            // If we reached here, it's a fatal error or max retries hit.
-            // Santize the error message for the UI
-            if (isQuota) {
-                imageGenerationError = "Daily Quota Exceeded. The free tier for Gemini Image generation is currently exhausted or busy. Please try again later.";
-            } else if (msg.includes('Safety') || msg.includes('block')) {
-                imageGenerationError = "Safety Block. The model refused the request due to safety guidelines. Try a simpler sketch.";
-            } else {
-                imageGenerationError = `Generation Failed: ${msg.substring(0, 100)}...`;
-            }
-            break; // Exit loop
-        }
-      }
+/**
+ * Renders every combination of the selected lighting, sun and weather values against one sketch.
+ * The analysis runs once without scene conditions; each cell then states its own conditions.
+ * Throws an InvalidInputError for more than MAX_SWEEP_CELLS combinations, whatever the selection came from.
+ */
+export const generateParameterSweep = async (
+  sketch: UploadedImage,
+  context: UploadedImage | null,
+  references: UploadedImage[],
+  params: GenerationParams,
+  userPrompt: string,
+  selection: SweepSelection,
+  onStatusUpdate?: (status: 'analyzing' | 'generating') => void,
+  onCellReady?: (cell: SweepCell, index: number) => void,
+  signal?: AbortSignal
+): Promise<SweepCell[]> => {
 
-  } catch (setupError: any) {
-      imageGenerationError = "Failed to prepare image data: " + setupError.message;
+  const provider = getRenderProvider();
+  const combinations = getSweepCombinations(selection);
+  if (combinations.length === 0) return [];
+  if (combinations.length > MAX_SWEEP_CELLS) {
+    throw new InvalidInputError(`A sweep renders at most ${MAX_SWEEP_CELLS} combinations, ${combinations.length} were selected.`);
   }
 
-  return {
-    id: Date.now().toString(),
-    prompt: optimizedPrompt,
-    imageData: generatedImageData,
-    error: imageGenerationError,
-    timestamp: Date.now()
+  if (onStatusUpdate) onStatusUpdate('analyzing');
+  const analysis = await analyzeInputs(
+    provider,
+    sketch,
+    context,
+    references,
+    userPrompt,
+    {
+      sceneConditions: 'Lighting and weather vary between renders: describe geometry, materials and setting only.',
+      camera: describeCamera(params.camera),
+    },
+    params.language,
+    params.quality,
+    signal
+  );
+
+  const { payload: sketchPayload, aspectRatio, failure: setupFailure } = await prepareSketch(sketch, params);
+
+  if (onStatusUpdate) onStatusUpdate('generating');
+
+  const batchId = Date.now().toString();
+
+  const renderCell = async (index: number): Promise<SweepCell> => {
+    const combination = combinations[index];
+    const imageGenPrompt = buildImagePrompt(analysis, undefined, [
+      `LIGHTING: ${combination.lighting}. SUN DIRECTION: ${combination.sunDirection}. WEATHER: ${combination.weather}.`,
+      describeCamera(params.camera),
+      'Keep camera, geometry and materials identical to the other renders in this series.'
+    ]);
+
+    const outcome = sketchPayload
+      ? await renderImage(provider, { sketch: sketchPayload, prompt: imageGenPrompt, aspectRatio }, signal)
+      : setupFailure!;
+
+    const id = `${batchId}-sweep-${index + 1}`;
+    const cell: SweepCell = {
+      ...combination,
+      result: {
+        id,
+        prompt: `${assembleScenePrompt(analysis)}\n[${combination.lighting} / ${combination.sunDirection} / ${combination.weather}]`,
+        imageData: outcome.imageData,
+        error: outcome.error,
+        errorKind: outcome.errorKind,
+        timestamp: Date.now(),
+        batchId,
+        analysis,
+        aspectRatio,
+        // Each cell states its own conditions, so a site sun does not apply
+        params: {
+          ...params,
+          lighting: combination.lighting,
+          sunDirection: combination.sunDirection,
+          weather: combination.weather,
+          siteSun: { ...params.siteSun, enabled: false },
+        },
+        model: provider.budgets.render.model,
+        rootId: id,
+        operation: ResultOperation.Generate,
+        operationInputs: {}
+      }
+    };
+    if (onCellReady) onCellReady(cell, index);
+    return cell;
   };
+
+  return Promise.all(combinations.map((_, index) => renderCell(index)));
 };
 
 export const applyMasterStyle = async (
   currentImageBase64: string,
   originalPrompt: string,
-  stylePrompt: string
+  stylePrompt: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const ai = getAIClient();
-  const parts = [
-    { inlineData: { data: currentImageBase64, mimeType: 'image/png' } },
-    { text: `Apply style: "${stylePrompt}" to this image. Keep geometry. Photorealistic.` }
-  ];
-
+  const provider = getRenderProvider();
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: parts },
-      config: { safetySettings: SAFETY_SETTINGS }
-    });
-    const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-    if (!data) throw new Error("No image returned.");
-    return data;
-  } catch (error: any) {
-    throw new Error(`Filter failed: ${error.message}`);
+    return await schedule(provider, 'style', () => provider.style({
+      image: { data: currentImageBase64, mimeType: 'image/png' },
+      prompt: renderPromptTemplate('style', { masterStyle: stylePrompt, prompt: originalPrompt }),
+    }, signal), signal);
+  } catch (error) {
+    rethrowIfAborted(error, signal);
+    console.error("Filter failed:", error);
+    throw toServiceError(error);
   }
 };
 
@@ -287,24 +434,94 @@ export const editArchitecturalImage = async (
   originalImageBase64: string,
   maskImageBase64: string,
   editPrompt: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-   const ai = getAIClient();
-   const parts = [
-      { inlineData: { data: originalImageBase64, mimeType: 'image/png' } },
-      { inlineData: { data: maskImageBase64, mimeType: 'image/png' } },
-      { text: `Edit masked area: "${editPrompt}". Blend seamless.` }
-   ];
-
+   const provider = getRenderProvider();
    try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: parts },
-        config: { safetySettings: SAFETY_SETTINGS }
-    });
-    const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-    if (!data) throw new Error("No edited image returned.");
-    return data;
-   } catch (error: any) {
-      throw new Error(`Edit failed: ${error.message}`);
+    return await schedule(provider, 'edit', () => provider.edit({
+      image: { data: originalImageBase64, mimeType: 'image/png' },
+      mask: { data: maskImageBase64, mimeType: 'image/png' },
+      prompt: renderPromptTemplate('edit', { editRequest: editPrompt }),
+    }, signal), signal);
+   } catch (error) {
+      rethrowIfAborted(error, signal);
+      console.error("Edit failed:", error);
+      throw toServiceError(error);
    }
 };
+
+/**
+ * Edits several regions into one result. 'sequential' runs one edit per region on the output of the
+ * previous one; 'combined' sends a single request with a colour-coded mask and every instruction.
+ */
+export const editArchitecturalRegions = async (
+  originalImageBase64: string,
+  regions: EditRegion[],
+  strategy: EditStrategy,
+  signal?: AbortSignal
+): Promise<string> => {
+  const usable = regions.filter(r => r.mask && r.prompt.trim());
+  if (usable.length === 0) throw new InvalidInputError("No region has both a selection and an instruction.");
+
+  if (usable.length === 1 || strategy === 'sequential') {
+    let image = originalImageBase64;
+    for (const region of usable) {
+      image = await editArchitecturalImage(image, region.mask!, region.prompt, signal);
+    }
+    return image;
+  }
+
+  const colorMask = await composeRegionMasks(usable, true);
+  const editRequest = 'Each colour in the mask marks one region. ' +
+    usable.map(r => `${r.name} (${r.color}): ${r.prompt.trim()}`).join('; ');
+  return editArchitecturalImage(originalImageBase64, colorMask, editRequest, signal);
+};
+
+/**
+ * Enlarges a render by `factor` for print. The enlargement is cut into overlapping tiles that are
+ * enhanced in parallel and blended back together; tiles that fail keep the plain enlargement.
+ * Only throws when every tile failed.
+ */
+export const upscaleImage = async (
+  imageBase64: string,
+  prompt: string,
+  factor: number,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<{ imageData: string; failedTiles: number; totalTiles: number }> => {
+  const provider = getRenderProvider();
+  const source = await loadBase64Image(imageBase64);
+  const tiles = planTiles(source.width, source.height, factor);
+  const instruction = renderPromptTemplate('enhance', { prompt });
+  let done = 0;
+  if (onProgress) onProgress(done, tiles.length);
+
+  const outcomes = await Promise.all(tiles.map(async tile => {
+    try {
+      const enhanced = await schedule(provider, 'enhance', () => provider.enhance({
+        image: { data: cropTile(source, tile, factor), mimeType: 'image/png' },
+        prompt: instruction,
+        aspectRatio: '1:1', // Tiles are padded to squares
+      }, signal), signal);
+      return { enhanced };
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      console.warn("Tile enhancement failed.", error);
+      return { error };
+    } finally {
+      done++;
+      if (onProgress) onProgress(done, tiles.length);
+    }
+  }));
+
+  const failed = outcomes.filter(o => !o.enhanced);
+  if (failed.length === tiles.length) throw toServiceError(failed[0].error);
+
+  // Drawn in planned order so each tile fades over the ones to its left and above
+  const output = createUpscaleCanvas(source, factor);
+  for (let i = 0; i < tiles.length; i++) {
+    const enhanced = outcomes[i].enhanced;
+    if (enhanced) drawTile(output.ctx, await loadBase64Image(enhanced), tiles[i], factor);
+  }
+  return { imageData: output.canvas.toDataURL('image/png').split(',')[1], failedTiles: failed.length, totalTiles: tiles.length };
+};
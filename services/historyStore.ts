@@ -0,0 +1,274 @@
+import { HistoryEntry, HistoryPage } from "../types";
+
+// Persistent render history backed by IndexedDB.
+// Entries are keyed by result id and listed newest first through the timestamp index;
+// the rootId index (added in version 2) groups every result of one lineage tree.
+// Since version 3 sketches live in their own store, once for all the entries made from them,
+// and are deleted with the last entry that uses them. Older entries keep theirs inline.
+
+const DB_NAME = 'eden-archviz';
+const DB_VERSION = 3;
+const STORE_NAME = 'history';
+const SKETCH_STORE = 'sketches';
+const TIMESTAMP_INDEX = 'timestamp';
+const ROOT_INDEX = 'rootId';
+const SKETCH_INDEX = 'sketchId';
+
+// How many of the oldest entries to drop per attempt when the browser quota is hit
+const EVICTION_BATCH = 5;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isHistoryAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const store = db.objectStoreNames.contains(STORE_NAME)
+          ? request.transaction!.objectStore(STORE_NAME)
+          : db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        if (!store.indexNames.contains(TIMESTAMP_INDEX)) store.createIndex(TIMESTAMP_INDEX, 'timestamp');
+        // Entries saved before lineage tracking have no rootId and are simply left out of this index
+        if (!store.indexNames.contains(ROOT_INDEX)) store.createIndex(ROOT_INDEX, 'result.rootId');
+        if (!store.indexNames.contains(SKETCH_INDEX)) store.createIndex(SKETCH_INDEX, 'sketchId');
+        if (!db.objectStoreNames.contains(SKETCH_STORE)) db.createObjectStore(SKETCH_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Failed to open history database"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("History transaction aborted"));
+  });
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const matchesQuery = (entry: HistoryEntry, query: string) => {
+  const haystack = [entry.result.prompt, entry.userPrompt, entry.masterStyle || '', entry.sketchName || '']
+    .join(' ')
+    .toLowerCase();
+  return haystack.includes(query);
+};
+
+// Deletes the sketches no entry refers to any more; runs after the entry deletions queued in `tx`
+const deleteUnusedSketches = (tx: IDBTransaction, sketchIds: (string | undefined)[]) => {
+  const sketches = tx.objectStore(SKETCH_STORE);
+  const index = tx.objectStore(STORE_NAME).index(SKETCH_INDEX);
+  new Set(sketchIds).forEach(sketchId => {
+    if (!sketchId) return;
+    const users = index.count(sketchId);
+    users.onsuccess = () => {
+      if (users.result === 0) sketches.delete(sketchId);
+    };
+  });
+};
+
+// Gives entries whose sketch is stored separately their sketch back
+const attachSketches = async (db: IDBDatabase, entries: HistoryEntry[]): Promise<HistoryEntry[]> => {
+  const sketches = db.transaction(SKETCH_STORE, 'readonly').objectStore(SKETCH_STORE);
+  return Promise.all(entries.map(async entry => {
+    if (entry.sketch || !entry.sketchId) return entry;
+    const sketch = await requestToPromise(sketches.get(entry.sketchId)) as Blob | undefined;
+    return { ...entry, sketch };
+  }));
+};
+
+// Deletes the N oldest entries, returns how many were actually removed
+const evictOldest = async (db: IDBDatabase, count: number): Promise<number> => {
+  const tx = db.transaction([STORE_NAME, SKETCH_STORE], 'readwrite');
+  const index = tx.objectStore(STORE_NAME).index(TIMESTAMP_INDEX);
+  const sketchIds: (string | undefined)[] = [];
+  let removed = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || removed >= count) {
+        deleteUnusedSketches(tx, sketchIds);
+        resolve();
+        return;
+      }
+      sketchIds.push((cursor.value as HistoryEntry).sketchId);
+      cursor.delete();
+      removed++;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+  await transactionDone(tx);
+  return removed;
+};
+
+/**
+ * Saves an entry, evicting the oldest renders if the storage quota is exceeded.
+ * Its sketch is stored under `sketchId` (or the entry id) unless a sketch is already stored there.
+ * Resolves with the number of evicted entries so the UI can tell the user.
+ */
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<number> => {
+  const db = await openDatabase();
+  const { sketch, ...stored } = entry;
+  const sketchId = entry.sketchId ?? (sketch ? entry.id : undefined);
+  let evicted = 0;
+
+  while (true) {
+    try {
+      const tx = db.transaction([STORE_NAME, SKETCH_STORE], 'readwrite');
+      if (sketch && sketchId) {
+        const sketches = tx.objectStore(SKETCH_STORE);
+        const existing = sketches.count(sketchId);
+        existing.onsuccess = () => {
+          if (existing.result === 0) sketches.put(sketch, sketchId);
+        };
+      }
+      tx.objectStore(STORE_NAME).put({ ...stored, sketchId });
+      await transactionDone(tx);
+      return evicted;
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+
+      const removed = await evictOldest(db, EVICTION_BATCH);
+      if (removed === 0) throw error; // Nothing left to free, the entry itself is too large
+      evicted += removed;
+    }
+  }
+};
+
+/**
+ * Lists entries newest first. `query` is matched case-insensitively against
+ * the generated prompt, the user prompt, the master style and the sketch name.
+ */
+export const listHistory = async (offset: number, limit: number, query = ''): Promise<HistoryPage> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const index = tx.objectStore(STORE_NAME).index(TIMESTAMP_INDEX);
+  const normalizedQuery = query.trim().toLowerCase();
+
+  if (!normalizedQuery) {
+    const total = await requestToPromise(index.count());
+    const entries: HistoryEntry[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      let skipped = offset === 0;
+      const cursorRequest = index.openCursor(null, 'prev');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || entries.length >= limit) {
+          resolve();
+          return;
+        }
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        entries.push(cursor.value as HistoryEntry);
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+
+    return { entries: await attachSketches(db, entries), total };
+  }
+
+  // Searching has to walk the whole store to count matches
+  const entries: HistoryEntry[] = [];
+  let total = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const entry = cursor.value as HistoryEntry;
+      if (matchesQuery(entry, normalizedQuery)) {
+        if (total >= offset && entries.length < limit) entries.push(entry);
+        total++;
+      }
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+  return { entries: await attachSketches(db, entries), total };
+};
+
+/** One saved entry, or null if there is none for `id`. */
+export const getHistoryEntry = async (id: string): Promise<HistoryEntry | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const entry = await requestToPromise(tx.objectStore(STORE_NAME).get(id)) as HistoryEntry | undefined;
+  return entry ? (await attachSketches(db, [entry]))[0] : null;
+};
+
+/** Every saved entry of one lineage tree, oldest first. */
+export const listLineageEntries = async (rootId: string): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const entries = await requestToPromise(tx.objectStore(STORE_NAME).index(ROOT_INDEX).getAll(rootId));
+  return attachSketches(db, (entries as HistoryEntry[]).sort((a, b) => a.timestamp - b.timestamp));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_NAME, SKETCH_STORE], 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    store.delete(id);
+    deleteUnusedSketches(tx, [(request.result as HistoryEntry | undefined)?.sketchId]);
+  };
+  await transactionDone(tx);
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_NAME, SKETCH_STORE], 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  tx.objectStore(SKETCH_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Returns bytes used and available for this origin, or null if the browser doesn't report it.
+ * Also asks the browser to keep our storage from being cleared under pressure.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    if (navigator.storage.persist) {
+      navigator.storage.persisted().then(persisted => {
+        if (!persisted) navigator.storage.persist().catch(() => {});
+      }).catch(() => {});
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (e) {
+    return null;
+  }
+};
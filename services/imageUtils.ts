@@ -0,0 +1,114 @@
+import { UploadedImage, RenderQuality, UploadRejection } from "../types";
+
+// Longest side and JPEG quality of the images sent to the model
+export const UPLOAD_QUALITY: Record<RenderQuality, { maxSize: number; jpegQuality: number }> = {
+  [RenderQuality.Draft]: { maxSize: 512, jpegQuality: 0.7 },
+  [RenderQuality.Standard]: { maxSize: 800, jpegQuality: 0.85 },
+  [RenderQuality.High]: { maxSize: 1536, jpegQuality: 0.92 },
+};
+
+// Helper: Wrap a file as an UploadedImage with its pixel dimensions
+export const createUploadedImage = (file: File): Promise<UploadedImage> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      resolve({
+        file,
+        previewUrl: url,
+        id: Math.random().toString(36).substring(2, 11),
+        width: img.width,
+        height: img.height
+      });
+    };
+    img.onerror = () => {
+      resolve({
+        file,
+        previewUrl: url,
+        id: Math.random().toString(36).substring(2, 11),
+        width: 0,
+        height: 0
+      });
+    };
+    img.src = url;
+  });
+};
+
+// What the uploaders accept; anything larger than the quality preset is scaled down before sending
+export const UPLOAD_LIMITS = {
+  types: ['image/jpeg', 'image/png', 'image/webp'],
+  maxBytes: 10 * 1024 * 1024,
+  minSide: 128,
+  maxSide: 8192,
+};
+
+// Helper: EXIF orientation of a JPEG, 1 meaning upright
+const readJpegOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    if (view.getUint16(0) !== 0xffd8) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Image data starts, no metadata follows
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // APP1 "Exif"
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const count = view.getUint16(ifd, little);
+        for (let i = 0; i < count; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch (e) {
+    // Truncated or malformed metadata: treat as upright
+  }
+  return 1;
+};
+
+// Helper: Rotated phone photos re-encoded upright. Browsers disagree on whether canvas drawing honours
+// EXIF orientation, so the pixels are fixed once here and everything downstream sees an upright image.
+const normalizeOrientation = async (file: File): Promise<File> => {
+  if (file.type !== 'image/jpeg') return file;
+  const orientation = readJpegOrientation(new Uint8Array(await file.slice(0, 128 * 1024).arrayBuffer()));
+  if (orientation <= 1 || orientation > 8) return file;
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.95));
+  return blob ? new File([blob], file.name, { type: 'image/jpeg', lastModified: file.lastModified }) : file;
+};
+
+/** Checks a file for the uploaders and returns it upright, or the reason it was refused. */
+export const prepareUpload = async (file: File): Promise<{ image: UploadedImage | null; rejection?: UploadRejection }> => {
+  if (!UPLOAD_LIMITS.types.includes(file.type)) return { image: null, rejection: 'type' };
+  if (file.size > UPLOAD_LIMITS.maxBytes) return { image: null, rejection: 'size' };
+
+  let upright = file;
+  try {
+    upright = await normalizeOrientation(file);
+  } catch (e) {
+    console.warn("Orientation fix failed, keeping the file as is", e);
+  }
+
+  const image = await createUploadedImage(upright);
+  if (!image.width || !image.height) {
+    URL.revokeObjectURL(image.previewUrl);
+    return { image: null, rejection: 'unreadable' };
+  }
+  const shortSide = Math.min(image.width, image.height);
+  const longSide = Math.max(image.width, image.height);
+  if (shortSide < UPLOAD_LIMITS.minSide || longSide > UPLOAD_LIMITS.maxSide) {
+    URL.revokeObjectURL(image.previewUrl);
+    return { image: null, rejection: 'dimensions' };
+  }
+  return { image };
+};
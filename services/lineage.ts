@@ -0,0 +1,69 @@
+import { PromptResult, ResultOperation, OperationInputs } from "../types";
+
+// Helpers for the result lineage: every styled or edited image points back to the image it came from,
+// and all results descending from one render share that render's id as `rootId`.
+
+export interface LineageNode {
+  result: PromptResult;
+  children: LineageNode[];
+}
+
+export const getRootId = (result: PromptResult) => result.rootId ?? result.id;
+
+/** Creates the result of an operation applied to `parent`, linked into the parent's lineage. */
+export const deriveResult = (
+  parent: PromptResult,
+  operation: ResultOperation,
+  inputs: OperationInputs,
+  fields: Pick<PromptResult, 'prompt' | 'imageData' | 'model'>
+): PromptResult => ({
+  id: crypto.randomUUID(), // Also the history key, so siblings made in the same millisecond must not share it
+  prompt: fields.prompt,
+  imageData: fields.imageData,
+  timestamp: Date.now(),
+  analysis: parent.analysis,
+  aspectRatio: parent.aspectRatio,
+  params: parent.params,
+  model: fields.model ?? parent.model,
+  parentId: parent.id,
+  rootId: getRootId(parent),
+  operation,
+  operationInputs: inputs,
+});
+
+/** Adds or replaces results by id, keeping the list sorted oldest first. */
+export const mergeLineage = (existing: PromptResult[], added: PromptResult[]): PromptResult[] => {
+  const byId = new Map(existing.map(r => [r.id, r]));
+  added.forEach(r => byId.set(r.id, r));
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Builds the tree(s) for one lineage. Results whose parent is no longer known
+ * (deleted from history, or evicted) become roots of their own.
+ */
+export const buildLineageTree = (results: PromptResult[], rootId: string): LineageNode[] => {
+  const members = results.filter(r => getRootId(r) === rootId);
+  const nodes = new Map(members.map(r => [r.id, { result: r, children: [] as LineageNode[] }]));
+  const roots: LineageNode[] = [];
+
+  members.forEach(r => {
+    const node = nodes.get(r.id)!;
+    const parent = r.parentId ? nodes.get(r.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+  return roots;
+};
+
+/** Chain of results from the lineage root down to `id`. */
+export const getLineagePath = (results: PromptResult[], id: string): PromptResult[] => {
+  const byId = new Map(results.map(r => [r.id, r]));
+  const path: PromptResult[] = [];
+  let current = byId.get(id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
@@ -0,0 +1,180 @@
+import { EditRegion } from "../types";
+
+// Pixel helpers for the inpainting selection. Each region's selection lives in the alpha channel of
+// its own layer (painted in the region colour); the exported mask is white where selected on black.
+
+type Rgb = [number, number, number];
+
+// Region colours in the order new regions get them
+export const REGION_COLORS = ['#06b6d4', '#f43f5e', '#f59e0b', '#10b981', '#8b5cf6', '#ec4899'];
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Helper: One box blur pass along rows or columns, with edge pixels repeated
+const boxBlur = (src: Uint8ClampedArray, width: number, height: number, radius: number, horizontal: boolean) => {
+  const dst = new Uint8ClampedArray(src.length);
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 1 : width;
+  const size = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line;
+    const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * step];
+
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      dst[start + i * step] = sum / size;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+  return dst;
+};
+
+/** Blurs one 8-bit channel; three box blur passes approximate a gaussian of the given radius. */
+export const blurChannel = (alpha: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const passRadius = Math.round(radius / 2);
+  if (passRadius < 1) return alpha;
+
+  let result = alpha;
+  for (let pass = 0; pass < 3; pass++) {
+    result = boxBlur(result, width, height, passRadius, true);
+    result = boxBlur(result, width, height, passRadius, false);
+  }
+  return result;
+};
+
+/** Flips selected and unselected pixels in place. */
+export const invertSelection = (selection: ImageData, rgb: Rgb) => {
+  const data = selection.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = rgb[0];
+    data[i + 1] = rgb[1];
+    data[i + 2] = rgb[2];
+    data[i + 3] = 255 - data[i + 3];
+  }
+};
+
+export const isSelectionEmpty = (selection: ImageData) => {
+  const data = selection.data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/** Turns the selection into the black and white mask sent with an edit, feathered by `feather` pixels. */
+export const selectionToMask = (selection: ImageData, feather: number): ImageData => {
+  const { width, height, data } = selection;
+  let alpha = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+  alpha = blurChannel(alpha, width, height, feather);
+
+  const mask = new ImageData(width, height);
+  for (let i = 0; i < alpha.length; i++) {
+    mask.data[i * 4] = alpha[i];
+    mask.data[i * 4 + 1] = alpha[i];
+    mask.data[i * 4 + 2] = alpha[i];
+    mask.data[i * 4 + 3] = 255;
+  }
+  return mask;
+};
+
+export type SelectionMode = 'replace' | 'add' | 'subtract';
+
+/**
+ * Flood-fills from (x, y) over 4-connected pixels whose colour stays within `tolerance`
+ * (largest per-channel difference, 0-255) of the clicked pixel. Returns 1 for selected pixels.
+ */
+export const floodSelect = (image: ImageData, x: number, y: number, tolerance: number): Uint8Array => {
+  const { width, height, data } = image;
+  const region = new Uint8Array(width * height);
+  const startX = Math.floor(x);
+  const startY = Math.floor(y);
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return region;
+
+  const seed = (startY * width + startX) * 4;
+  const [r, g, b] = [data[seed], data[seed + 1], data[seed + 2]];
+  const matches = (index: number) => {
+    const i = index * 4;
+    return Math.max(Math.abs(data[i] - r), Math.abs(data[i + 1] - g), Math.abs(data[i + 2] - b)) <= tolerance;
+  };
+
+  // Scanline fill: take a whole horizontal run at once, then queue the rows above and below
+  const stack: number[] = [startY * width + startX];
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (region[index]) continue;
+    const row = Math.floor(index / width);
+    let left = index;
+    let right = index;
+    while (left % width > 0 && !region[left - 1] && matches(left - 1)) left--;
+    while (right % width < width - 1 && !region[right + 1] && matches(right + 1)) right++;
+
+    for (let i = left; i <= right; i++) {
+      region[i] = 1;
+      if (row > 0 && !region[i - width] && matches(i - width)) stack.push(i - width);
+      if (row < height - 1 && !region[i + width] && matches(i + width)) stack.push(i + width);
+    }
+  }
+  return region;
+};
+
+/** Combines a region into the selection in place: replacing it, adding to it or cutting it out. */
+export const applyRegion = (selection: ImageData, region: Uint8Array, mode: SelectionMode, rgb: Rgb) => {
+  const data = selection.data;
+  for (let i = 0; i < region.length; i++) {
+    const p = i * 4;
+    if (region[i] && mode !== 'subtract') {
+      data[p] = rgb[0];
+      data[p + 1] = rgb[1];
+      data[p + 2] = rgb[2];
+      data[p + 3] = 255;
+    } else if (region[i] || mode === 'replace') {
+      data[p + 3] = 0;
+    }
+  }
+};
+
+// Helper: Decode a base64 PNG mask
+const loadMask = (base64: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Mask could not be decoded."));
+  img.src = `data:image/png;base64,${base64}`;
+});
+
+/**
+ * Merges the masks of several regions into one PNG. With `colored`, each region keeps its own
+ * colour so a single request can tell them apart; otherwise the result is the plain union.
+ */
+export const composeRegionMasks = async (regions: EditRegion[], colored: boolean): Promise<string> => {
+  const masks = await Promise.all(regions.filter(r => r.mask).map(async r => ({ region: r, img: await loadMask(r.mask!) })));
+  const canvas = document.createElement('canvas');
+  canvas.width = masks[0]?.img.width ?? 1;
+  canvas.height = masks[0]?.img.height ?? 1;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  masks.forEach(({ region, img }) => {
+    const layer = document.createElement('canvas');
+    layer.width = canvas.width;
+    layer.height = canvas.height;
+    const layerCtx = layer.getContext('2d')!;
+    layerCtx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    if (colored) {
+      // White becomes the region colour, black stays black
+      layerCtx.globalCompositeOperation = 'multiply';
+      layerCtx.fillStyle = region.color;
+      layerCtx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.globalCompositeOperation = 'lighten';
+    ctx.drawImage(layer, 0, 0);
+  });
+  return canvas.toDataURL('image/png').split(',')[1];
+};
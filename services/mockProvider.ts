@@ -0,0 +1,195 @@
+import { ProviderId, RenderProvider, ImagePayload, SceneAnalysis, ModelBudget } from "../types";
+import { abortableWait } from "./abort";
+import { InvalidInputError } from "./errors";
+import { ASPECT_RATIO_VALUES } from "./aspectRatio";
+
+// Offline provider for UI development, demos and tests.
+// Every output is derived from a hash of the inputs, so the same request always yields the same result.
+
+const MOCK_LATENCY_MS = 400;
+const RENDER_LONG_SIDE = 1024;
+const MOCK_BUDGET: ModelBudget = { model: 'mock', requestsPerMinute: 120 };
+
+const CANNED_ANALYSES: SceneAnalysis[] = [
+  {
+    buildingType: "Contemporary single-storey pavilion",
+    massing: "Long low volume with a cantilevered roof slab and floor-to-ceiling glazing",
+    materials: ["Board-formed concrete", "Timber soffit", "Slender steel mullions"],
+    camera: "Eye-level, slightly off-axis two-point view from the forecourt",
+    landscape: "Reflecting pool in the foreground, gravel paths, ornamental grasses",
+    mood: "Soft natural light, crisp shadows, calm and refined",
+  },
+  {
+    buildingType: "Mid-rise residential block",
+    massing: "Six storeys with staggered balconies and planted terraces",
+    materials: ["Warm red brick", "Bronze window frames", "Glass balustrades"],
+    camera: "Street-level view looking up along the main facade",
+    landscape: "Mature street trees, wide pavement, people walking",
+    mood: "Golden afternoon light, lively and welcoming",
+  },
+  {
+    buildingType: "Minimalist museum",
+    massing: "Stacked rectilinear volume opening onto a sunken plaza",
+    materials: ["Perforated white metal panels", "Limestone paving", "Frameless glazing"],
+    camera: "Elevated three-quarter view from across the plaza",
+    landscape: "Grass mounds, scattered visitors, young birch trees",
+    mood: "Overcast sky with diffuse light, quiet and contemplative",
+  },
+  {
+    buildingType: "Timber community hall",
+    massing: "Steep folded roof with a fully glazed gable end",
+    materials: ["Exposed glulam structure", "Larch cladding", "Standing-seam zinc roof"],
+    camera: "Low eye-level view toward the glazed gable",
+    landscape: "Gravel forecourt with wild meadow planting",
+    mood: "Dusk with a warm interior glow, cinematic",
+  },
+];
+
+// Helper: FNV-1a string hash, stable across sessions
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Only sample the image payloads, hashing full base64 strings is needlessly slow
+const fingerprint = (image: ImagePayload) =>
+  `${image.data.length}:${image.data.slice(0, 256)}:${image.data.slice(-256)}`;
+
+const simulateLatency = (signal?: AbortSignal) => abortableWait(MOCK_LATENCY_MS, signal);
+
+const loadImage = (image: ImagePayload): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new InvalidInputError("Mock provider could not decode the input image."));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  return { canvas, ctx };
+};
+
+const toBase64Png = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png').split(',')[1];
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number, text: string) => {
+  const fontSize = Math.max(14, Math.round(width / 40));
+  ctx.font = `bold ${fontSize}px monospace`;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - fontSize * 2, width, fontSize * 2);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, fontSize / 2, height - fontSize);
+};
+
+export const mockProvider: RenderProvider = {
+  id: ProviderId.Mock,
+  label: 'Offline Mock',
+  budgets: {
+    refine: MOCK_BUDGET,
+    analyze: MOCK_BUDGET,
+    render: MOCK_BUDGET,
+    style: MOCK_BUDGET,
+    edit: MOCK_BUDGET,
+    enhance: MOCK_BUDGET,
+  },
+
+  refine: async (instruction, signal) => {
+    await simulateLatency(signal);
+    const analysis = CANNED_ANALYSES[hashString(instruction) % CANNED_ANALYSES.length];
+    return `${analysis.buildingType}, ${analysis.materials.join(', ').toLowerCase()}. ${analysis.mood}.`;
+  },
+
+  analyze: async ({ images, instruction }, signal) => {
+    await simulateLatency(signal);
+    const seed = hashString(images.map(fingerprint).join('|') + instruction);
+    return { ...CANNED_ANALYSES[seed % CANNED_ANALYSES.length] };
+  },
+
+  render: async ({ sketch, prompt, aspectRatio }, signal) => {
+    await simulateLatency(signal);
+    const seed = hashString(fingerprint(sketch) + prompt + aspectRatio);
+    const ratio = ASPECT_RATIO_VALUES[aspectRatio] ?? 1.0;
+    const width = ratio >= 1 ? RENDER_LONG_SIDE : Math.round(RENDER_LONG_SIDE * ratio);
+    const height = ratio >= 1 ? Math.round(RENDER_LONG_SIDE / ratio) : RENDER_LONG_SIDE;
+    const { canvas, ctx } = createCanvas(width, height);
+
+    // Sky-to-ground gradient with a hue picked from the seed
+    const hue = seed % 360;
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 70%)`);
+    gradient.addColorStop(0.65, `hsl(${(hue + 30) % 360}, 30%, 55%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 20%, 30%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    // Keep the sketch geometry readable on top of the backdrop
+    const img = await loadImage(sketch);
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.drawImage(img, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+
+    drawWatermark(ctx, width, height, `MOCK RENDER ${aspectRatio} #${seed.toString(16)}`);
+    return toBase64Png(canvas);
+  },
+
+  style: async ({ image, prompt }, signal) => {
+    await simulateLatency(signal);
+    const seed = hashString(fingerprint(image) + prompt);
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(img.width, img.height);
+
+    const upper = prompt.toUpperCase();
+    ctx.filter = upper.includes('MONOCHROME') || upper.includes('B&W')
+      ? 'grayscale(1) contrast(1.4)'
+      : `hue-rotate(${seed % 360}deg) saturate(1.3)`;
+    ctx.drawImage(img, 0, 0);
+    ctx.filter = 'none';
+
+    drawWatermark(ctx, img.width, img.height, `MOCK STYLE #${seed.toString(16)}`);
+    return toBase64Png(canvas);
+  },
+
+  edit: async ({ image, mask, prompt }, signal) => {
+    await simulateLatency(signal);
+    const seed = hashString(fingerprint(image) + fingerprint(mask) + prompt);
+    const [img, maskImg] = await Promise.all([loadImage(image), loadImage(mask)]);
+    const { canvas, ctx } = createCanvas(img.width, img.height);
+    ctx.drawImage(img, 0, 0);
+
+    // Tint only the white area of the mask
+    const tint = createCanvas(img.width, img.height);
+    tint.ctx.drawImage(maskImg, 0, 0, img.width, img.height);
+    tint.ctx.globalCompositeOperation = 'multiply';
+    tint.ctx.fillStyle = `hsl(${seed % 360}, 70%, 55%)`;
+    tint.ctx.fillRect(0, 0, img.width, img.height);
+
+    ctx.globalCompositeOperation = 'screen';
+    ctx.drawImage(tint.canvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+
+    drawWatermark(ctx, img.width, img.height, `MOCK EDIT #${seed.toString(16)}`);
+    return toBase64Png(canvas);
+  },
+
+  enhance: async ({ image }, signal) => {
+    await simulateLatency(signal);
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(img.width, img.height);
+
+    // A light crispening stands in for added detail; no watermark, tiles are stitched together
+    ctx.filter = 'contrast(1.08) saturate(1.05)';
+    ctx.drawImage(img, 0, 0);
+    ctx.filter = 'none';
+    return toBase64Png(canvas);
+  },
+};
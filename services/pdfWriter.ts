@@ -0,0 +1,86 @@
+// Minimal PDF writer for image-only documents: every page is one full-bleed JPEG.
+// Enough for presentation boards, where the layout is drawn on a canvas beforehand.
+
+export interface PdfPage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  widthMm: number; // Printed page size
+  heightMm: number;
+}
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+const MM_TO_PT = 72 / 25.4;
+
+// Helper: Text string as UTF-16BE hex, so titles in any language survive
+const pdfString = (value: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+};
+
+// Helper: PDF date, e.g. D:20240131120000
+const pdfDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+/** Builds a PDF with one JPEG per page, plus the document info shown by PDF viewers. */
+export const createPdf = (pages: PdfPage[], info: PdfInfo = {}): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // Objects are numbered in the order they are written, starting at 1
+  const writeObject = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Catalog, page tree and info come first; each page then takes three objects
+  const pageIds = pages.map((_, index) => 4 + index * 3);
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  writeObject('<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(`<< /Producer ${pdfString('EDEN ArchViz')} /CreationDate (${pdfDate(new Date())})` +
+    (info.title ? ` /Title ${pdfString(info.title)}` : '') +
+    (info.author ? ` /Author ${pdfString(info.author)}` : '') +
+    (info.subject ? ` /Subject ${pdfString(info.subject)}` : '') +
+    ' >>');
+
+  pages.forEach((page, index) => {
+    const width = (page.widthMm * MM_TO_PT).toFixed(2);
+    const height = (page.heightMm * MM_TO_PT).toFixed(2);
+    const contentId = pageIds[index] + 1;
+    const imageId = pageIds[index] + 2;
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Board Do Q`);
+
+    writeObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Contents ${contentId} 0 R /Resources << /XObject << /Board ${imageId} 0 R >> >> >>`);
+    writeObject(`<< /Length ${content.length} >>`, content);
+    writeObject(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,144 @@
+import { PromptResult, RenderMetadata, GenerationParams } from "../types";
+import { crc32 } from "./crc32";
+
+// Render metadata travels inside downloaded PNGs as iTXt text chunks: plain keywords that any
+// image viewer shows (Description, Software, Source) plus the full record as JSON for re-import.
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const METADATA_KEYWORD = 'eden:render';
+const METADATA_VERSION = 1;
+const SOFTWARE = 'EDEN ArchViz';
+const TEXT_CHUNKS = ['tEXt', 'iTXt', 'zTXt'];
+
+// Helper: Bytes of Latin-1 and binary strings, and back to base64
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Helper: One chunk with length, type, data and CRC
+const createChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// Helper: Uncompressed international text chunk; keyword, then empty language tag and translated keyword
+const createTextChunk = (keyword: string, text: string) => {
+  const body = new TextEncoder().encode(text);
+  const data = new Uint8Array(keyword.length + 5 + body.length);
+  data.set(latin1(keyword));
+  data.set(body, keyword.length + 5); // Null, compression flag, method, two empty null-terminated fields
+  return createChunk('iTXt', data);
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+
+// Helper: Start, type and keyword of every chunk; the keyword is only read for text chunks
+const listChunks = (png: Uint8Array) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const latin1Decoder = new TextDecoder('latin1');
+  const chunks: { start: number; end: number; type: string; data: Uint8Array; keyword?: string }[] = [];
+  let offset = 8;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = latin1Decoder.decode(png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    const keywordEnd = TEXT_CHUNKS.includes(type) ? data.indexOf(0) : -1;
+    chunks.push({ start: offset, end: offset + 12 + length, type, data, keyword: keywordEnd >= 0 ? latin1Decoder.decode(data.subarray(0, keywordEnd)) : undefined });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+/** Returns a copy of the PNG with the text entries written after the header, replacing any with the same keyword. */
+export const writePngText = (png: Uint8Array, entries: Record<string, string>): Uint8Array => {
+  if (!isPng(png)) throw new Error("Not a PNG image.");
+  const added = Object.entries(entries).filter(([, text]) => text).map(([keyword, text]) => createTextChunk(keyword, text));
+  const kept = listChunks(png)
+    .filter(chunk => !(chunk.keyword !== undefined && chunk.keyword in entries))
+    .map(chunk => png.subarray(chunk.start, chunk.end));
+  const parts = [png.subarray(0, 8), kept[0], ...added, ...kept.slice(1)]; // IHDR has to stay first
+
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+/** Reads the tEXt and uncompressed iTXt chunks of a PNG by keyword. */
+export const readPngText = (png: Uint8Array): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  if (!isPng(png)) return entries;
+  const decoder = new TextDecoder();
+  const latin1Decoder = new TextDecoder('latin1');
+
+  listChunks(png).forEach(({ type, data, keyword }) => {
+    if (keyword === undefined) return;
+    const textStart = keyword.length + 1;
+    if (type === 'tEXt') {
+      entries[keyword] = latin1Decoder.decode(data.subarray(textStart));
+    } else if (type === 'iTXt' && data[textStart] === 0) {
+      // Skip the compression method, language tag and translated keyword
+      const languageEnd = data.indexOf(0, textStart + 2);
+      const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+      if (translatedEnd >= 0) entries[keyword] = decoder.decode(data.subarray(translatedEnd + 1));
+    }
+  });
+  return entries;
+};
+
+/** Collects what is worth knowing about a render later. */
+export const createRenderMetadata = (result: PromptResult, masterStyle?: string, params?: GenerationParams): RenderMetadata => ({
+  version: METADATA_VERSION,
+  resultId: result.id,
+  parentId: result.parentId,
+  rootId: result.rootId,
+  operation: result.operation,
+  prompt: result.prompt,
+  params: result.params ?? params,
+  masterStyle,
+  model: result.model,
+  aspectRatio: result.aspectRatio,
+  createdAt: new Date(result.timestamp).toISOString(),
+});
+
+/** Encodes a render as a PNG file carrying its metadata. */
+export const createRenderPng = (imageBase64: string, metadata: RenderMetadata): Blob => {
+  const png = latin1(atob(imageBase64));
+  // Renders that are not PNG (should a provider return JPEG) are downloaded without metadata
+  if (!isPng(png)) return new Blob([png], { type: 'image/png' });
+  const tagged = writePngText(png, {
+    Description: metadata.prompt,
+    Software: SOFTWARE,
+    Source: metadata.model ?? '',
+    'Creation Time': metadata.createdAt,
+    [METADATA_KEYWORD]: JSON.stringify(metadata),
+  });
+  return new Blob([tagged], { type: 'image/png' });
+};
+
+/** A PNG downloaded from this app: its embedded metadata and the image itself, or null if it carries none. */
+export const readRenderPng = async (file: File): Promise<{ metadata: RenderMetadata; imageData: string } | null> => {
+  const png = new Uint8Array(await file.arrayBuffer());
+  const raw = readPngText(png)[METADATA_KEYWORD];
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.resultId !== 'string' || typeof parsed.prompt !== 'string') return null;
+    if (typeof parsed.version === 'number' && parsed.version > METADATA_VERSION) return null;
+    return { metadata: parsed as RenderMetadata, imageData: toBase64(png) };
+  } catch (e) {
+    return null;
+  }
+};
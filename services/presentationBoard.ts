@@ -0,0 +1,280 @@
+import { BoardTemplateId, BoardFormat, BoardTitleBlock } from "../types";
+import { createPdf } from "./pdfWriter";
+
+// Presentation boards: the input sketch, project details and selected renders laid out on print
+// sheets with a title block. Pages are drawn on canvases, then saved as one PDF or one PNG per sheet.
+
+interface BoardTemplate {
+  widthMm: number;
+  heightMm: number;
+  dpi: number;
+  columns: number; // Renders per sheet
+  rows: number;
+  sidebar: 'left' | 'top'; // Where the sketch and details go
+}
+
+export const BOARD_TEMPLATES: Record<BoardTemplateId, BoardTemplate> = {
+  'a3-landscape': { widthMm: 420, heightMm: 297, dpi: 150, columns: 2, rows: 2, sidebar: 'left' },
+  'a1-poster': { widthMm: 594, heightMm: 841, dpi: 100, columns: 2, rows: 3, sidebar: 'top' },
+};
+
+export interface BoardRender {
+  imageData: string; // Base64 PNG
+  caption: string;
+}
+
+// Everything on the board, with labels already in the UI language
+export interface BoardContent {
+  titleBlock: BoardTitleBlock;
+  sketch?: string; // Image URL of the input sketch
+  details: { label: string; value: string }[]; // Scene parameters, master style and so on
+  prompt: string;
+  renders: BoardRender[];
+  labels: Record<'sketch' | 'prompt' | 'project' | 'jobNumber' | 'author' | 'date' | 'sheet', string>;
+}
+
+// Sizes in millimetres
+const MARGIN = 12;
+const GAP = 6;
+const TITLE_BLOCK_HEIGHT = 26;
+const CAPTION_HEIGHT = 8;
+
+const INK = '#18181b';
+const MUTED = '#71717a';
+const ACCENT = '#0891b2';
+const RULE = '#d4d4d8';
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load image for the board"));
+  img.src = src;
+});
+
+// Helper: Breaks text into lines that fit `maxWidth`, at spaces where possible and between any
+// characters otherwise, so CJK text without spaces wraps too
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    for (const char of paragraph) {
+      const next = line + char;
+      if (ctx.measureText(next).width <= maxWidth || !line) {
+        line = next;
+        continue;
+      }
+      const space = line.lastIndexOf(' ');
+      if (char !== ' ' && space > 0) {
+        lines.push(line.slice(0, space));
+        line = line.slice(space + 1) + char;
+      } else {
+        lines.push(line);
+        line = char === ' ' ? '' : char;
+      }
+    }
+    lines.push(line);
+  });
+  return lines;
+};
+
+// Helper: Wrapped text clipped to `maxLines`, with an ellipsis when cut. Returns the y below it.
+const drawParagraph = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number, maxLines: number) => {
+  const lines = wrapLines(ctx, text, maxWidth);
+  const shown = lines.slice(0, Math.max(0, maxLines));
+  if (lines.length > shown.length && shown.length > 0) shown[shown.length - 1] = shown[shown.length - 1].replace(/.?$/, '…');
+  shown.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+  return y + shown.length * lineHeight;
+};
+
+// Helper: Fits an image inside a box, centred, with a hairline frame
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / img.width, height / img.height);
+  const w = img.width * scale;
+  const h = img.height * scale;
+  const left = x + (width - w) / 2;
+  const top = y + (height - h) / 2;
+  ctx.drawImage(img, left, top, w, h);
+  ctx.strokeStyle = RULE;
+  ctx.lineWidth = 1;
+  ctx.strokeRect(left, top, w, h);
+};
+
+/** Number of sheets needed for `renderCount` renders. */
+export const getBoardPageCount = (templateId: BoardTemplateId, renderCount: number) => {
+  const { columns, rows } = BOARD_TEMPLATES[templateId];
+  return Math.max(1, Math.ceil(renderCount / (columns * rows)));
+};
+
+/** Draws every sheet of the board. The sketch and details repeat on each sheet so pages stand alone. */
+export const renderBoardPages = async (content: BoardContent, templateId: BoardTemplateId): Promise<HTMLCanvasElement[]> => {
+  const template = BOARD_TEMPLATES[templateId];
+  const mm = template.dpi / 25.4;
+  const width = Math.round(template.widthMm * mm);
+  const height = Math.round(template.heightMm * mm);
+  const perPage = template.columns * template.rows;
+  const pageCount = getBoardPageCount(templateId, content.renders.length);
+
+  const [sketch, renders] = await Promise.all([
+    content.sketch ? loadImage(content.sketch).catch(() => null) : Promise.resolve(null),
+    Promise.all(content.renders.map(r => loadImage(`data:image/png;base64,${r.imageData}`).catch(() => null))),
+  ]);
+
+  // Content area above the title block, split into the sidebar and the render grid
+  const area = { x: MARGIN * mm, y: MARGIN * mm, width: width - 2 * MARGIN * mm, height: height - (2 * MARGIN + TITLE_BLOCK_HEIGHT + GAP) * mm };
+  const sidebar = template.sidebar === 'left'
+    ? { x: area.x, y: area.y, width: area.width * 0.28, height: area.height }
+    : { x: area.x, y: area.y, width: area.width, height: area.height * 0.24 };
+  const grid = template.sidebar === 'left'
+    ? { x: sidebar.x + sidebar.width + GAP * mm, y: area.y, width: area.width - sidebar.width - GAP * mm, height: area.height }
+    : { x: area.x, y: sidebar.y + sidebar.height + GAP * mm, width: area.width, height: area.height - sidebar.height - GAP * mm };
+
+  const drawSidebar = (ctx: CanvasRenderingContext2D) => {
+    const label = (text: string, x: number, y: number) => {
+      ctx.fillStyle = ACCENT;
+      ctx.font = `bold ${3.2 * mm}px sans-serif`;
+      ctx.fillText(text.toUpperCase(), x, y);
+    };
+
+    // Sketch on top (left sidebar) or on the left (top band); details and prompt fill the rest
+    const sketchBox = template.sidebar === 'left'
+      ? { x: sidebar.x, y: sidebar.y + 6 * mm, width: sidebar.width, height: sidebar.height * 0.38 }
+      : { x: sidebar.x, y: sidebar.y + 6 * mm, width: sidebar.width * 0.32, height: sidebar.height - 6 * mm };
+    label(content.labels.sketch, sidebar.x, sidebar.y);
+    if (sketch) drawContained(ctx, sketch, sketchBox.x, sketchBox.y, sketchBox.width, sketchBox.height);
+
+    const text = template.sidebar === 'left'
+      ? { x: sidebar.x, y: sketchBox.y + sketchBox.height + GAP * mm, width: sidebar.width }
+      : { x: sketchBox.x + sketchBox.width + GAP * mm, y: sidebar.y, width: sidebar.width - sketchBox.width - GAP * mm };
+    const bottom = sidebar.y + sidebar.height;
+    const lineHeight = 5 * mm;
+    let y = text.y;
+
+    content.details.forEach(detail => {
+      ctx.fillStyle = MUTED;
+      ctx.font = `${3 * mm}px sans-serif`;
+      ctx.fillText(detail.label, text.x, y);
+      ctx.fillStyle = INK;
+      ctx.font = `${3.4 * mm}px sans-serif`;
+      y = drawParagraph(ctx, detail.value, text.x + text.width * 0.38, y, text.width * 0.62, lineHeight, 2);
+    });
+
+    if (content.prompt.trim()) {
+      y += GAP * mm / 2;
+      label(content.labels.prompt, text.x, y);
+      ctx.fillStyle = INK;
+      ctx.font = `${3 * mm}px sans-serif`;
+      const promptLineHeight = 4.4 * mm;
+      drawParagraph(ctx, content.prompt, text.x, y + 6 * mm, text.width, promptLineHeight, Math.floor((bottom - y - 6 * mm) / promptLineHeight));
+    }
+  };
+
+  const drawTitleBlock = (ctx: CanvasRenderingContext2D, page: number) => {
+    const top = height - (MARGIN + TITLE_BLOCK_HEIGHT) * mm;
+    ctx.strokeStyle = INK;
+    ctx.lineWidth = 0.5 * mm;
+    ctx.beginPath();
+    ctx.moveTo(MARGIN * mm, top);
+    ctx.lineTo(width - MARGIN * mm, top);
+    ctx.stroke();
+
+    // Project name takes the wide first field, then fixed fields left to right
+    const { titleBlock, labels } = content;
+    const fields = [
+      { label: labels.jobNumber, value: titleBlock.jobNumber },
+      { label: labels.author, value: titleBlock.author },
+      { label: labels.date, value: titleBlock.date },
+      { label: labels.sheet, value: `${page + 1} / ${pageCount}` },
+    ];
+    const fieldWidth = 48 * mm;
+    const fieldsLeft = width - MARGIN * mm - fields.length * fieldWidth;
+
+    ctx.fillStyle = MUTED;
+    ctx.font = `${3 * mm}px sans-serif`;
+    ctx.fillText(labels.project.toUpperCase(), MARGIN * mm, top + 4 * mm);
+    ctx.fillStyle = INK;
+    ctx.font = `bold ${9 * mm}px sans-serif`;
+    drawParagraph(ctx, titleBlock.project, MARGIN * mm, top + 9 * mm, fieldsLeft - (MARGIN + GAP) * mm, 10 * mm, 1);
+
+    fields.forEach((field, i) => {
+      const x = fieldsLeft + i * fieldWidth;
+      ctx.strokeStyle = RULE;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, top + 3 * mm);
+      ctx.lineTo(x, top + TITLE_BLOCK_HEIGHT * mm);
+      ctx.stroke();
+      ctx.fillStyle = MUTED;
+      ctx.font = `${3 * mm}px sans-serif`;
+      ctx.fillText(field.label.toUpperCase(), x + 3 * mm, top + 4 * mm);
+      ctx.fillStyle = INK;
+      ctx.font = `bold ${4.5 * mm}px sans-serif`;
+      drawParagraph(ctx, field.value || '—', x + 3 * mm, top + 10 * mm, fieldWidth - 5 * mm, 5.5 * mm, 2);
+    });
+
+    ctx.fillStyle = ACCENT;
+    ctx.font = `bold ${3 * mm}px monospace`;
+    ctx.fillText('EDEN ARCHVIZ', MARGIN * mm, top + (TITLE_BLOCK_HEIGHT - 3) * mm);
+  };
+
+  const cellWidth = (grid.width - (template.columns - 1) * GAP * mm) / template.columns;
+  const cellHeight = (grid.height - (template.rows - 1) * GAP * mm) / template.rows;
+
+  return Array.from({ length: pageCount }, (_, page) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.textBaseline = 'top';
+
+    drawSidebar(ctx);
+    drawTitleBlock(ctx, page);
+
+    content.renders.slice(page * perPage, (page + 1) * perPage).forEach((render, i) => {
+      const index = page * perPage + i;
+      const x = grid.x + (i % template.columns) * (cellWidth + GAP * mm);
+      const y = grid.y + Math.floor(i / template.columns) * (cellHeight + GAP * mm);
+      const img = renders[index];
+      if (img) drawContained(ctx, img, x, y, cellWidth, cellHeight - CAPTION_HEIGHT * mm);
+
+      ctx.fillStyle = ACCENT;
+      ctx.font = `bold ${3.6 * mm}px monospace`;
+      const number = String(index + 1).padStart(2, '0');
+      ctx.fillText(number, x, y + cellHeight - CAPTION_HEIGHT * mm + 2 * mm);
+      ctx.fillStyle = INK;
+      ctx.font = `${3.4 * mm}px sans-serif`;
+      drawParagraph(ctx, render.caption, x + 9 * mm, y + cellHeight - CAPTION_HEIGHT * mm + 2 * mm, cellWidth - 9 * mm, 4 * mm, 1);
+    });
+
+    return canvas;
+  });
+};
+
+// Helper: Canvas to an encoded image
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the board")), type, quality);
+});
+
+/** Renders the board and encodes it: one PDF with a page per sheet, or one PNG per sheet. */
+export const exportBoard = async (content: BoardContent, templateId: BoardTemplateId, format: BoardFormat): Promise<Blob[]> => {
+  const template = BOARD_TEMPLATES[templateId];
+  const pages = await renderBoardPages(content, templateId);
+  if (format === 'png') return Promise.all(pages.map(page => toBlob(page, 'image/png')));
+
+  const pdfPages = await Promise.all(pages.map(async page => ({
+    jpeg: new Uint8Array(await (await toBlob(page, 'image/jpeg', 0.92)).arrayBuffer()),
+    pixelWidth: page.width,
+    pixelHeight: page.height,
+    widthMm: template.widthMm,
+    heightMm: template.heightMm,
+  })));
+  const { titleBlock } = content;
+  return [createPdf(pdfPages, {
+    title: titleBlock.project,
+    author: titleBlock.author,
+    subject: titleBlock.jobNumber,
+  })];
+};
@@ -0,0 +1,255 @@
+import { ProjectSnapshot, ProjectInfo, UploadedImage, PromptResult, HistoryEntry, SketchAdjustments, SweepCell, ReferenceRole } from "../types";
+import { createZip, readZip, ZipEntry } from "./zipArchive";
+import { createUploadedImage } from "./imageUtils";
+
+// A project file is a ZIP holding manifest.json plus every image as its own file. In the manifest,
+// images are referenced by their path in the archive and results by id, so each render is stored once.
+
+export const PROJECT_EXTENSION = '.edenproj';
+
+const PROJECT_FORMAT = 'eden-project';
+const PROJECT_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface ArchivedFile {
+  path: string;
+  name: string;
+  type: string;
+}
+
+interface ArchivedImage extends ArchivedFile {
+  original?: ArchivedFile; // Unprocessed upload of a prepared sketch
+  adjustments?: SketchAdjustments;
+  role?: ReferenceRole; // Style references only
+  weight?: number;
+}
+
+type ArchivedCell = Omit<SweepCell, 'result'> & { resultId: string };
+type ArchivedHistoryEntry = Omit<HistoryEntry, 'result' | 'sketch'> & { resultId: string; sketch?: ArchivedFile };
+
+interface ProjectManifest {
+  format: string;
+  version: number;
+  savedAt: string;
+  info: ProjectInfo;
+  inputs: { sketch: ArchivedImage[]; context: ArchivedImage[]; references: ArchivedImage[] };
+  userPrompt: string;
+  params: ProjectSnapshot['params'];
+  variationCount: number;
+  reviewAnalysis: boolean;
+  sweepSelection: ProjectSnapshot['sweepSelection'];
+  pendingAnalysis: ProjectSnapshot['pendingAnalysis'];
+  results: PromptResult[]; // Image and mask fields hold archive paths instead of base64
+  resultId: string | null;
+  styledResultId: string | null;
+  variationIds: string[];
+  sweepRun: { selection: ProjectSnapshot['sweepSelection']; cells: ArchivedCell[] } | null;
+  lineageIds: string[];
+  history: ArchivedHistoryEntry[];
+}
+
+// Helper: Base64 to bytes and back
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const extensionOf = (name: string, type: string) => name.match(/\.[a-z0-9]+$/i)?.[0] ?? (type === 'image/png' ? '.png' : '.jpg');
+
+/** File name for a project, led by the job number so archives sort by job. */
+export const getProjectFileName = (info: ProjectInfo) => {
+  const slug = [info.jobNumber, info.name]
+    .map(part => part.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, ''))
+    .filter(Boolean)
+    .join('_');
+  return `${slug || `eden-project-${Date.now()}`}${PROJECT_EXTENSION}`;
+};
+
+/** Bundles the session into a project file. */
+export const saveProjectArchive = async (project: ProjectSnapshot): Promise<Blob> => {
+  const files: ZipEntry[] = [];
+  const results = new Map<string, PromptResult>();
+
+  const addFile = async (path: string, blob: Blob, name: string): Promise<ArchivedFile> => {
+    files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    return { path, name, type: blob.type };
+  };
+
+  const addImages = (folder: string, images: UploadedImage[]) => Promise.all(images.map(async (image, index): Promise<ArchivedImage> => {
+    const base = `inputs/${folder}-${index + 1}`;
+    const archived: ArchivedImage = await addFile(base + extensionOf(image.file.name, image.file.type), image.file, image.file.name);
+    if (image.original) {
+      archived.original = await addFile(`${base}-original${extensionOf(image.original.name, image.original.type)}`, image.original, image.original.name);
+      archived.adjustments = image.adjustments;
+    }
+    if (image.role) {
+      archived.role = image.role;
+      archived.weight = image.weight;
+    }
+    return archived;
+  }));
+
+  // Moves a result's images into files; results already added are skipped
+  const addResult = (result: PromptResult): string => {
+    if (results.has(result.id)) return result.id;
+    const folder = `results/${result.id}`;
+    const addPng = (name: string, base64?: string) => {
+      if (!base64) return undefined;
+      files.push({ name: `${folder}/${name}`, data: fromBase64(base64) });
+      return `${folder}/${name}`;
+    };
+
+    const inputs = result.operationInputs;
+    results.set(result.id, {
+      ...result,
+      imageData: addPng('image.png', result.imageData),
+      operationInputs: inputs && {
+        ...inputs,
+        editMask: addPng('mask.png', inputs.editMask),
+        editRegions: inputs.editRegions?.map((region, index) => ({ ...region, mask: addPng(`mask-${index + 1}.png`, region.mask) })),
+      },
+    });
+    return result.id;
+  };
+
+  const [sketch, context, references] = await Promise.all([
+    addImages('sketch', project.sketch),
+    addImages('context', project.context),
+    addImages('reference', project.references),
+  ]);
+
+  // One file per history sketch, shared by every entry made from it
+  const historySketches = new Map<string, Promise<ArchivedFile>>();
+  const addHistorySketch = (entry: Omit<HistoryEntry, 'result' | 'sketch'>, blob: Blob) => {
+    const key = entry.sketchId ?? entry.id;
+    if (!historySketches.has(key)) {
+      historySketches.set(key, addFile(`history/${key}-sketch${extensionOf(entry.sketchName || '', blob.type)}`, blob, entry.sketchName || 'sketch'));
+    }
+    return historySketches.get(key)!;
+  };
+
+  const history = await Promise.all(project.history.map(async ({ result, sketch: sketchBlob, ...entry }): Promise<ArchivedHistoryEntry> => ({
+    ...entry,
+    resultId: addResult(result),
+    sketch: sketchBlob ? await addHistorySketch(entry, sketchBlob) : undefined,
+  })));
+
+  const resultId = project.result ? addResult(project.result) : null;
+  const styledResultId = project.styledResult ? addResult(project.styledResult) : null;
+  const variationIds = project.variations.map(addResult);
+  const lineageIds = project.lineage.map(addResult);
+  const sweepRun = project.sweepRun && {
+    selection: project.sweepRun.selection,
+    cells: project.sweepRun.cells.map(({ result, ...combination }) => ({ ...combination, resultId: addResult(result) })),
+  };
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    info: project.info,
+    inputs: { sketch, context, references },
+    userPrompt: project.userPrompt,
+    params: project.params,
+    variationCount: project.variationCount,
+    reviewAnalysis: project.reviewAnalysis,
+    sweepSelection: project.sweepSelection,
+    pendingAnalysis: project.pendingAnalysis,
+    results: [...results.values()],
+    resultId,
+    styledResultId,
+    variationIds,
+    sweepRun,
+    lineageIds,
+    history,
+  };
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return createZip([{ name: MANIFEST_PATH, data: manifestBytes }, ...files]);
+};
+
+/** Reads a project file back into a session. Throws with a readable message if the file is not a usable project. */
+export const openProjectArchive = async (file: File): Promise<ProjectSnapshot> => {
+  const entries = readZip(await file.arrayBuffer());
+  const manifestBytes = entries.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new Error("The file is not an EDEN project.");
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (e) {
+    throw new Error("The project manifest is not valid JSON.");
+  }
+  if (manifest?.format !== PROJECT_FORMAT) throw new Error("The file is not an EDEN project.");
+  if (typeof manifest.version !== 'number' || manifest.version > PROJECT_VERSION) {
+    throw new Error("The project was saved by a newer version of the app.");
+  }
+
+  const readBytes = (path: string) => {
+    const bytes = entries.get(path);
+    if (!bytes) throw new Error(`The project is missing ${path}.`);
+    return bytes;
+  };
+  const readFile = ({ path, name, type }: ArchivedFile) => new File([readBytes(path).slice()], name, { type });
+  const readPng = (path?: string) => path ? toBase64(readBytes(path)) : undefined;
+
+  const readImages = (images: ArchivedImage[]) => Promise.all(images.map(async (image): Promise<UploadedImage> => ({
+    ...await createUploadedImage(readFile(image)),
+    original: image.original && readFile(image.original),
+    adjustments: image.adjustments,
+    role: image.role,
+    weight: image.weight,
+  })));
+
+  const results = new Map<string, PromptResult>(manifest.results.map(result => {
+    const inputs = result.operationInputs;
+    return [result.id, {
+      ...result,
+      imageData: readPng(result.imageData),
+      operationInputs: inputs && {
+        ...inputs,
+        editMask: readPng(inputs.editMask),
+        editRegions: inputs.editRegions?.map(region => ({ ...region, mask: readPng(region.mask) })),
+      },
+    }];
+  }));
+  const getResult = (id: string) => {
+    const result = results.get(id);
+    if (!result) throw new Error(`The project is missing result ${id}.`);
+    return result;
+  };
+
+  const [sketch, context, references] = await Promise.all([
+    readImages(manifest.inputs.sketch),
+    readImages(manifest.inputs.context),
+    readImages(manifest.inputs.references),
+  ]);
+
+  return {
+    info: manifest.info,
+    sketch,
+    context,
+    references,
+    userPrompt: manifest.userPrompt,
+    params: manifest.params,
+    variationCount: manifest.variationCount,
+    reviewAnalysis: manifest.reviewAnalysis,
+    sweepSelection: manifest.sweepSelection,
+    pendingAnalysis: manifest.pendingAnalysis,
+    result: manifest.resultId ? getResult(manifest.resultId) : null,
+    styledResult: manifest.styledResultId ? getResult(manifest.styledResultId) : null,
+    variations: manifest.variationIds.map(getResult),
+    sweepRun: manifest.sweepRun && {
+      selection: manifest.sweepRun.selection,
+      cells: manifest.sweepRun.cells.map(({ resultId, ...combination }) => ({ ...combination, result: getResult(resultId) })),
+    },
+    lineage: manifest.lineageIds.map(getResult),
+    history: manifest.history.map(({ resultId, sketch: sketchFile, ...entry }) => ({
+      ...entry,
+      result: getResult(resultId),
+      sketch: sketchFile && readFile(sketchFile),
+    })),
+  };
+};
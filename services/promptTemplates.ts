@@ -0,0 +1,178 @@
+import { PromptTemplate, PromptTemplateLibrary, PromptTemplateSlot } from "../types";
+
+// Editable instruction templates. Built-ins ship with the app and are read-only;
+// custom templates and the active choice per slot are kept in localStorage.
+
+const STORAGE_KEY = 'eden-prompt-templates';
+
+export const PROMPT_TEMPLATE_SLOTS: PromptTemplateSlot[] = ['analyze', 'render', 'style', 'edit', 'enhance', 'refine'];
+
+// Variables each slot is filled with, in the order shown on the settings screen
+export const TEMPLATE_VARIABLES: Record<PromptTemplateSlot, string[]> = {
+  refine: ['userVision', 'language'],
+  analyze: ['userVision', 'lighting', 'sunDirection', 'weather', 'sceneConditions', 'camera', 'references', 'language'],
+  render: ['masterStyle', 'analysis', 'notes'],
+  style: ['masterStyle', 'prompt'],
+  edit: ['editRequest'],
+  enhance: ['prompt'],
+};
+
+const BUILT_IN_BODIES: Record<PromptTemplateSlot, string> = {
+  refine: `Refine this architectural idea into a concise visualization prompt (50 words) in {{language}}. Input: "{{userVision}}"`,
+  analyze: `Analyze these inputs for an architectural visualization.
+User Vision: "{{userVision|Not specified}}"
+{{sceneConditions}}
+{{camera}}
+{{references}}
+Return JSON with the fields buildingType, massing, materials (list), camera, landscape and mood.
+Read geometry from the first image strictly. Write every value in {{language}}.`,
+  render: `Create a photorealistic architectural rendering.
+STYLE: {{masterStyle|Photorealistic, 8k, Unreal Engine 5.}}
+{{analysis}}
+CONSTRAINTS: Use sketch geometry strictly. High fidelity.
+{{notes}}`,
+  style: `Apply style: "{{masterStyle}}" to this image. Keep geometry. Photorealistic.`,
+  edit: `Edit masked area: "{{editRequest}}". Blend seamless.`,
+  enhance: `This is an enlarged crop of an architectural rendering. Restore sharp edges and fine, realistic material detail for print.
+Keep the exact framing, geometry, colours and lighting. Do not add, move or remove anything.
+{{prompt}}`,
+};
+
+const builtInId = (slot: PromptTemplateSlot) => `builtin-${slot}`;
+
+const BUILT_IN_TEMPLATES: PromptTemplate[] = PROMPT_TEMPLATE_SLOTS.map(slot => ({
+  id: builtInId(slot),
+  slot,
+  name: 'EDEN Default',
+  builtIn: true,
+  versions: [{ version: 1, body: BUILT_IN_BODIES[slot], savedAt: 0 }],
+}));
+
+const DEFAULT_ACTIVE = Object.fromEntries(
+  PROMPT_TEMPLATE_SLOTS.map(slot => [slot, builtInId(slot)])
+) as Record<PromptTemplateSlot, string>;
+
+interface StoredLibrary {
+  templates: PromptTemplate[];
+  active: Partial<Record<PromptTemplateSlot, string>>;
+}
+
+const readStorage = (): StoredLibrary => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return {
+        templates: Array.isArray(parsed.templates) ? parsed.templates.filter((t: PromptTemplate) => t && !t.builtIn) : [],
+        active: parsed.active || {},
+      };
+    }
+  } catch (e) {
+    console.warn("Prompt templates could not be loaded, using defaults.", e);
+  }
+  return { templates: [], active: {} };
+};
+
+let customTemplates: PromptTemplate[] = [];
+let activeIds: Record<PromptTemplateSlot, string> = { ...DEFAULT_ACTIVE };
+
+const loadLibrary = () => {
+  const stored = readStorage();
+  customTemplates = stored.templates;
+  activeIds = { ...DEFAULT_ACTIVE };
+  for (const slot of PROMPT_TEMPLATE_SLOTS) {
+    const id = stored.active[slot];
+    if (id && customTemplates.some(t => t.id === id && t.slot === slot)) activeIds[slot] = id;
+  }
+};
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ templates: customTemplates, active: activeIds }));
+  } catch (e) {
+    console.warn("Prompt templates could not be saved.", e);
+  }
+};
+
+loadLibrary();
+
+const findCustom = (id: string) => {
+  const template = customTemplates.find(t => t.id === id);
+  if (!template) throw new Error("Built-in templates are read-only.");
+  return template;
+};
+
+export const getTemplateLibrary = (): PromptTemplateLibrary => ({
+  templates: [...BUILT_IN_TEMPLATES, ...customTemplates],
+  active: { ...activeIds },
+});
+
+export const getCurrentBody = (template: PromptTemplate) => template.versions[template.versions.length - 1].body;
+
+export const getActiveTemplate = (slot: PromptTemplateSlot): PromptTemplate =>
+  customTemplates.find(t => t.id === activeIds[slot]) ?? BUILT_IN_TEMPLATES.find(t => t.slot === slot)!;
+
+export const setActiveTemplate = (slot: PromptTemplateSlot, id: string) => {
+  activeIds = { ...activeIds, [slot]: id };
+  persist();
+};
+
+/** Creates a custom template for `slot` starting from `body`, e.g. a copy of the built-in. */
+export const createTemplate = (slot: PromptTemplateSlot, name: string, body: string): PromptTemplate => {
+  const template: PromptTemplate = {
+    id: `${slot}-${Date.now()}`,
+    slot,
+    name,
+    builtIn: false,
+    versions: [{ version: 1, body, savedAt: Date.now() }],
+  };
+  customTemplates = [...customTemplates, template];
+  persist();
+  return template;
+};
+
+/** Saves `body` as a new version; earlier versions stay available for restoring. */
+export const saveTemplateVersion = (id: string, body: string) => {
+  const template = findCustom(id);
+  if (getCurrentBody(template) === body) return;
+  const version = template.versions[template.versions.length - 1].version + 1;
+  customTemplates = customTemplates.map(t =>
+    t.id === id ? { ...t, versions: [...t.versions, { version, body, savedAt: Date.now() }] } : t
+  );
+  persist();
+};
+
+export const renameTemplate = (id: string, name: string) => {
+  findCustom(id);
+  customTemplates = customTemplates.map(t => t.id === id ? { ...t, name } : t);
+  persist();
+};
+
+// Deleting the template in use falls back to the built-in for that slot
+export const deleteTemplate = (id: string) => {
+  const template = findCustom(id);
+  customTemplates = customTemplates.filter(t => t.id !== id);
+  if (activeIds[template.slot] === id) activeIds = { ...activeIds, [template.slot]: builtInId(template.slot) };
+  persist();
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Replaces {{name}} placeholders with `values`. An empty or missing value falls back to
+ * the text after a pipe ({{name|fallback}}) or to nothing; a line that only held
+ * empty placeholders is dropped.
+ */
+export const fillTemplate = (body: string, values: Record<string, string | undefined>): string => {
+  const lines = body.split('\n').flatMap(line => {
+    const filled = line.replace(PLACEHOLDER, (_, name: string, fallback?: string) => {
+      const value = values[name];
+      return value && value.trim() ? value : (fallback ?? '');
+    });
+    return filled.trim() || !line.includes('{{') ? [filled] : [];
+  });
+  return lines.join('\n').trim();
+};
+
+export const renderPromptTemplate = (slot: PromptTemplateSlot, values: Record<string, string | undefined>) =>
+  fillTemplate(getCurrentBody(getActiveTemplate(slot)), values);
@@ -0,0 +1,46 @@
+import { UploadedImage, ReferenceRole } from "../types";
+
+// Style references each guide one aspect of the scene, so a brick sample and a dusk photo
+// uploaded together do not blend into one another. The weight says how far each one leads.
+
+export const REFERENCE_ROLES: ReferenceRole[] = ['material', 'lighting', 'landscape', 'entourage', 'palette'];
+
+export const DEFAULT_REFERENCE_ROLE: ReferenceRole = 'material';
+export const DEFAULT_REFERENCE_WEIGHT = 50;
+
+// What the analysis should take from a reference in each role
+const ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  material: 'take facade and ground materials, textures and finishes from it',
+  lighting: 'take the lighting, time of day, atmosphere and mood from it',
+  landscape: 'take planting, hardscape and landscape design from it',
+  entourage: 'take people, vehicles, furniture and other entourage from it',
+  palette: 'take the colour palette from it',
+};
+
+// Helper: Weight in words, which the model follows more reliably than a number
+const describeWeight = (weight: number) =>
+  weight <= 25 ? 'light' : weight <= 50 ? 'moderate' : weight <= 75 ? 'strong' : 'dominant';
+
+/** Gives a new style reference the default role and weight, keeping any it already has. */
+export const withReferenceDefaults = (image: UploadedImage): UploadedImage => ({
+  ...image,
+  role: image.role ?? DEFAULT_REFERENCE_ROLE,
+  weight: image.weight ?? DEFAULT_REFERENCE_WEIGHT,
+});
+
+/**
+ * Analysis instructions for the references, which are sent as images `firstImage` onwards
+ * (numbered from 1, after the sketch and site context).
+ */
+export const describeReferences = (references: UploadedImage[], firstImage: number): string => {
+  if (references.length === 0) return '';
+  const lines = references.map((reference, index) => {
+    const { role, weight } = withReferenceDefaults(reference);
+    return `- Image ${firstImage + index} (${role}, ${describeWeight(weight!)} influence, ${weight}%): ${ROLE_INSTRUCTIONS[role!]}.`;
+  });
+  return [
+    'STYLE REFERENCES:',
+    ...lines,
+    'Use each reference only for its role and ignore everything else in it. Where roles overlap, the stronger reference leads.',
+  ].join('\n');
+};
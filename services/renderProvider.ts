@@ -0,0 +1,34 @@
+import { ProviderId, RenderProvider } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export const RENDER_PROVIDERS: Record<ProviderId, RenderProvider> = {
+  [ProviderId.Gemini]: geminiProvider,
+  [ProviderId.Mock]: mockProvider,
+};
+
+// Helper: Read the default provider from VITE_RENDER_PROVIDER (e.g. "mock" for offline demos)
+const getDefaultProviderId = (): ProviderId => {
+  let configured = '';
+  try {
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env) {
+      // @ts-ignore
+      configured = import.meta.env.VITE_RENDER_PROVIDER || '';
+    }
+  } catch (e) {}
+
+  return Object.values(ProviderId).includes(configured as ProviderId)
+    ? configured as ProviderId
+    : ProviderId.Gemini;
+};
+
+let activeProviderId = getDefaultProviderId();
+
+export const getRenderProvider = (): RenderProvider => RENDER_PROVIDERS[activeProviderId];
+
+export const getRenderProviderId = (): ProviderId => activeProviderId;
+
+export const setRenderProvider = (id: ProviderId) => {
+  activeProviderId = id;
+};
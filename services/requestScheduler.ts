@@ -0,0 +1,182 @@
+import { ModelBudget, ServiceErrorKind } from "../types";
+import { abortableWait, createAbortError, isAbortError } from "./abort";
+import { toServiceError } from "./errors";
+
+// Shared queue for every provider call: limits how many requests run at once,
+// keeps each model under its requests-per-minute budget and retries transient failures.
+
+export interface SchedulerConfig {
+  concurrency: number;      // Requests in flight across all models
+  maxAttempts: number;      // Including the first try
+  baseDelayMs: number;      // First backoff step, doubled on every retry
+  maxDelayMs: number;       // Ceiling for a single backoff
+  maxRetryAfterMs: number;  // Longer server-requested waits are reported instead of waited out
+}
+
+const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  concurrency: 2,
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000,
+};
+
+const BUDGET_WINDOW_MS = 60000;
+
+let config: SchedulerConfig = { ...DEFAULT_SCHEDULER_CONFIG };
+
+let activeCount = 0;
+const waitingQueue: (() => void)[] = [];
+
+interface BudgetState {
+  startedAt: number[];  // Request start times inside the current window
+  blockedUntil: number; // Set by 429s so queued calls to the same model back off too
+}
+
+const budgetStates = new Map<string, BudgetState>();
+
+export const configureScheduler = (overrides: Partial<SchedulerConfig>) => {
+  config = { ...config, ...overrides };
+  drainQueue();
+};
+
+export const getSchedulerConfig = (): SchedulerConfig => ({ ...config });
+
+const drainQueue = () => {
+  while (activeCount < config.concurrency && waitingQueue.length > 0) {
+    waitingQueue.shift()!();
+  }
+};
+
+const acquireSlot = (signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      activeCount++;
+      resolve();
+    };
+    const onAbort = () => {
+      const position = waitingQueue.indexOf(grant);
+      if (position >= 0) waitingQueue.splice(position, 1);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waitingQueue.push(grant);
+    drainQueue();
+  });
+};
+
+const releaseSlot = () => {
+  activeCount--;
+  drainQueue();
+};
+
+const getBudgetState = (model: string): BudgetState => {
+  let state = budgetStates.get(model);
+  if (!state) {
+    state = { startedAt: [], blockedUntil: 0 };
+    budgetStates.set(model, state);
+  }
+  return state;
+};
+
+// Helper: Time until the model's sliding one-minute window allows another request, 0 if it does now
+const getBudgetWait = (budget: ModelBudget) => {
+  const state = getBudgetState(budget.model);
+  const now = Date.now();
+  state.startedAt = state.startedAt.filter(time => now - time < BUDGET_WINDOW_MS);
+
+  let readyAt = state.blockedUntil;
+  if (state.startedAt.length >= budget.requestsPerMinute) {
+    readyAt = Math.max(readyAt, state.startedAt[0] + BUDGET_WINDOW_MS);
+  }
+  return Math.max(0, readyAt - now);
+};
+
+// Helper: Takes a concurrency slot only once the model's budget allows a request, so calls held back
+// by one rate-limited model never keep calls to other models waiting
+const acquireSlotWithinBudget = async (budget: ModelBudget, signal?: AbortSignal) => {
+  while (true) {
+    const wait = getBudgetWait(budget);
+    if (wait > 0) {
+      await abortableWait(wait, signal);
+      continue;
+    }
+    await acquireSlot(signal);
+    // The budget may have run out or been blocked while this call queued for the slot
+    if (getBudgetWait(budget) === 0) {
+      getBudgetState(budget.model).startedAt.push(Date.now());
+      return;
+    }
+    releaseSlot();
+  }
+};
+
+/**
+ * Reads a server-requested delay from the error, in milliseconds.
+ * Understands a `retryAfter` (seconds) property, Gemini's RetryInfo `"retryDelay": "37s"`
+ * and "retry after N seconds" style messages.
+ */
+export const getRetryAfterMs = (error: unknown): number | null => {
+  const retryAfter = (error as any)?.retryAfter;
+  if (typeof retryAfter === 'number' && retryAfter >= 0) return retryAfter * 1000;
+
+  const message = (error as any)?.message || '';
+  const retryDelay = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.ceil(parseFloat(retryDelay[1]) * 1000);
+
+  const retryIn = message.match(/retry (?:after|in) (\d+(?:\.\d+)?)\s*(ms|s|seconds?)?/i);
+  if (retryIn) {
+    const value = parseFloat(retryIn[1]);
+    return retryIn[2] === 'ms' ? Math.ceil(value) : Math.ceil(value * 1000);
+  }
+  return null;
+};
+
+// Helper: Exponential backoff with equal jitter, so parallel retries don't land together
+const getBackoffDelay = (attempt: number) => {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+/**
+ * Runs `task` once a concurrency slot and the model's budget allow it, retrying
+ * retryable failures. No slot is held while waiting for the budget or between attempts.
+ * Rejects with the last error as a ServiceError once attempts run out, or with an AbortError on cancellation.
+ */
+export const scheduleRequest = async <T>(
+  budget: ModelBudget,
+  task: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    let delay: number;
+
+    await acquireSlotWithinBudget(budget, signal);
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw createAbortError();
+      const serviceError = toServiceError(error);
+      if (!serviceError.retryable || attempt >= config.maxAttempts) throw serviceError;
+
+      const retryAfter = getRetryAfterMs(error);
+      if (retryAfter !== null && retryAfter > config.maxRetryAfterMs) throw serviceError;
+      delay = retryAfter ?? getBackoffDelay(attempt);
+
+      if (serviceError.kind === ServiceErrorKind.Quota) {
+        const state = getBudgetState(budget.model);
+        state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay);
+      }
+      console.warn(`${budget.model}: attempt ${attempt} failed, retrying in ${Math.round(delay)}ms.`, error);
+    } finally {
+      releaseSlot();
+    }
+
+    await abortableWait(delay, signal);
+  }
+};
@@ -0,0 +1,82 @@
+import { SceneAnalysis } from "../types";
+import { EmptyResponseError } from "./errors";
+
+// Field order used by the editor and by the assembled image prompt
+export const SCENE_ANALYSIS_FIELDS: (keyof SceneAnalysis)[] = [
+  'buildingType',
+  'massing',
+  'materials',
+  'camera',
+  'landscape',
+  'mood',
+];
+
+// Per-field guard against runaway model output, applied instead of cutting the whole prompt
+const MAX_FIELD_LENGTH = 400;
+const MAX_MATERIALS = 12;
+
+export const EMPTY_SCENE_ANALYSIS: SceneAnalysis = {
+  buildingType: '',
+  massing: '',
+  materials: [],
+  camera: '',
+  landscape: '',
+  mood: '',
+};
+
+const clip = (value: string) => value.trim().slice(0, MAX_FIELD_LENGTH);
+
+/**
+ * Coerces a parsed model response into a SceneAnalysis.
+ * Missing fields become empty strings; a comma-separated materials string is split into a list.
+ */
+export const normalizeSceneAnalysis = (raw: unknown): SceneAnalysis => {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const text = (key: keyof SceneAnalysis) => typeof source[key] === 'string' ? clip(source[key] as string) : '';
+
+  const rawMaterials = source.materials;
+  const materials = Array.isArray(rawMaterials)
+    ? rawMaterials.filter((m): m is string => typeof m === 'string')
+    : typeof rawMaterials === 'string' ? rawMaterials.split(',') : [];
+
+  return {
+    buildingType: text('buildingType'),
+    massing: text('massing'),
+    materials: materials.map(clip).filter(Boolean).slice(0, MAX_MATERIALS),
+    camera: text('camera'),
+    landscape: text('landscape'),
+    mood: text('mood'),
+  };
+};
+
+export const parseSceneAnalysis = (json: string): SceneAnalysis => {
+  // Models occasionally wrap JSON in a markdown fence
+  const cleaned = json.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return normalizeSceneAnalysis(JSON.parse(cleaned));
+  } catch (e) {
+    throw new EmptyResponseError("Scene analysis was not valid JSON.", e);
+  }
+};
+
+export const isSceneAnalysisEmpty = (analysis: SceneAnalysis) =>
+  SCENE_ANALYSIS_FIELDS.every(field => {
+    const value = analysis[field];
+    return Array.isArray(value) ? value.length === 0 : !value.trim();
+  });
+
+/**
+ * Builds the description block of the image prompt from the analysis fields,
+ * one labelled line per non-empty field.
+ */
+export const assembleScenePrompt = (analysis: SceneAnalysis): string => {
+  const lines = [
+    analysis.buildingType && `BUILDING: ${analysis.buildingType}`,
+    analysis.massing && `MASSING: ${analysis.massing}`,
+    analysis.materials.length > 0 && `MATERIALS: ${analysis.materials.join(', ')}`,
+    analysis.camera && `CAMERA & VIEW: ${analysis.camera}`,
+    analysis.landscape && `LANDSCAPE: ${analysis.landscape}`,
+    analysis.mood && `MOOD: ${analysis.mood}`,
+  ];
+  return lines.filter(Boolean).join('\n');
+};
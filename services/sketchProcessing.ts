@@ -0,0 +1,232 @@
+import { NormalizedPoint, SketchAdjustments } from "../types";
+import { blurChannel } from "./maskUtils";
+
+// Clean-up of photographed hand sketches before they are uploaded:
+// rotate, crop or straighten, then tone (background whitening, levels, line thickening).
+
+export const FULL_FRAME: SketchAdjustments['corners'] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+export const DEFAULT_SKETCH_ADJUSTMENTS: SketchAdjustments = {
+  rotation: 0,
+  corners: FULL_FRAME,
+  perspective: false,
+  blackPoint: 0,
+  whitePoint: 255,
+  contrast: 0,
+  whiten: 0,
+  lineWeight: 0,
+};
+
+// Helper: Canvas with a 2D context, throwing instead of returning null
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  return { canvas, ctx };
+};
+
+export const loadImageFile = (file: File): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(img);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("Failed to load image"));
+  };
+  img.src = url;
+});
+
+/** Downscales an image so its longest side is at most `maxSize`. */
+export const fitImage = (img: HTMLImageElement | HTMLCanvasElement, maxSize: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(img.width * scale, img.height * scale);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/** Rotates around the centre; the canvas grows to fit and the uncovered corners are white like paper. */
+export const rotateImage = (source: HTMLCanvasElement, degrees: number): HTMLCanvasElement => {
+  if (degrees % 360 === 0) return source;
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const { canvas, ctx } = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rad);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+/** Bounding rectangle of the corners, as corners again. */
+export const toRectangle = (corners: NormalizedPoint[]): SketchAdjustments['corners'] => {
+  const left = Math.min(...corners.map(c => c.x));
+  const right = Math.max(...corners.map(c => c.x));
+  const top = Math.min(...corners.map(c => c.y));
+  const bottom = Math.max(...corners.map(c => c.y));
+  return [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom },
+  ];
+};
+
+// Helper: Projective map from the unit square onto a quad (Heckbert's square-to-quad)
+const squareToQuad = (quad: NormalizedPoint[]) => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det ? (dx3 * dy2 - dx2 * dy3) / det : 0;
+  const h = det ? (dx1 * dy3 - dx3 * dy1) / det : 0;
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+
+  return (u: number, v: number) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+/**
+ * Cuts the corners out of the source. A rectangle is a plain crop; any other quad is
+ * straightened into a rectangle sized by its average edge lengths.
+ */
+export const cropImage = (source: HTMLCanvasElement, adjustments: SketchAdjustments, maxSize: number): HTMLCanvasElement => {
+  const quad = adjustments.corners.map(c => ({ x: c.x * source.width, y: c.y * source.height }));
+  const dist = (a: NormalizedPoint, b: NormalizedPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+  const naturalWidth = (dist(quad[0], quad[1]) + dist(quad[3], quad[2])) / 2;
+  const naturalHeight = (dist(quad[0], quad[3]) + dist(quad[1], quad[2])) / 2;
+  const scale = Math.min(1, maxSize / Math.max(naturalWidth, naturalHeight, 1));
+  const { canvas, ctx } = createCanvas(naturalWidth * scale, naturalHeight * scale);
+
+  if (!adjustments.perspective) {
+    const [topLeft, , bottomRight] = toRectangle(quad);
+    ctx.drawImage(source, topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+
+  // Inverse mapping with bilinear sampling, so every output pixel gets a value
+  const src = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+  const out = ctx.createImageData(canvas.width, canvas.height);
+  const map = squareToQuad(quad);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      const p = map((x + 0.5) / canvas.width, (y + 0.5) / canvas.height);
+      const sx = Math.min(maxX, Math.max(0, p.x - 0.5));
+      const sy = Math.min(maxY, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const o = (y * canvas.width + x) * 4;
+
+      for (let ch = 0; ch < 4; ch++) {
+        const top = src.data[(y0 * source.width + x0) * 4 + ch] * (1 - fx) + src.data[(y0 * source.width + x1) * 4 + ch] * fx;
+        const bottom = src.data[(y1 * source.width + x0) * 4 + ch] * (1 - fx) + src.data[(y1 * source.width + x1) * 4 + ch] * fx;
+        out.data[o + ch] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+// Helper: Darkest value within `radius` along rows or columns, for every channel
+const minFilter = (data: Uint8ClampedArray, width: number, height: number, radius: number, horizontal: boolean) => {
+  const result = new Uint8ClampedArray(data);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        let min = 255;
+        for (let k = -radius; k <= radius; k++) {
+          const nx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const ny = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          min = Math.min(min, data[(ny * width + nx) * 4 + ch]);
+        }
+        result[o + ch] = min;
+      }
+    }
+  }
+  return result;
+};
+
+/** Tonal clean-up in place: flattens the paper to white, applies levels and contrast, thickens lines. */
+export const applyTone = (image: ImageData, adjustments: SketchAdjustments) => {
+  const { width, height } = image;
+  let data = image.data;
+
+  // Divide by a heavily blurred copy to even out shadows and paper tone
+  if (adjustments.whiten > 0) {
+    const luminance = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    const background = blurChannel(luminance, width, height, Math.max(4, Math.round(Math.max(width, height) / 16)));
+    const strength = adjustments.whiten / 100;
+    for (let i = 0; i < luminance.length; i++) {
+      const gain = 1 + (255 / Math.max(background[i], 1) - 1) * strength;
+      for (let ch = 0; ch < 3; ch++) data[i * 4 + ch] = data[i * 4 + ch] * gain;
+    }
+  }
+
+  // Levels, then contrast around mid grey, through one lookup table
+  const { blackPoint, whitePoint, contrast } = adjustments;
+  if (blackPoint > 0 || whitePoint < 255 || contrast !== 0) {
+    const range = Math.max(1, whitePoint - blackPoint);
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      const levelled = ((v - blackPoint) * 255) / range;
+      lut[v] = (levelled - 128) * (1 + contrast / 50) + 128;
+    }
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = lut[data[i]];
+      data[i + 1] = lut[data[i + 1]];
+      data[i + 2] = lut[data[i + 2]];
+    }
+  }
+
+  if (adjustments.lineWeight > 0) {
+    data = minFilter(data, width, height, adjustments.lineWeight, true);
+    data = minFilter(data, width, height, adjustments.lineWeight, false);
+    image.data.set(data);
+  }
+};
+
+/**
+ * Runs the whole pipeline on a source image and returns the result, at most `maxSize` on its longest side.
+ * The source should be the full-resolution photo: only the crop scales down, so a small crop keeps its detail.
+ */
+export const processSketch = (source: HTMLCanvasElement, adjustments: SketchAdjustments, maxSize: number): HTMLCanvasElement => {
+  const cropped = cropImage(rotateImage(source, adjustments.rotation), adjustments, maxSize);
+  const ctx = cropped.getContext('2d')!;
+  const image = ctx.getImageData(0, 0, cropped.width, cropped.height);
+  applyTone(image, adjustments);
+  ctx.putImageData(image, 0, 0);
+  return cropped;
+};
+
+/** Processes an upload into the PNG file that replaces it. */
+export const processSketchFile = async (file: File, adjustments: SketchAdjustments, maxSize: number): Promise<File> => {
+  const source = fitImage(await loadImageFile(file), Infinity);
+  const canvas = processSketch(source, adjustments, maxSize);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error("Failed to encode image");
+  return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' });
+};
@@ -0,0 +1,146 @@
+import { SiteSun, SolarPosition } from "../types";
+
+// Sun position for a site and moment, after the NOAA solar calculator (accurate to well under
+// a degree between 1900 and 2100), plus the prompt wording derived from it. Directions relative
+// to the camera assume the top of the sketch is where the camera looks.
+
+const RAD = Math.PI / 180;
+const DEG = 180 / Math.PI;
+
+/** Site defaults: switched off, today at 15:00 on this computer's clock. */
+export const getDefaultSiteSun = (): SiteSun => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    enabled: false,
+    latitude: 25.03,
+    longitude: 121.56,
+    northAngle: 0,
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: '15:00',
+    utcOffset: -now.getTimezoneOffset() / 60,
+  };
+};
+
+/** The UTC instant of the site's local date and time. */
+export const getSiteInstant = (site: SiteSun, time = site.time): Date => {
+  const [year, month, day] = site.date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes) - site.utcOffset * 3600000);
+};
+
+/** Solar azimuth and altitude seen from the given place at the given instant. */
+export const getSolarPosition = (latitude: number, longitude: number, instant: Date): SolarPosition => {
+  const julianCentury = (instant.getTime() / 86400000 + 2440587.5 - 2451545) / 36525;
+  const t = julianCentury;
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const center = Math.sin(meanAnomaly * RAD) * (1.914602 - t * (0.004817 + 0.000014 * t))
+    + Math.sin(2 * meanAnomaly * RAD) * (0.019993 - 0.000101 * t)
+    + Math.sin(3 * meanAnomaly * RAD) * 0.000289;
+  const omega = 125.04 - 1934.136 * t;
+  const apparentLongitude = meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega * RAD);
+  const obliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60
+    + 0.00256 * Math.cos(omega * RAD);
+  const declination = Math.asin(Math.sin(obliquity * RAD) * Math.sin(apparentLongitude * RAD));
+
+  // Equation of time, in minutes
+  const y = Math.tan(obliquity * RAD / 2) ** 2;
+  const l0 = meanLongitude * RAD;
+  const m = meanAnomaly * RAD;
+  const equationOfTime = 4 * DEG * (y * Math.sin(2 * l0) - 2 * eccentricity * Math.sin(m)
+    + 4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0)
+    - 0.5 * y * y * Math.sin(4 * l0) - 1.25 * eccentricity * eccentricity * Math.sin(2 * m));
+
+  const utcMinutes = instant.getUTCHours() * 60 + instant.getUTCMinutes() + instant.getUTCSeconds() / 60;
+  const solarMinutes = (((utcMinutes + equationOfTime + 4 * longitude) % 1440) + 1440) % 1440;
+  const hourAngle = (solarMinutes / 4 - 180) * RAD;
+  const lat = latitude * RAD;
+
+  const cosZenith = Math.sin(lat) * Math.sin(declination) + Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+  const altitude = 90 - Math.acos(Math.min(1, Math.max(-1, cosZenith))) * DEG;
+  const azimuth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(lat) - Math.tan(declination) * Math.cos(lat)
+  ) * DEG + 180;
+
+  return { azimuth: azimuth % 360, altitude };
+};
+
+/** Sun position for the site's own date and time. */
+export const getSiteSunPosition = (site: SiteSun): SolarPosition =>
+  getSolarPosition(site.latitude, site.longitude, getSiteInstant(site));
+
+/** Positions through the site's day, every `stepMinutes` of its local clock. */
+export const getSunPath = (site: SiteSun, stepMinutes = 15): { minutes: number; position: SolarPosition }[] =>
+  Array.from({ length: Math.floor(1440 / stepMinutes) + 1 }, (_, i) => {
+    const minutes = i * stepMinutes;
+    const time = `${Math.floor(minutes / 60)}:${minutes % 60}`;
+    return { minutes, position: getSolarPosition(site.latitude, site.longitude, getSiteInstant(site, time)) };
+  });
+
+/** Bearing of the sun relative to the camera: 0 straight ahead, 90 to the right. */
+export const getRelativeBearing = (site: SiteSun, position: SolarPosition) =>
+  (((position.azimuth + site.northAngle) % 360) + 360) % 360;
+
+const COMPASS_POINTS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+// Where the sun sits and where its shadows fall, for the sun in each of eight sectors around the camera starting straight ahead
+const SUN_SECTORS = [
+  'ahead of the camera, backlighting the building',
+  'ahead of the camera and to the right',
+  'to the right of the camera',
+  'behind the camera on the right',
+  'behind the camera, lighting the facades that face it',
+  'behind the camera on the left',
+  'to the left of the camera',
+  'ahead of the camera and to the left',
+];
+const SHADOW_SECTORS = [
+  'toward the camera',
+  'toward the camera and to the left',
+  'to the left',
+  'away from the camera and to the left',
+  'away from the camera',
+  'away from the camera and to the right',
+  'to the right',
+  'toward the camera and to the right',
+];
+
+// Helper: Eight-sector index of a bearing
+const sectorOf = (bearing: number) => Math.round(bearing / 45) % 8;
+
+/**
+ * Lighting and sun direction for the prompts, plus one summary sentence naming the site, moment and
+ * the resulting light and shadows.
+ */
+export const describeSiteSun = (site: SiteSun): { position: SolarPosition; lighting: string; sunDirection: string; summary: string } => {
+  const position = getSiteSunPosition(site);
+  const { azimuth, altitude } = position;
+  const place = `${Math.abs(site.latitude).toFixed(2)}°${site.latitude >= 0 ? 'N' : 'S'} ${Math.abs(site.longitude).toFixed(2)}°${site.longitude >= 0 ? 'E' : 'W'}`;
+  const moment = `${site.date} ${site.time}`;
+
+  if (altitude <= -6) {
+    const lighting = 'Night: the sun is down; the scene is lit by interior glow, street and landscape lighting under a dark sky.';
+    return { position, lighting, sunDirection: 'none (night)', summary: `SITE SUN (${place}, ${moment}): ${lighting}` };
+  }
+  if (altitude <= 0) {
+    const lighting = 'Blue hour: the sun is just below the horizon; soft shadowless light, deep blue sky with a warm glow toward the ' +
+      `${COMPASS_POINTS[sectorOf(azimuth)]}, interior lights on.`;
+    return { position, lighting, sunDirection: SUN_SECTORS[sectorOf(getRelativeBearing(site, position))], summary: `SITE SUN (${place}, ${moment}): ${lighting}` };
+  }
+
+  const lighting = altitude < 6 ? 'golden hour, warm low light with very long shadows'
+    : altitude < 20 ? 'low warm sun with long shadows'
+    : altitude < 45 ? 'clear daylight with well-defined shadows'
+    : 'high sun with short, crisp shadows';
+  const sector = sectorOf(getRelativeBearing(site, position));
+  const shadowLength = 1 / Math.tan(altitude * RAD);
+  const summary = [
+    `SITE SUN (${place}, ${moment}): azimuth ${Math.round(azimuth)}° (${COMPASS_POINTS[sectorOf(azimuth)]}), altitude ${Math.round(altitude)}°, ${lighting}.`,
+    `The sun is ${SUN_SECTORS[sector]}; shadows fall ${SHADOW_SECTORS[sector]}, about ${shadowLength < 10 ? shadowLength.toFixed(1) : 'more than 10'} times as long as objects are tall.`,
+  ].join(' ');
+  return { position, lighting, sunDirection: SUN_SECTORS[sector], summary };
+};
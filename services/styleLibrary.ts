@@ -0,0 +1,198 @@
+import { Language, MasterStyle, MasterStyleDefinition } from "../types";
+import { MASTER_STYLES } from "../constants";
+
+// Master style library: the built-in styles plus the user's own, in a user-defined order.
+// Custom styles and the order are kept in localStorage and travel between studios as JSON packs.
+
+const STORAGE_KEY = 'eden-master-styles';
+const PACK_FORMAT = 'eden-style-pack';
+const PACK_VERSION = 1;
+const THUMBNAIL_SIZE = 128;
+
+interface StoredLibrary {
+  styles: MasterStyleDefinition[]; // Custom styles only
+  order: string[];                 // Ids of every style, built-ins included
+}
+
+const readStorage = (): StoredLibrary => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return {
+        styles: Array.isArray(parsed.styles) ? parsed.styles.map(normalizeStyle).filter(Boolean) : [],
+        order: Array.isArray(parsed.order) ? parsed.order.filter((id: unknown) => typeof id === 'string') : [],
+      };
+    }
+  } catch (e) {
+    console.warn("Style library could not be loaded, using built-in styles.", e);
+  }
+  return { styles: [], order: [] };
+};
+
+// Helper: Validate an untrusted entry (storage or an imported pack) into a custom style
+const normalizeStyle = (raw: any): MasterStyleDefinition | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.prompt !== 'string' || !raw.prompt.trim()) return null;
+  const rawLabels = raw.labels && typeof raw.labels === 'object' ? raw.labels : {};
+  const fallback = typeof rawLabels[Language.English] === 'string' && rawLabels[Language.English].trim()
+    ? rawLabels[Language.English].trim()
+    : 'Untitled';
+  const labels = Object.fromEntries(
+    Object.values(Language).map(lang => [lang, typeof rawLabels[lang] === 'string' && rawLabels[lang].trim() ? rawLabels[lang].trim() : fallback])
+  ) as Record<Language, string>;
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `style-${Date.now()}`,
+    labels,
+    prompt: raw.prompt.trim(),
+    icon: typeof raw.icon === 'string' ? raw.icon : 'zap',
+    thumbnail: typeof raw.thumbnail === 'string' && raw.thumbnail ? raw.thumbnail : undefined,
+    builtIn: false,
+  };
+};
+
+let customStyles: MasterStyleDefinition[] = [];
+let styleOrder: string[] = [];
+
+const loadLibrary = () => {
+  const stored = readStorage();
+  customStyles = stored.styles;
+  styleOrder = stored.order;
+};
+
+// Throws when storage is full (thumbnails are the usual culprit) so the caller can report it
+const persist = () => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ styles: customStyles, order: styleOrder }));
+};
+
+loadLibrary();
+
+/** Every style in display order; styles missing from the stored order go to the end. */
+export const getStyleLibrary = (): MasterStyleDefinition[] => {
+  const all = [...MASTER_STYLES, ...customStyles];
+  const position = new Map(all.map((style, index) => {
+    const ordered = styleOrder.indexOf(style.id);
+    return [style.id, ordered === -1 ? styleOrder.length + index : ordered];
+  }));
+  return all.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+};
+
+export const localizeStyles = (styles: MasterStyleDefinition[], language: Language): MasterStyle[] =>
+  styles.map(style => ({
+    id: style.id,
+    label: style.labels[language] || style.labels[Language.English],
+    prompt: style.prompt,
+    icon: style.icon,
+    thumbnail: style.thumbnail,
+  }));
+
+const isBuiltIn = (id: string) => MASTER_STYLES.some(style => style.id === id);
+
+/** Adds a new custom style or replaces an existing one with the same id. */
+export const saveStyle = (style: MasterStyleDefinition) => {
+  if (isBuiltIn(style.id)) throw new Error("Built-in styles are read-only.");
+  const saved = { ...style, builtIn: false };
+  const previous = customStyles;
+  customStyles = customStyles.some(s => s.id === style.id)
+    ? customStyles.map(s => s.id === style.id ? saved : s)
+    : [...customStyles, saved];
+  try {
+    persist();
+  } catch (e) {
+    customStyles = previous;
+    throw e;
+  }
+};
+
+export const deleteStyle = (id: string) => {
+  if (isBuiltIn(id)) throw new Error("Built-in styles are read-only.");
+  customStyles = customStyles.filter(s => s.id !== id);
+  styleOrder = styleOrder.filter(orderId => orderId !== id);
+  persist();
+};
+
+// Moves a style one place up (-1) or down (+1)
+export const moveStyle = (id: string, direction: -1 | 1) => {
+  const ids = getStyleLibrary().map(s => s.id);
+  const from = ids.indexOf(id);
+  const to = from + direction;
+  if (from === -1 || to < 0 || to >= ids.length) return;
+  [ids[from], ids[to]] = [ids[to], ids[from]];
+  styleOrder = ids;
+  persist();
+};
+
+/** Serializes the custom styles as a shareable pack; built-ins ship with every install. */
+export const exportStylePack = (): string => JSON.stringify({
+  format: PACK_FORMAT,
+  version: PACK_VERSION,
+  exportedAt: new Date().toISOString(),
+  styles: getStyleLibrary().filter(s => !s.builtIn).map(({ builtIn, ...style }) => style),
+}, null, 2);
+
+/**
+ * Adds the styles from a pack to the library and returns how many were imported.
+ * Ids that are already taken get a fresh one, so importing never overwrites existing styles.
+ */
+export const importStylePack = (json: string): number => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (parsed?.format !== PACK_FORMAT || !Array.isArray(parsed.styles)) {
+    throw new Error("The file is not an EDEN style pack.");
+  }
+  if (typeof parsed.version === 'number' && parsed.version > PACK_VERSION) {
+    throw new Error("The style pack was made by a newer version of the app.");
+  }
+
+  const taken = new Set(getStyleLibrary().map(s => s.id));
+  const imported: MasterStyleDefinition[] = [];
+  parsed.styles.forEach((raw: unknown, index: number) => {
+    const style = normalizeStyle(raw);
+    if (!style) return;
+    if (taken.has(style.id)) style.id = `style-${Date.now()}-${index}`;
+    taken.add(style.id);
+    imported.push(style);
+  });
+
+  const previous = customStyles;
+  customStyles = [...customStyles, ...imported];
+  try {
+    persist();
+  } catch (e) {
+    customStyles = previous;
+    throw e;
+  }
+  return imported.length;
+};
+
+/** Downscales an image file to a small square JPEG thumbnail (base64, no data URL prefix). */
+export const createStyleThumbnail = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_SIZE;
+      canvas.height = THUMBNAIL_SIZE;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas context failed"));
+        return;
+      }
+      // Center crop to a square
+      const side = Math.min(img.width, img.height);
+      ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+      resolve(canvas.toDataURL('image/jpeg', 0.8).split(',')[1]);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to load image for the thumbnail"));
+    };
+    img.src = url;
+  });
+};
@@ -0,0 +1,127 @@
+// Tiling for the print upscale: the render is enlarged in overlapping tiles that the model
+// sharpens one by one, then the tiles are blended back together across their overlaps.
+
+export const UPSCALE_FACTORS = [2, 4];
+
+const TILE_OUTPUT_SIZE = 1024; // Side of an enlarged tile as sent to the model
+const TILE_OVERLAP = 0.125; // Share of a tile that overlaps its neighbour
+
+export interface UpscaleTile {
+  x: number; // Source pixels
+  y: number;
+  width: number;
+  height: number;
+  overlapLeft: number; // Source pixels shared with the tile to the left, 0 in the first column
+  overlapTop: number; // Source pixels shared with the tile above, 0 in the first row
+}
+
+// Helper: Tile starts along one axis, spread evenly so every overlap is at least the planned one
+const planAxis = (length: number, tile: number, stride: number) => {
+  if (length <= tile) return [0];
+  const count = Math.ceil((length - tile) / stride) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round((i * (length - tile)) / (count - 1)));
+};
+
+/** Splits a `width` × `height` image into overlapping tiles, in rows from the top left. */
+export const planTiles = (width: number, height: number, factor: number): UpscaleTile[] => {
+  const tileSize = Math.floor(TILE_OUTPUT_SIZE / factor);
+  const stride = Math.floor(tileSize * (1 - TILE_OVERLAP));
+  const columns = planAxis(width, tileSize, stride);
+  const rows = planAxis(height, tileSize, stride);
+  const tileWidth = Math.min(width, tileSize);
+  const tileHeight = Math.min(height, tileSize);
+
+  return rows.flatMap((y, row) => columns.map((x, column) => ({
+    x,
+    y,
+    width: tileWidth,
+    height: tileHeight,
+    overlapLeft: column > 0 ? columns[column - 1] + tileWidth - x : 0,
+    overlapTop: row > 0 ? rows[row - 1] + tileHeight - y : 0,
+  })));
+};
+
+export const loadBase64Image = (base64: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load image"));
+  img.src = `data:image/png;base64,${base64}`;
+});
+
+// Helper: Canvas with smoothing set for enlarging
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
+
+// Helper: Side of the square a tile is enhanced in. Tiles of an image narrower than a tile are not square,
+// and the model would return them square, stretched out of shape.
+const getPaddedSide = (tile: UpscaleTile, factor: number) => Math.max(tile.width, tile.height) * factor;
+
+/**
+ * Enlarges one tile of the source as a square base64 PNG, ready to be enhanced. A tile that is not square
+ * sits in the top left, its last column or row stretched over the rest; drawTile crops that off again.
+ */
+export const cropTile = (source: HTMLImageElement, tile: UpscaleTile, factor: number): string => {
+  const width = tile.width * factor;
+  const height = tile.height * factor;
+  const side = getPaddedSide(tile, factor);
+  const { canvas, ctx } = createCanvas(side, side);
+  ctx.drawImage(source, tile.x, tile.y, tile.width, tile.height, 0, 0, width, height);
+  if (width < side) ctx.drawImage(canvas, width - 1, 0, 1, height, width, 0, side - width, height);
+  if (height < side) ctx.drawImage(canvas, 0, height - 1, width, 1, 0, height, width, side - height);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/** Output canvas pre-filled with a plain enlargement, so tiles that fail still leave a usable image. */
+export const createUpscaleCanvas = (source: HTMLImageElement, factor: number) => {
+  const { canvas, ctx } = createCanvas(source.width * factor, source.height * factor);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+};
+
+/**
+ * Draws an enhanced tile into the output. Its left and top overlaps fade in linearly, so painting
+ * the tiles in planned order cross-fades every seam instead of leaving a hard edge.
+ */
+export const drawTile = (output: CanvasRenderingContext2D, enhanced: HTMLImageElement, tile: UpscaleTile, factor: number) => {
+  const width = tile.width * factor;
+  const height = tile.height * factor;
+  const side = getPaddedSide(tile, factor);
+  const layer = createCanvas(width, height);
+  // The square comes back at whatever size the model renders; the tile is its top left share
+  layer.ctx.drawImage(enhanced, 0, 0, enhanced.width * width / side, enhanced.height * height / side, 0, 0, width, height);
+
+  const fadeLeft = tile.overlapLeft * factor;
+  const fadeTop = tile.overlapTop * factor;
+  if (fadeLeft > 0 || fadeTop > 0) {
+    const mask = createCanvas(width, height);
+    mask.ctx.fillStyle = 'white';
+    mask.ctx.fillRect(0, 0, width, height);
+    mask.ctx.globalCompositeOperation = 'destination-out';
+    if (fadeLeft > 0) {
+      const gradient = mask.ctx.createLinearGradient(0, 0, fadeLeft, 0);
+      gradient.addColorStop(0, 'rgba(0,0,0,1)');
+      gradient.addColorStop(1, 'rgba(0,0,0,0)');
+      mask.ctx.fillStyle = gradient;
+      mask.ctx.fillRect(0, 0, fadeLeft, height);
+    }
+    if (fadeTop > 0) {
+      const gradient = mask.ctx.createLinearGradient(0, 0, 0, fadeTop);
+      gradient.addColorStop(0, 'rgba(0,0,0,1)');
+      gradient.addColorStop(1, 'rgba(0,0,0,0)');
+      mask.ctx.fillStyle = gradient;
+      mask.ctx.fillRect(0, 0, width, fadeTop);
+    }
+    layer.ctx.globalCompositeOperation = 'destination-in';
+    layer.ctx.drawImage(mask.canvas, 0, 0);
+  }
+
+  output.drawImage(layer.canvas, tile.x * factor, tile.y * factor);
+};
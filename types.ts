@@ -34,6 +34,83 @@ export interface UploadedImage {
   id: string;
   width?: number;
   height?: number;
+  original?: File; // Unprocessed upload when `file` came out of the sketch pre-processing
+  adjustments?: SketchAdjustments; // Settings that turned `original` into `file`
+  role?: ReferenceRole; // What a style reference is meant to contribute
+  weight?: number; // Influence of a style reference, 0-100
+}
+
+// Aspect of the render a style reference image guides
+export type ReferenceRole = 'material' | 'lighting' | 'landscape' | 'entourage' | 'palette';
+
+// Why a dropped, pasted or picked file was refused
+export type UploadRejection = 'type' | 'size' | 'dimensions' | 'unreadable';
+
+// --- Sketch Pre-processing ---
+
+export interface NormalizedPoint {
+  x: number; // 0-1 of the image width
+  y: number; // 0-1 of the image height
+}
+
+export interface SketchAdjustments {
+  rotation: number; // Degrees, clockwise
+  corners: [NormalizedPoint, NormalizedPoint, NormalizedPoint, NormalizedPoint]; // Top-left, top-right, bottom-right, bottom-left of the rotated image
+  perspective: boolean; // Corners move freely and the quad is straightened; otherwise they form a crop rectangle
+  blackPoint: number; // 0-255
+  whitePoint: number; // 0-255
+  contrast: number; // -50 to 50
+  whiten: number; // 0-100, strength of the paper background flattening
+  lineWeight: number; // Pixels of line thickening
+}
+
+// --- Camera ---
+
+export type CameraView = 'eye-level' | 'aerial' | 'worms-eye' | 'drone';
+export type DepthOfField = 'deep' | 'natural' | 'shallow';
+
+// Viewpoint and lens; 'auto' leaves it to the sketch
+export interface CameraSettings {
+  view: CameraView | 'auto';
+  focalLength: number | 'auto'; // Millimetres, full-frame equivalent
+  verticalCorrection: boolean; // Two-point perspective, verticals kept vertical
+  depthOfField: DepthOfField;
+}
+
+// --- Site Sun ---
+
+// Real sun position for a site; when enabled it replaces the lighting and sun direction presets
+export interface SiteSun {
+  enabled: boolean;
+  latitude: number; // Degrees, north positive
+  longitude: number; // Degrees, east positive
+  northAngle: number; // Project north on the sketch, degrees clockwise from the top edge
+  date: string; // YYYY-MM-DD on the site's calendar
+  time: string; // HH:MM on the site's clock
+  utcOffset: number; // Hours the site's clock is ahead of UTC
+}
+
+export interface SolarPosition {
+  azimuth: number; // Degrees clockwise from true north
+  altitude: number; // Degrees above the horizon, negative below
+}
+
+// --- Framing ---
+
+// Ratios the image model renders
+export type AspectRatio = '9:16' | '2:3' | '3:4' | '4:5' | '1:1' | '5:4' | '4:3' | '3:2' | '16:9' | '21:9';
+
+// 'auto' picks the supported ratio closest to the sketch
+export type AspectRatioSetting = AspectRatio | 'auto';
+
+// How a sketch of another ratio is fitted: cut to fill the frame, or padded with white
+export type SketchFraming = 'crop' | 'letterbox';
+
+// Resolution and compression of the images sent to the model
+export enum RenderQuality {
+  Draft = 'draft',
+  Standard = 'standard',
+  High = 'high',
 }
 
 export interface GenerationParams {
@@ -41,6 +118,11 @@ export interface GenerationParams {
   sunDirection: SunDirection;
   weather: WeatherCondition;
   language: Language;
+  quality: RenderQuality;
+  aspectRatio: AspectRatioSetting;
+  framing: SketchFraming;
+  siteSun: SiteSun;
+  camera: CameraSettings;
 }
 
 export interface PromptResult {
@@ -48,7 +130,36 @@ export interface PromptResult {
   prompt: string;
   imageData?: string;
   error?: string; // New field for partial failure states
+  errorKind?: ServiceErrorKind; // Cause of `error`, picks the localized message and guidance
   timestamp: number;
+  batchId?: string; // Shared by all variations rendered in one run
+  variationIndex?: number;
+  analysis?: SceneAnalysis; // Structured analysis the prompt was assembled from
+  aspectRatio?: AspectRatio; // Ratio the render was requested at
+  params?: GenerationParams; // Scene parameters the render was made with
+  model?: string; // Image model that produced it
+  // Lineage
+  parentId?: string; // Result this one was derived from
+  rootId?: string; // Generated ancestor shared by the whole lineage tree
+  operation?: ResultOperation;
+  operationInputs?: OperationInputs;
+}
+
+export enum ResultOperation {
+  Generate = 'generate',
+  MasterStyle = 'masterStyle',
+  InpaintEdit = 'inpaintEdit',
+  Upscale = 'upscale',
+}
+
+// What the operation that produced a result was given, besides its parent image
+export interface OperationInputs {
+  masterStyle?: string; // Style prompt
+  editPrompt?: string; // Summary of all regions' prompts
+  editMask?: string; // Base64 PNG, white = edited area
+  editRegions?: EditRegion[]; // Every region of the edit, even a single one
+  editStrategy?: EditStrategy;
+  upscaleFactor?: number;
 }
 
 export interface MasterStyle {
@@ -56,4 +167,237 @@ export interface MasterStyle {
   label: string;
   prompt: string;
   icon?: string;
+  thumbnail?: string; // Base64 JPEG preview
+}
+
+// Library entry with a label per language, localized into a MasterStyle for display
+export interface MasterStyleDefinition {
+  id: string;
+  labels: Record<Language, string>;
+  prompt: string;
+  icon: string;
+  thumbnail?: string;
+  builtIn: boolean; // The shipped styles are read-only
+}
+
+// --- Service Errors ---
+
+export enum ServiceErrorKind {
+  Quota = 'quota',
+  Safety = 'safety',
+  Network = 'network',
+  InvalidInput = 'invalidInput',
+  MissingApiKey = 'missingApiKey',
+  EmptyResponse = 'emptyResponse',
+  Unknown = 'unknown',
+}
+
+// --- Render Providers ---
+
+export enum ProviderId {
+  Gemini = 'gemini',
+  Mock = 'mock',
+}
+
+export interface ImagePayload {
+  data: string; // Base64 without the data: prefix
+  mimeType: string;
+}
+
+export interface AnalyzeRequest {
+  images: ImagePayload[]; // Sketch first, then context, then references
+  instruction: string;
+}
+
+export interface RenderRequest {
+  sketch: ImagePayload;
+  prompt: string;
+  aspectRatio: AspectRatio;
+}
+
+export interface StyleRequest {
+  image: ImagePayload;
+  prompt: string;
+}
+
+export interface EditRequest {
+  image: ImagePayload;
+  mask: ImagePayload;
+  prompt: string;
+}
+
+// One tile of an upscale, already enlarged; the model only adds detail
+export interface EnhanceRequest {
+  image: ImagePayload;
+  prompt: string;
+  aspectRatio: AspectRatio; // Of the tile, so it comes back in shape
+}
+
+export type ProviderOperation = 'refine' | 'analyze' | 'render' | 'style' | 'edit' | 'enhance';
+
+// Rate limit the scheduler enforces per model name
+export interface ModelBudget {
+  model: string;
+  requestsPerMinute: number;
+}
+
+export interface RenderProvider {
+  id: ProviderId;
+  label: string;
+  budgets: Record<ProviderOperation, ModelBudget>; // Which model each operation hits
+  // Every call takes an optional signal; aborting rejects with an AbortError
+  refine: (instruction: string, signal?: AbortSignal) => Promise<string>;
+  analyze: (request: AnalyzeRequest, signal?: AbortSignal) => Promise<SceneAnalysis>;
+  render: (request: RenderRequest, signal?: AbortSignal) => Promise<string>;
+  style: (request: StyleRequest, signal?: AbortSignal) => Promise<string>;
+  edit: (request: EditRequest, signal?: AbortSignal) => Promise<string>;
+  enhance: (request: EnhanceRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+// --- Render History ---
+
+export interface HistoryEntry {
+  id: string; // Same as result.id
+  result: PromptResult;
+  sketch?: Blob; // Input sketch as uploaded
+  sketchId?: string; // Key the sketch is stored under once for every entry made from it
+  sketchName?: string;
+  params: GenerationParams;
+  userPrompt: string;
+  masterStyle?: string;
+  timestamp: number;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number; // Number of entries matching the query
+}
+
+// --- Parameter Sweep ---
+
+export interface SweepSelection {
+  lighting: LightingTime[];
+  sunDirection: SunDirection[];
+  weather: WeatherCondition[];
+}
+
+export interface SweepCell {
+  lighting: LightingTime;
+  sunDirection: SunDirection;
+  weather: WeatherCondition;
+  result: PromptResult;
+}
+
+// --- Inpainting ---
+
+// One named area of an edit with its own instruction
+export interface EditRegion {
+  id: string;
+  name: string;
+  color: string; // Hex colour of the region in the mask editor
+  prompt: string;
+  mask?: string; // Base64 PNG, white = edited area; missing while nothing is selected
+}
+
+// How an edit with several regions is sent: one request per region, or one request for all
+export type EditStrategy = 'sequential' | 'combined';
+
+// --- Comparison ---
+
+// One side of a comparison; `src` is a data URL or an object URL
+export interface CompareImage {
+  src: string;
+  label: string;
+}
+
+// --- Scene Analysis ---
+
+export interface SceneAnalysis {
+  buildingType: string;
+  massing: string;
+  materials: string[];
+  camera: string; // Camera position and view
+  landscape: string;
+  mood: string;
+}
+
+// --- Prompt Templates ---
+
+// One slot per instruction the app sends to the model
+export type PromptTemplateSlot = 'refine' | 'analyze' | 'render' | 'style' | 'edit' | 'enhance';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string; // Text with {{variable}} or {{variable|fallback}} placeholders
+  savedAt: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  slot: PromptTemplateSlot;
+  name: string;
+  builtIn: boolean; // Built-ins are read-only, duplicate them to customize
+  versions: PromptTemplateVersion[]; // Oldest first, the last one is in use
+}
+
+export interface PromptTemplateLibrary {
+  templates: PromptTemplate[];
+  active: Record<PromptTemplateSlot, string>; // Template id in use per slot
+}
+
+// --- Projects ---
+
+export interface ProjectInfo {
+  jobNumber: string;
+  name: string;
+}
+
+// The whole working session, as saved to and restored from a project file
+export interface ProjectSnapshot {
+  info: ProjectInfo;
+  sketch: UploadedImage[];
+  context: UploadedImage[];
+  references: UploadedImage[];
+  userPrompt: string;
+  params: GenerationParams;
+  variationCount: number;
+  reviewAnalysis: boolean;
+  sweepSelection: SweepSelection;
+  pendingAnalysis: SceneAnalysis | null;
+  result: PromptResult | null;
+  styledResult: PromptResult | null;
+  variations: PromptResult[];
+  sweepRun: { selection: SweepSelection; cells: SweepCell[] } | null;
+  lineage: PromptResult[];
+  history: HistoryEntry[]; // Saved renders of the project's lineage trees
+}
+
+// --- Presentation Board ---
+
+export type BoardTemplateId = 'a3-landscape' | 'a1-poster';
+
+export type BoardFormat = 'pdf' | 'png';
+
+export interface BoardTitleBlock {
+  project: string;
+  jobNumber: string;
+  author: string;
+  date: string;
+}
+
+// --- Render Metadata ---
+
+// Written into downloaded PNGs so a render can be traced and its settings restored
+export interface RenderMetadata {
+  version: number;
+  resultId: string;
+  parentId?: string;
+  rootId?: string;
+  operation?: ResultOperation;
+  prompt: string;
+  params?: GenerationParams;
+  masterStyle?: string;
+  model?: string;
+  aspectRatio?: AspectRatio;
+  createdAt: string; // ISO date of the render
 }